@@ -0,0 +1,119 @@
+import type { AnomalyMethod, AnomalySeasonality, AnomalySensitivity, Severity } from "./types.js";
+import { isValidTimeZone, toLocalTime } from "./business-hours.js";
+
+// ============================================================
+// Statistical anomaly scoring (CK-04)
+// ============================================================
+
+/** |score| at which a value is warn / critical */
+export const SENSITIVITY_THRESHOLDS: Readonly<Record<AnomalySensitivity, { warn: number; critical: number }>> = {
+  high: { warn: 2, critical: 3 },
+  medium: { warn: 3, critical: 4.5 },
+  low: { warn: 4, critical: 6 },
+};
+
+/** Scales MAD to a stddev-equivalent for normally distributed data */
+const MAD_SCALE = 1.4826;
+const EWMA_ALPHA = 0.3;
+/** Spread floor relative to the center, so a flat series isn't infinitely sensitive */
+const MIN_RELATIVE_SPREAD = 0.01;
+const MIN_SPREAD = 1e-6;
+
+export interface Sample { ts: number; value: number }
+
+export function mean(values: ReadonlyArray<number>): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Sample standard deviation (n - 1) */
+export function stddev(values: ReadonlyArray<number>): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+export function median(values: ReadonlyArray<number>): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/** Median absolute deviation from the median */
+export function mad(values: ReadonlyArray<number>): number {
+  const m = median(values);
+  return median(values.map((v) => Math.abs(v - m)));
+}
+
+/** Exponentially weighted mean and standard deviation, oldest value first */
+export function ewma(values: ReadonlyArray<number>, alpha: number = EWMA_ALPHA): { mean: number; stddev: number } {
+  let m = values[0] ?? 0;
+  let variance = 0;
+  for (const v of values.slice(1)) {
+    const diff = v - m;
+    const incr = alpha * diff;
+    m += incr;
+    variance = (1 - alpha) * (variance + diff * incr);
+  }
+  return { mean: m, stddev: Math.sqrt(variance) };
+}
+
+/** Center and spread of a baseline series under the given method */
+export function estimate(values: ReadonlyArray<number>, method: AnomalyMethod): { center: number; spread: number } {
+  switch (method) {
+    case "zscore": return { center: mean(values), spread: stddev(values) };
+    case "mad": return { center: median(values), spread: MAD_SCALE * mad(values) };
+    case "ewma": {
+      const e = ewma(values);
+      return { center: e.mean, spread: e.stddev };
+    }
+  }
+}
+
+/**
+ * Keep samples from the same hour of day / day of week as `at`, by wall-clock
+ * time in `tz` (DST-aware). An invalid timezone falls back to UTC.
+ */
+export function seasonalSamples(samples: ReadonlyArray<Sample>, at: number, seasonality: AnomalySeasonality, tz = "UTC"): Sample[] {
+  if (seasonality === "none") return [...samples];
+  const zone = isValidTimeZone(tz) ? tz : "UTC";
+  const key = (ts: number): string => {
+    const local = toLocalTime(new Date(ts), zone);
+    return seasonality === "hour_of_day" ? String(local.hour) : local.weekday;
+  };
+  const target = key(at);
+  return samples.filter((s) => key(s.ts) === target);
+}
+
+export interface ScoreResult {
+  score: number;
+  center: number;
+  expected: [number, number];
+  severity: Severity;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Score `current` against a baseline series: (current - center) / spread.
+ * The expected range is center ± the warn threshold in spreads.
+ */
+export function scoreValue(
+  current: number,
+  baseline: ReadonlyArray<number>,
+  method: AnomalyMethod,
+  sensitivity: AnomalySensitivity,
+): ScoreResult {
+  const { center, spread: raw } = estimate(baseline, method);
+  const spread = Math.max(raw, Math.abs(center) * MIN_RELATIVE_SPREAD, MIN_SPREAD);
+  const score = (current - center) / spread;
+  const t = SENSITIVITY_THRESHOLDS[sensitivity];
+  const abs = Math.abs(score);
+  return {
+    score: round2(score),
+    center: round2(center),
+    expected: [round2(center - t.warn * spread), round2(center + t.warn * spread)],
+    severity: abs >= t.critical ? "critical" : abs >= t.warn ? "warn" : "ok",
+  };
+}
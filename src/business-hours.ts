@@ -0,0 +1,84 @@
+import type { BusinessHoursConfig, BusinessHoursWindow, DailyHours, Weekday } from "./types.js";
+
+export const WEEKDAYS: ReadonlyArray<Weekday> = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+const SHORT_TO_WEEKDAY: Record<string, Weekday> = {
+  Mon: "mon", Tue: "tue", Wed: "wed", Thu: "thu", Fri: "fri", Sat: "sat", Sun: "sun",
+};
+
+export interface LocalTime { date: string; hour: number; minute: number; weekday: Weekday }
+
+/** One formatter per timezone; building them dominates when many timestamps are converted */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date/time in `tz` via Intl — DST-correct, no dependencies. */
+export function toLocalTime(now: Date, tz: string): LocalTime {
+  let format = formatters.get(tz);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(tz, format);
+  }
+  const parts = format.formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes): string => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    hour: parseInt(get("hour"), 10),
+    minute: parseInt(get("minute"), 10),
+    weekday: SHORT_TO_WEEKDAY[get("weekday")] ?? "mon",
+  };
+}
+
+function formatHour(h: number): string {
+  const hh = Math.floor(h);
+  const mm = Math.round((h - hh) * 60);
+  return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+}
+
+function withinHours(hours: DailyHours, at: number): boolean {
+  if (hours.start === hours.end) return false;
+  return hours.start < hours.end
+    ? at >= hours.start && at < hours.end
+    : at >= hours.start || at < hours.end; // spans midnight
+}
+
+/**
+ * Evaluate business hours at `now` in the configured timezone.
+ * Per-weekday overrides replace the default start/end; holidays are closed all day.
+ * An invalid timezone falls back to UTC (reported in `tz`).
+ */
+export function evaluateBusinessHours(bh: BusinessHoursConfig, now: Date = new Date()): BusinessHoursWindow {
+  const tz = isValidTimeZone(bh.tz) ? bh.tz : "UTC";
+  const local = toLocalTime(now, tz);
+  const holiday = (bh.holidays ?? []).includes(local.date);
+  const override = bh.weekdays?.[local.weekday];
+  const today: DailyHours | null = holiday || override === null
+    ? null
+    : override ?? { start: bh.start, end: bh.end };
+
+  return {
+    in_business_hours: today !== null && withinHours(today, local.hour + local.minute / 60),
+    tz,
+    local_time: `${local.date}T${String(local.hour).padStart(2, "0")}:${String(local.minute).padStart(2, "0")}`,
+    weekday: local.weekday,
+    hours: today ? `${formatHour(today.start)}-${formatHour(today.end)}` : null,
+    holiday,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Dependency-aware task executor for cognitive checks.
+ *
+ * Tasks run as soon as all their dependencies have settled (fulfilled or
+ * rejected), with at most `maxConcurrency` running at once. Results are
+ * returned in task order regardless of completion order.
+ */
+
+export interface ExecutorTask<T> {
+  id: string;
+  /** Ids of tasks that must settle before this one starts */
+  dependsOn?: ReadonlyArray<string>;
+  /** Receives the fulfilled values of its dependencies, in task order */
+  run(deps: T[]): Promise<T>;
+}
+
+function validate<T>(tasks: ReadonlyArray<ExecutorTask<T>>): void {
+  const ids = new Set<string>();
+  for (const t of tasks) {
+    if (ids.has(t.id)) throw new Error(`Duplicate task id: ${t.id}`);
+    ids.add(t.id);
+  }
+  for (const t of tasks) {
+    for (const d of t.dependsOn ?? []) {
+      if (!ids.has(d)) throw new Error(`Task ${t.id} depends on unknown task ${d}`);
+    }
+  }
+  // Cycle check: repeatedly remove tasks whose dependencies are all removed
+  const done = new Set<string>();
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const t of tasks) {
+      if (!done.has(t.id) && (t.dependsOn ?? []).every((d) => done.has(d))) {
+        done.add(t.id);
+        progressed = true;
+      }
+    }
+  }
+  const cyclic = tasks.filter((t) => !done.has(t.id)).map((t) => t.id);
+  if (cyclic.length > 0) throw new Error(`Dependency cycle between tasks: ${cyclic.join(", ")}`);
+}
+
+export function executeTasks<T>(
+  tasks: ReadonlyArray<ExecutorTask<T>>,
+  maxConcurrency: number,
+): Promise<Array<PromiseSettledResult<T>>> {
+  validate(tasks);
+  const limit = Math.max(1, Math.floor(maxConcurrency));
+  const settled: Array<PromiseSettledResult<T> | undefined> = tasks.map(() => undefined);
+  const indexOf = new Map(tasks.map((t, i) => [t.id, i]));
+  const started = new Set<number>();
+  let running = 0;
+
+  return new Promise((resolve) => {
+    const depsSettled = (t: ExecutorTask<T>): boolean =>
+      (t.dependsOn ?? []).every((d) => settled[indexOf.get(d)!] !== undefined);
+
+    const depValues = (t: ExecutorTask<T>): T[] =>
+      tasks
+        .map((other, i) => ({ other, s: settled[i] }))
+        .filter(({ other, s }) => (t.dependsOn ?? []).includes(other.id) && s?.status === "fulfilled")
+        .map(({ s }) => (s as PromiseFulfilledResult<T>).value);
+
+    const pump = (): void => {
+      if (settled.every((s) => s !== undefined)) {
+        resolve(settled as Array<PromiseSettledResult<T>>);
+        return;
+      }
+      for (let i = 0; i < tasks.length && running < limit; i++) {
+        const task = tasks[i]!;
+        if (started.has(i) || !depsSettled(task)) continue;
+        started.add(i);
+        running++;
+        Promise.resolve()
+          .then(() => task.run(depValues(task)))
+          .then(
+            (value) => { settled[i] = { status: "fulfilled", value }; },
+            (reason: unknown) => { settled[i] = { status: "rejected", reason }; },
+          )
+          .finally(() => {
+            running--;
+            pump();
+          });
+      }
+    };
+
+    pump();
+  });
+}
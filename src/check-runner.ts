@@ -1,10 +1,12 @@
 import type {
+  CheckFinding,
   CognitiveCheckResult,
   LlmClient,
   PluginLogger,
   Severity,
 } from "./types.js";
-import { parseLlmJson } from "./check-utils.js";
+import { parseLlmJson, parseSeverityString, worstSeverity } from "./check-utils.js";
+import { formatIssue, validateSchema, type JsonSchema } from "./schema.js";
 
 /**
  * Options for the generic LLM check runner.
@@ -17,6 +19,8 @@ export interface LlmCheckOpts<TInput, TResponse> {
   name: string;
   /** LLM system prompt */
   systemPrompt: string;
+  /** Expected response shape; a response that doesn't match is re-prompted once */
+  responseSchema: JsonSchema;
   /** LLM client instance */
   llm: LlmClient;
   /** Logger */
@@ -25,14 +29,41 @@ export interface LlmCheckOpts<TInput, TResponse> {
   readInput(timestamp: string, startMs: number): ReadInputResult<TInput>;
   /** Run deterministic pre-filter; returns pre-severity and partial data */
   preFilter(input: TInput): PreFilterResult;
-  /** Build the LLM user prompt from input */
-  buildPrompt(input: TInput): string;
+  /** Build the LLM user prompt from input; in batch mode once per chunk */
+  buildPrompt(input: TInput, chunk?: PromptChunk): string;
+  /** Split the input's items into token-budgeted chunks, one LLM call each */
+  batch?: LlmBatchOpts<TInput, TResponse>;
   /** Build fail-open result when LLM fails */
   buildFailOpen(opts: FailOpenOpts): CognitiveCheckResult;
   /** Parse and merge LLM response + pre-filter into final result */
   mergeResults(opts: MergeOpts<TResponse>): CognitiveCheckResult;
 }
 
+export interface LlmBatchOpts<TInput, TResponse> {
+  /** Compact per-item projections of the input, in item order */
+  project(input: TInput): unknown[];
+  /** Approximate budget for the projected items of one chunk, in tokens */
+  maxChunkTokens: number;
+  /** Chunks sent per run; items in later chunks are skipped and reported as a `truncated` finding */
+  maxChunks: number;
+  /**
+   * Combine the valid chunk responses into one, including any cross-chunk
+   * pass. `chunks` holds the item indices of each response's chunk.
+   */
+  mergeChunks(responses: TResponse[], chunks: number[][], input: TInput): TResponse;
+}
+
+export interface PromptChunk {
+  /** The chunk's projected items, one JSON object per line */
+  itemsJson: string;
+  index: number;
+  count: number;
+  /** Items in this chunk */
+  size: number;
+  /** Items across all chunks */
+  total: number;
+}
+
 export type ReadInputResult<T> =
   | { ok: true; input: T }
   | { ok: false; skip: CognitiveCheckResult };
@@ -63,11 +94,215 @@ export interface MergeOpts<TResponse> {
   startMs: number;
 }
 
+/** Response schema shared by the LLM checks: severity, detail and a list of entries */
+export function llmResponseSchema(listKey: string, item: Record<string, JsonSchema>, requiredItemKeys: string[] = []): JsonSchema {
+  return {
+    type: "object",
+    required: ["severity"],
+    properties: {
+      severity: { type: "string", enum: ["ok", "warn", "critical"] },
+      detail: { type: "string" },
+      [listKey]: { type: "array", items: { type: "object", properties: item, required: requiredItemKeys } },
+    },
+  };
+}
+
+interface ValidatedResponse<T> {
+  parsed: T | null;
+  /** Empty when `parsed` matches the schema */
+  problems: string[];
+}
+
+function validateResponse<T>(content: string, schema: JsonSchema): ValidatedResponse<T> {
+  const parsed = parseLlmJson<T>(content);
+  if (parsed === null) return { parsed, problems: ["no JSON object found in the response"] };
+  return { parsed, problems: validateSchema(schema, parsed).map(formatIssue) };
+}
+
+function repairPrompt(userPrompt: string, problems: string[]): string {
+  const list = problems.slice(0, 10).map((p) => `- ${p}`).join("\n");
+  return `${userPrompt}\n\nYour previous response was rejected:\n${list}\nRespond again with ONLY the JSON object, exactly matching the schema.`;
+}
+
+/** Rough token estimate for prompt budgeting (~4 characters per token) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Group consecutive items into chunks of at most `maxTokens`. An item over
+ * the budget gets a chunk of its own. Returns item indices per chunk.
+ */
+export function chunkByTokens(items: string[], maxTokens: number): number[][] {
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let used = 0;
+  items.forEach((item, i) => {
+    const cost = estimateTokens(item) + 1;
+    if (current.length > 0 && used + cost > maxTokens) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(i);
+    used += cost;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+/** Jaccard similarity of the word sets of two titles; empty titles never match */
+export function titleSimilarity(a: string, b: string): number {
+  if (a === "" || b === "") return 0;
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  for (const w of wa) if (wb.has(w)) shared++;
+  return shared / (wa.size + wb.size - shared);
+}
+
+/**
+ * Pairs of near-identical items that ended up in different chunks, which no
+ * single chunk call could see together. Each later item is reported once,
+ * paired with its first earlier match.
+ */
+export function crossChunkDuplicates<T>(chunks: T[][], title: (item: T) => string, threshold = 0.8): Array<[T, T]> {
+  const pairs: Array<[T, T]> = [];
+  chunks.forEach((chunk, c) => {
+    for (const item of chunk) {
+      const earlier = chunks.slice(0, c).flat().find((other) => titleSimilarity(title(other), title(item)) >= threshold);
+      if (earlier !== undefined) pairs.push([earlier, item]);
+    }
+  });
+  return pairs;
+}
+
+interface FindingsResponse<F> {
+  severity?: string;
+  detail?: string;
+  findings?: F[];
+}
+
+/**
+ * Merge chunk responses of the `{ severity, detail, findings }` shape: worst
+ * severity, findings deduplicated by `key`, plus `extra` findings from a
+ * cross-chunk pass (which raise the severity to at least warn).
+ */
+export function mergeFindingsResponses<F>(
+  responses: ReadonlyArray<FindingsResponse<F>>,
+  key: (finding: F) => string,
+  extra: F[] = [],
+): FindingsResponse<F> {
+  const seen = new Set<string>();
+  const findings: F[] = [];
+  for (const f of [...responses.flatMap((r) => r.findings ?? []), ...extra]) {
+    const k = key(f);
+    if (seen.has(k)) continue;
+    seen.add(k);
+    findings.push(f);
+  }
+  const severity = worstSeverity(...responses.map((r) => parseSeverityString(r.severity)), extra.length > 0 ? "warn" : "ok");
+  const details = [...new Set(responses.map((r) => r.detail).filter((d): d is string => typeof d === "string" && d !== ""))];
+  if (extra.length > 0) details.push(`${extra.length} cross-chunk duplicate(s)`);
+  return { severity, detail: details.join(" | ") || `${findings.length} findings`, findings };
+}
+
+interface LlmCall<TResponse> {
+  model: string;
+  tokens: number;
+  costUsd: number;
+  /** The LLM returned a completion (valid or not) */
+  completed: boolean;
+  parsed: TResponse | null;
+  /** Fail-open message when `parsed` is null */
+  failure?: string;
+}
+
+/** One prompt: LLM call, extraction, validation and at most one repair re-prompt */
+async function callLlm<TInput, TResponse>(opts: LlmCheckOpts<TInput, TResponse>, userPrompt: string): Promise<LlmCall<TResponse>> {
+  const llmResult = await opts.llm.generate(opts.systemPrompt, userPrompt);
+  if (llmResult.content === null) {
+    const failure = llmResult.error
+      ? `LLM unavailable (${llmResult.error})`
+      : "LLM timeout";
+    return { model: llmResult.model, tokens: 0, costUsd: 0, completed: false, parsed: null, failure };
+  }
+
+  const call: LlmCall<TResponse> = { model: llmResult.model, tokens: llmResult.tokens, costUsd: llmResult.costUsd ?? 0, completed: true, parsed: null };
+  let response = validateResponse<TResponse>(llmResult.content, opts.responseSchema);
+
+  if (response.problems.length > 0) {
+    opts.logger.warn(`[leuko] ${opts.name}: invalid LLM response (${response.problems.slice(0, 3).join("; ")}) — re-prompting`);
+    const retry = await opts.llm.generate(opts.systemPrompt, repairPrompt(userPrompt, response.problems));
+    if (retry.content !== null) {
+      call.model = retry.model;
+      call.tokens += retry.tokens;
+      call.costUsd += retry.costUsd ?? 0;
+      response = validateResponse<TResponse>(retry.content, opts.responseSchema);
+    }
+  }
+
+  if (response.parsed === null) return { ...call, failure: "LLM response parsing failed" };
+  if (response.problems.length > 0) {
+    return { ...call, failure: `LLM response failed validation (${response.problems.slice(0, 3).join("; ")})` };
+  }
+  return { ...call, parsed: response.parsed };
+}
+
+interface ChunkPrompt {
+  prompt: string;
+  items: number[];
+}
+
+/** One prompt per chunk, up to `maxChunks`, and the number of items left out */
+function chunkPrompts<TInput, TResponse>(
+  opts: LlmCheckOpts<TInput, TResponse>,
+  batch: LlmBatchOpts<TInput, TResponse>,
+  input: TInput,
+): { prompts: ChunkPrompt[]; skipped: number; total: number } {
+  const projected = batch.project(input).map((item) => JSON.stringify(item));
+  const all = chunkByTokens(projected, batch.maxChunkTokens);
+  const chunks = all.slice(0, Math.max(1, batch.maxChunks));
+  const skipped = all.slice(chunks.length).reduce((sum, c) => sum + c.length, 0);
+  const prompts = chunks.map((items, index) => ({
+    items,
+    prompt: opts.buildPrompt(input, {
+      itemsJson: items.map((i) => projected[i]).join("\n"),
+      index,
+      count: chunks.length,
+      size: items.length,
+      total: projected.length,
+    }),
+  }));
+  return { prompts, skipped, total: projected.length };
+}
+
+/** Finding for items a batch run left out, appended to the check's result */
+function withTruncation(result: CognitiveCheckResult, skipped: number, total: number, maxChunks: number): CognitiveCheckResult {
+  if (skipped === 0) return result;
+  const finding: CheckFinding = {
+    issue: "truncated",
+    detail: `${skipped} of ${total} items not reviewed — over the limit of ${maxChunks} LLM call(s)`,
+    recommendation: "Raise maxChunks or maxChunkTokens, or reduce the input",
+  };
+  return { ...result, findings: [...(result.findings ?? []), finding] };
+}
+
 /**
  * Generic runner for all LLM-based cognitive checks.
  *
- * Flow: readInput → preFilter → LLM call → parse → mergeResults
- * On LLM failure: fail-open via buildFailOpen.
+ * Flow: readInput → preFilter → LLM call → extract + validate → mergeResults
+ * A response without valid JSON is re-prompted once with the problems found.
+ * In batch mode there is one call per chunk, up to `maxChunks` (concurrency
+ * is left to the client), and the valid chunk responses are combined via
+ * `mergeChunks`. Each call uses the providers' configured timeouts.
+ * On LLM failure or a second invalid response (every chunk, in batch
+ * mode): fail-open via buildFailOpen.
  */
 export async function runLlmCheck<TInput, TResponse>(
   opts: LlmCheckOpts<TInput, TResponse>,
@@ -78,32 +313,52 @@ export async function runLlmCheck<TInput, TResponse>(
   const readResult = opts.readInput(timestamp, startMs);
   if (!readResult.ok) return readResult.skip;
 
-  const pre = opts.preFilter(readResult.input);
-  const userPrompt = opts.buildPrompt(readResult.input);
-  const llmResult = await opts.llm.generate(opts.systemPrompt, userPrompt, 30000);
-
-  if (llmResult.content === null) {
-    const msg = llmResult.error
-      ? `LLM unavailable (${llmResult.error})`
-      : "LLM timeout";
-    return opts.buildFailOpen({
-      name: opts.name, pre, message: msg,
-      llmModel: llmResult.model, llmTokens: 0, timestamp, startMs,
-    });
+  const input = readResult.input;
+  const pre = opts.preFilter(input);
+  const { prompts, skipped, total } = opts.batch
+    ? chunkPrompts(opts, opts.batch, input)
+    : { prompts: [{ prompt: opts.buildPrompt(input), items: [] }], skipped: 0, total: 0 };
+  if (skipped > 0) {
+    opts.logger.warn(`[leuko] ${opts.name}: ${skipped} of ${total} items over maxChunks (${prompts.length}) — not reviewed`);
   }
+  const truncated = (result: CognitiveCheckResult): CognitiveCheckResult =>
+    withTruncation(result, skipped, total, prompts.length);
+  const calls = await Promise.all(prompts.map((p) => callLlm(opts, p.prompt)));
 
-  const parsed = parseLlmJson<TResponse>(llmResult.content);
-  if (!parsed) {
-    return opts.buildFailOpen({
-      name: opts.name, pre, message: "LLM response parsing failed",
-      llmModel: llmResult.model, llmTokens: llmResult.tokens,
-      timestamp, startMs,
+  // Models that served a chunk; "none" only when no chunk got a completion
+  const served = calls.filter((c) => c.completed);
+  const llmModel = [...new Set((served.length > 0 ? served : calls).map((c) => c.model))].join(", ");
+  const llmTokens = calls.reduce((sum, c) => sum + c.tokens, 0);
+  const costUsd = calls.reduce((sum, c) => sum + c.costUsd, 0);
+  // A priced completion is paid for even if its response turns out unusable
+  const cost = costUsd ? { cost_usd: costUsd } : {};
+
+  const valid = calls.flatMap((c, i) => (c.parsed !== null ? [{ parsed: c.parsed, items: prompts[i]!.items }] : []));
+  if (valid.length === 0) {
+    return truncated({
+      ...opts.buildFailOpen({
+        name: opts.name, pre, message: calls[0]?.failure ?? "LLM response parsing failed",
+        llmModel, llmTokens,
+        timestamp, startMs,
+      }),
+      ...cost,
     });
   }
+  if (valid.length < calls.length) {
+    const failure = calls.find((c) => c.parsed === null)?.failure ?? "unknown";
+    opts.logger.warn(`[leuko] ${opts.name}: ${calls.length - valid.length} of ${calls.length} chunks failed (${failure}) — using the rest`);
+  }
 
-  return opts.mergeResults({
-    parsed, pre,
-    llmModel: llmResult.model, llmTokens: llmResult.tokens,
-    timestamp, startMs,
+  const parsed = opts.batch
+    ? opts.batch.mergeChunks(valid.map((v) => v.parsed), valid.map((v) => v.items), input)
+    : valid[0]!.parsed;
+
+  return truncated({
+    ...opts.mergeResults({
+      parsed, pre,
+      llmModel, llmTokens,
+      timestamp, startMs,
+    }),
+    ...cost,
   });
 }
@@ -19,6 +19,22 @@ export function worstSeverity(...severities: Severity[]): Severity {
   return "ok";
 }
 
+/**
+ * Expand a leading `~` to $HOME.
+ */
+export function expandHome(path: string): string {
+  return path.replace(/^~/, process.env["HOME"] ?? "/tmp");
+}
+
+/**
+ * Shorten a string to at most `max` characters, marking the cut with "…".
+ * Non-strings yield undefined, so optional fields drop out of projections.
+ */
+export function clip(v: unknown, max: number): string | undefined {
+  if (typeof v !== "string") return undefined;
+  return v.length > max ? `${v.slice(0, max - 1)}…` : v;
+}
+
 /**
  * Type guard: is value a plain object (non-null, non-array)?
  */
@@ -26,14 +42,54 @@ export function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === "object" && v !== null && !Array.isArray(v);
 }
 
-/**
- * Parse a JSON string (typically raw LLM output) into a typed object.
- * Returns null on parse failure.
- */
-export function parseLlmJson<T>(raw: string): T | null {
+/** First balanced `{...}` starting at or after `from`, skipping braces inside strings */
+function balancedObject(text: string, from: number): { json: string; start: number } | null {
+  const start = text.indexOf("{", from);
+  if (start === -1) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}" && --depth === 0) {
+      return { json: text.slice(start, i + 1), start };
+    }
+  }
+  return null;
+}
+
+function tryParseObject(text: string): Record<string, unknown> | null {
   try {
-    return JSON.parse(raw) as T;
+    const parsed: unknown = JSON.parse(text);
+    return isRecord(parsed) ? parsed : null;
   } catch {
     return null;
   }
 }
+
+/**
+ * Parse raw LLM output into a JSON object. Tolerates `<think>` reasoning
+ * blocks, markdown code fences and prose around the object: the first
+ * parseable `{...}` wins. Returns null when there is none.
+ */
+export function parseLlmJson<T>(raw: string): T | null {
+  const text = raw.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
+  const whole = tryParseObject(text);
+  if (whole) return whole as T;
+
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text)?.[1];
+  const fromFence = fenced !== undefined ? tryParseObject(fenced.trim()) : null;
+  if (fromFence) return fromFence as T;
+
+  for (let candidate = balancedObject(text, 0); candidate; candidate = balancedObject(text, candidate.start + 1)) {
+    const parsed = tryParseObject(candidate.json);
+    if (parsed) return parsed as T;
+  }
+  return null;
+}
@@ -1,5 +1,3 @@
-import { statSync, existsSync, readdirSync } from "node:fs";
-import { join } from "node:path";
 import type {
   CognitiveCheckResult,
   AnomalyEntry,
@@ -7,65 +5,71 @@ import type {
   LeukoHistory,
   PluginLogger,
   Severity,
+  StatisticalMetricConfig,
 } from "../types.js";
+import { scanDir } from "../dir-size.js";
+import { scoreValue, seasonalSamples, type Sample } from "../anomaly-stats.js";
+import { expandHome } from "../check-utils.js";
 
 const CHECK_NAME = "cognitive:anomaly_detection";
+const DEFAULT_MAX_DEPTH = 32;
 
-function getDirSizeMb(dirPath: string): number | null {
-  try {
-    if (!existsSync(dirPath)) return null;
-    let totalBytes = 0;
-    const entries = readdirSync(dirPath, { withFileTypes: true });
-    for (const entry of entries) {
-      try {
-        if (entry.isFile()) totalBytes += statSync(join(dirPath, entry.name)).size;
-      } catch { /* skip inaccessible */ }
-    }
-    return Math.round((totalBytes / (1024 * 1024)) * 100) / 100;
-  } catch {
-    return null;
-  }
+function toMb(bytes: number): number {
+  return Math.round((bytes / (1024 * 1024)) * 100) / 100;
 }
 
-interface TrendResult { consecutive: number; direction: "growing" | "shrinking" | "stable" }
-
-function detectTrends(history: LeukoHistory | null, metricName: string): TrendResult {
-  if (!history || history.snapshots.length < 3) return { consecutive: 0, direction: "stable" };
-  const values = history.snapshots
-    .filter((s) => typeof s.metrics[metricName] === "number")
-    .map((s) => s.metrics[metricName]!);
-  if (values.length < 3) return { consecutive: 0, direction: "stable" };
-  return computeConsecutiveTrend(values);
-}
+interface TrendRun { length: number; direction: "increasing" | "decreasing" | null }
 
-function computeConsecutiveTrend(values: number[]): TrendResult {
-  let up = 0;
-  let down = 0;
+/** Length and direction of the trailing run of same-direction changes; an unchanged step ends it */
+function trailingRun(values: ReadonlyArray<number>): TrendRun {
+  let length = 0;
+  let direction: TrendRun["direction"] = null;
   for (let i = values.length - 1; i > 0; i--) {
-    const prev = values[i - 1]!;
     const curr = values[i]!;
-    if (curr > prev) { up++; down = 0; }
-    else if (curr < prev) { down++; up = 0; }
-    else break;
+    const prev = values[i - 1]!;
+    const step = curr > prev ? "increasing" : curr < prev ? "decreasing" : null;
+    if (step === null || (direction !== null && step !== direction)) break;
+    direction = step;
+    length++;
   }
-  if (down >= 3) return { consecutive: down, direction: "shrinking" };
-  if (up >= 3) return { consecutive: up, direction: "growing" };
-  return { consecutive: 0, direction: "stable" };
+  return { length, direction };
 }
 
+/**
+ * Size every monitored dir (recursively) and record `<label>_dir_mb` / `<label>_file_count`.
+ * Returns the labels whose scan ran out of time; partial totals are not recorded
+ * so they can't masquerade as shrinkage in history.
+ */
 function checkDirSizes(
   config: AnomalyDetectionCheckConfig,
   history: LeukoHistory | null,
   baselines: Record<string, number>,
   anomalies: AnomalyEntry[],
-): void {
+  logger: PluginLogger,
+): string[] {
+  const deadlineMs = Date.now() + config.scanBudgetMs;
+  const incomplete: string[] = [];
   for (const dir of config.monitoredDirs) {
-    const resolved = dir.path.replace(/^~/, process.env["HOME"] ?? "/tmp");
-    const currentMb = getDirSizeMb(resolved);
-    if (currentMb === null) continue;
+    const scan = scanDir(expandHome(dir.path), {
+      maxDepth: dir.maxDepth ?? DEFAULT_MAX_DEPTH,
+      exclude: dir.exclude ?? [],
+      deadlineMs,
+    });
+    if (scan === null) continue;
+    if (!scan.complete) {
+      logger.warn(`[leuko] Sizing ${dir.label} exceeded scanBudgetMs (${config.scanBudgetMs}ms) — baseline skipped`);
+      incomplete.push(dir.label);
+      continue;
+    }
+    if (scan.depthLimited > 0) {
+      logger.debug(`[leuko] Sizing ${dir.label}: ${scan.depthLimited} dir(s) below maxDepth not counted`);
+    }
+    const currentMb = toMb(scan.bytes);
     baselines[`${dir.label}_dir_mb`] = currentMb;
+    baselines[`${dir.label}_file_count`] = scan.files;
     checkGrowthAnomaly(dir.label, currentMb, history, anomalies);
   }
+  return incomplete;
 }
 
 function checkGrowthAnomaly(
@@ -73,8 +77,9 @@ function checkGrowthAnomaly(
   history: LeukoHistory | null, anomalies: AnomalyEntry[],
 ): void {
   if (!history || history.snapshots.length === 0) return;
+  // Most recent snapshot that is at least 7 days old
   const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-  const snap = history.snapshots.find((s) => {
+  const snap = [...history.snapshots].reverse().find((s) => {
     const ts = new Date(s.timestamp).getTime();
     return !isNaN(ts) && ts < weekAgo;
   });
@@ -89,16 +94,90 @@ function checkGrowthAnomaly(
   }
 }
 
-function checkMetricTrends(history: LeukoHistory | null, anomalies: AnomalyEntry[]): void {
-  const tracked = ["fact_count", "goal_count", "thread_count"];
-  for (const metric of tracked) {
-    const trend = detectTrends(history, metric);
-    if (trend.direction !== "shrinking" || trend.consecutive < 3) continue;
-    const severity: Severity = trend.consecutive >= 5 ? "critical" : "warn";
-    const deviation = trend.consecutive >= 5
-      ? `${trend.consecutive} consecutive decreases — possible data loss`
-      : `${trend.consecutive} consecutive decreases`;
-    anomalies.push({ metric, current: trend.consecutive, baseline: 0, deviation, severity });
+/** History values of a metric, followed by this run's value when known */
+function metricSeries(history: LeukoHistory | null, metric: string, current: number | undefined): number[] {
+  const values = (history?.snapshots ?? [])
+    .map((s) => s.metrics[metric])
+    .filter((v): v is number => typeof v === "number");
+  if (current !== undefined) values.push(current);
+  return values;
+}
+
+function checkMetricTrends(
+  config: AnomalyDetectionCheckConfig,
+  history: LeukoHistory | null,
+  current: Record<string, number>,
+  anomalies: AnomalyEntry[],
+): void {
+  for (const rule of config.trends) {
+    const run = trailingRun(metricSeries(history, rule.metric, current[rule.metric]));
+    if (run.direction !== rule.direction || run.length < rule.minRun) continue;
+    const critical = rule.severity === "critical" || (rule.criticalRun !== undefined && run.length >= rule.criticalRun);
+    const noun = rule.direction === "decreasing" ? "decreases" : "increases";
+    const deviation = critical && rule.direction === "decreasing"
+      ? `${run.length} consecutive ${noun} — possible data loss`
+      : `${run.length} consecutive ${noun}`;
+    anomalies.push({ metric: rule.metric, current: run.length, baseline: 0, deviation, severity: critical ? "critical" : "warn" });
+  }
+}
+
+function metricSamples(history: LeukoHistory | null, metric: string): Sample[] {
+  const samples: Sample[] = [];
+  for (const s of history?.snapshots ?? []) {
+    const value = s.metrics[metric];
+    const ts = new Date(s.timestamp).getTime();
+    if (typeof value === "number" && !isNaN(ts)) samples.push({ ts, value });
+  }
+  return samples;
+}
+
+/**
+ * Score one metric statistically. The current value is this run's measurement
+ * (CK-04 baseline or metric source) when there is one, otherwise the latest history snapshot.
+ */
+function scoreMetric(
+  cfg: StatisticalMetricConfig,
+  history: LeukoHistory | null,
+  current: Record<string, number>,
+  tz: string,
+  logger: PluginLogger,
+): AnomalyEntry | null {
+  const samples = metricSamples(history, cfg.metric);
+  const measured = current[cfg.metric];
+  const now = measured !== undefined ? { ts: Date.now(), value: measured } : samples.pop();
+  if (!now) return null;
+
+  const series = seasonalSamples(samples, now.ts, cfg.seasonality, tz).slice(-cfg.window);
+  if (series.length < cfg.minSamples) {
+    logger.debug(`[leuko] ${cfg.metric}: ${series.length}/${cfg.minSamples} baseline samples — not scored`);
+    return null;
+  }
+
+  const r = scoreValue(now.value, series.map((s) => s.value), cfg.method, cfg.sensitivity);
+  if (r.severity === "ok") return null;
+  const seasonal = cfg.seasonality === "none" ? "" : `, ${cfg.seasonality}`;
+  return {
+    metric: cfg.metric,
+    current: now.value,
+    baseline: r.center,
+    deviation: `${r.score > 0 ? "spike" : "drop"}: ${cfg.method} score ${r.score} (expected ${r.expected[0]}–${r.expected[1]}${seasonal})`,
+    severity: r.severity,
+    score: r.score,
+    expected_range: r.expected,
+  };
+}
+
+function checkStatistical(
+  config: AnomalyDetectionCheckConfig,
+  history: LeukoHistory | null,
+  current: Record<string, number>,
+  tz: string,
+  anomalies: AnomalyEntry[],
+  logger: PluginLogger,
+): void {
+  for (const cfg of config.statistical) {
+    const entry = scoreMetric(cfg, history, current, tz, logger);
+    if (entry) anomalies.push(entry);
   }
 }
 
@@ -108,22 +187,32 @@ function overallSeverity(anomalies: AnomalyEntry[]): Severity {
   return "ok";
 }
 
+/**
+ * CK-04. `metrics` are this run's metric-source values (not yet in history);
+ * together with the dir baselines they are the current values for trends and scoring.
+ * Seasonal baselines are bucketed by wall-clock time in `tz` (the business-hours timezone).
+ */
 export function runAnomalyDetectionCheck(
   config: AnomalyDetectionCheckConfig,
   history: LeukoHistory | null,
   logger: PluginLogger,
+  metrics: Record<string, number> = {},
+  tz = "UTC",
 ): CognitiveCheckResult {
   const startMs = Date.now();
   const timestamp = new Date().toISOString();
   const anomalies: AnomalyEntry[] = [];
   const baselines: Record<string, number> = {};
 
-  checkDirSizes(config, history, baselines, anomalies);
-  checkMetricTrends(history, anomalies);
+  const incomplete = checkDirSizes(config, history, baselines, anomalies, logger);
+  const current = { ...metrics, ...baselines };
+  checkMetricTrends(config, history, current, anomalies);
+  checkStatistical(config, history, current, tz, anomalies, logger);
 
-  const detail = anomalies.length === 0
+  const base = anomalies.length === 0
     ? "All metrics within normal range"
     : `${anomalies.length} anomaly(s) detected`;
+  const detail = incomplete.length > 0 ? `${base} (sizing incomplete: ${incomplete.join(", ")})` : base;
 
   return {
     check_name: CHECK_NAME,
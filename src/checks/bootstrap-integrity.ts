@@ -8,7 +8,7 @@ import type {
 } from "../types.js";
 import { readTextInput } from "../status-reader.js";
 import { parseSeverityString } from "../check-utils.js";
-import { runLlmCheck } from "../check-runner.js";
+import { llmResponseSchema, runLlmCheck } from "../check-runner.js";
 import type { MergeOpts } from "../check-runner.js";
 
 const CHECK_NAME = "cognitive:bootstrap_integrity";
@@ -48,6 +48,13 @@ interface LlmBootstrapResponse {
   }>;
 }
 
+const RESPONSE_SCHEMA = llmResponseSchema("findings", {
+  issue: { type: "string" },
+  line: { type: "string" },
+  detail: { type: "string" },
+  recommendation: { type: "string" },
+}, ["issue"]);
+
 function buildSystemContext(status: LeukoStatus | null): string {
   if (!status) return "System status: unavailable";
   const daemonSummary = status.daemon_checks
@@ -83,6 +90,7 @@ export async function runBootstrapIntegrityCheck(
   return runLlmCheck<BootstrapInput, LlmBootstrapResponse>({
     name: CHECK_NAME,
     systemPrompt: SYSTEM_PROMPT,
+    responseSchema: RESPONSE_SCHEMA,
     llm,
     logger,
 
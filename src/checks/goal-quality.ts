@@ -7,8 +7,8 @@ import type {
   PluginLogger,
 } from "../types.js";
 import { readJsonInput } from "../status-reader.js";
-import { parseSeverityString, worstSeverity } from "../check-utils.js";
-import { runLlmCheck } from "../check-runner.js";
+import { clip, parseSeverityString, worstSeverity } from "../check-utils.js";
+import { crossChunkDuplicates, llmResponseSchema, mergeFindingsResponses, runLlmCheck } from "../check-runner.js";
 import type { MergeOpts } from "../check-runner.js";
 
 const CHECK_NAME = "cognitive:goal_quality";
@@ -42,7 +42,7 @@ interface GoalsData {
   pending_goals?: PendingGoal[];
 }
 
-function extractGoals(data: unknown): PendingGoal[] {
+export function extractGoals(data: unknown): PendingGoal[] {
   if (Array.isArray(data)) return data as PendingGoal[];
   if (typeof data === "object" && data !== null) {
     const obj = data as GoalsData;
@@ -99,6 +99,39 @@ interface LlmGoalResponse {
   }>;
 }
 
+const RESPONSE_SCHEMA = llmResponseSchema("findings", {
+  item_id: { type: "string" },
+  issue: { type: "string" },
+  detail: { type: "string" },
+  recommendation: { type: "string" },
+}, ["issue"]);
+
+/** What the LLM sees of a goal — free text is clipped so chunks stay small */
+function projectGoal(goal: PendingGoal): Record<string, unknown> {
+  return {
+    id: goal.id,
+    title: clip(goal.title, 160),
+    proposed_action: clip(goal.proposed_action, 200),
+    status: goal.status,
+    expires: goal.expires,
+    proposed_at: goal.proposed_at,
+    priority: goal.priority,
+    category: goal.category,
+  };
+}
+
+/** Chunk responses merged, plus near-duplicate goals that fell into different chunks */
+function mergeGoalChunks(responses: LlmGoalResponse[], chunks: number[][], goals: PendingGoal[]): LlmGoalResponse {
+  const duplicates = crossChunkDuplicates(chunks.map((c) => c.map((i) => goals[i]!)), (g) => clip(g.title, 160) ?? "")
+    .map(([first, dup]) => ({
+      item_id: dup.id,
+      issue: "duplicate",
+      detail: `Goal "${dup.title}" duplicates "${first.title}" (${first.id})`,
+      recommendation: "Consolidate into a single goal",
+    }));
+  return mergeFindingsResponses(responses, (f) => `${f.item_id ?? ""}|${f.issue ?? ""}|${f.detail ?? ""}`, duplicates);
+}
+
 function mergeLlmFindings(preFindings: CheckFinding[], parsed: LlmGoalResponse): CheckFinding[] {
   const llmFindings: CheckFinding[] = Array.isArray(parsed.findings)
     ? parsed.findings.map((f) => ({
@@ -121,6 +154,7 @@ export async function runGoalQualityCheck(
   return runLlmCheck<PendingGoal[], LlmGoalResponse>({
     name: CHECK_NAME,
     systemPrompt: SYSTEM_PROMPT,
+    responseSchema: RESPONSE_SCHEMA,
     llm,
     logger,
 
@@ -141,9 +175,16 @@ export async function runGoalQualityCheck(
       return { severity: findings.length > 0 ? "warn" : "ok", findingCount: findings.length, data: { findings } };
     },
 
-    buildPrompt(goals) {
-      const goalsText = JSON.stringify(goals, null, 2).substring(0, 4000);
-      return `Current date: ${new Date().toISOString().split("T")[0]}\n\nPending goals (${goals.length} total):\n${goalsText}`;
+    buildPrompt(goals, chunk) {
+      const part = chunk && chunk.count > 1 ? `, part ${chunk.index + 1} of ${chunk.count}: ${chunk.size} goals` : "";
+      return `Current date: ${new Date().toISOString().split("T")[0]}\n\nPending goals (${goals.length} total${part}):\n${chunk?.itemsJson ?? ""}`;
+    },
+
+    batch: {
+      project: (goals) => goals.map(projectGoal),
+      maxChunkTokens: config.maxChunkTokens,
+      maxChunks: config.maxChunks,
+      mergeChunks: mergeGoalChunks,
     },
 
     buildFailOpen({ pre, message, llmModel, llmTokens, timestamp, startMs }) {
@@ -1,4 +1,3 @@
-import { execFileSync } from "node:child_process";
 import { statSync, existsSync } from "node:fs";
 import type {
   CognitiveCheckResult,
@@ -7,48 +6,61 @@ import type {
   LeukoStatus,
   PluginLogger,
   Severity,
+  BusinessHoursWindow,
+  SitrepCollectorResult,
 } from "../types.js";
 import { worstSeverity } from "../check-utils.js";
+import { evaluateBusinessHours } from "../business-hours.js";
+import { evaluateCorrelationRules } from "../correlation-rules.js";
+import type { NatsConsumerInfo, NatsMonitorClient, NatsStreamInfo } from "../nats-client.js";
 
 const CHECK_NAME = "cognitive:pipeline_correlation";
+const HOUR_MS = 60 * 60 * 1000;
+/** Idle hours after which a lagging consumer is critical (same as consumer_disconnected) */
+const STALL_CRITICAL_HOURS = 4;
+/** Redelivered messages needed before a redelivery storm is reported */
+const REDELIVERY_MIN = 10;
+/** ...and their minimum share of the consumer's unacknowledged messages */
+const REDELIVERY_RATIO = 0.5;
+const RETENTION_WARN_PERCENT = 90;
+const RETENTION_CRITICAL_PERCENT = 98;
+
+interface NatsSignal { stream: NatsStreamInfo | null; error: string | null }
 
 /**
- * Try to get NATS stream message count via CLI.
- * Returns null if nats CLI not available or fails.
+ * Fetch the configured stream from the NATS monitoring endpoint.
+ * Unavailability is reported (not swallowed) so the check detail can say so.
  */
-function getNatsEventCount(stream: string, logger: PluginLogger): number | null {
+async function getNatsStream(stream: string, nats: NatsMonitorClient | null, logger: PluginLogger): Promise<NatsSignal> {
+  if (!nats) return { stream: null, error: "no NATS client configured" };
   try {
-    const result = execFileSync("nats", ["stream", "info", stream, "--json"], {
-      timeout: 5000,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    });
-    const parsed: unknown = JSON.parse(result);
-    if (typeof parsed !== "object" || parsed === null) return null;
-    const state = (parsed as Record<string, unknown>)["state"];
-    if (typeof state === "object" && state !== null) {
-      const msgs = (state as Record<string, unknown>)["messages"];
-      if (typeof msgs === "number") return msgs;
-    }
-    return null;
-  } catch {
-    logger.debug("[leuko] NATS CLI not available or stream not found");
-    return null;
+    const info = await nats.getStream(stream);
+    if (!info) return { stream: null, error: `stream ${stream} not found` };
+    return { stream: info, error: null };
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    logger.warn(`[leuko] NATS monitoring unavailable: ${msg}`);
+    return { stream: null, error: msg };
   }
 }
 
 function fileAgeHours(path: string): number | null {
   try {
     if (!existsSync(path)) return null;
-    return (Date.now() - statSync(path).mtimeMs) / (60 * 60 * 1000);
+    return (Date.now() - statSync(path).mtimeMs) / HOUR_MS;
   } catch {
     return null;
   }
 }
 
-function isBusinessHours(bh: PipelineCorrelationCheckConfig["businessHours"]): boolean {
-  const hour = new Date().getUTCHours() + 1;
-  return hour >= bh.start && hour < bh.end;
+function ageHours(iso: string | null): number | null {
+  if (!iso) return null;
+  const ts = new Date(iso).getTime();
+  return isNaN(ts) ? null : Math.max(0, Date.now() - ts) / HOUR_MS;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
 }
 
 interface CronStatus { allOk: boolean; staleOutputs: number }
@@ -66,25 +78,85 @@ function getCronStatus(daemonChecks: LeukoStatus["daemon_checks"]): CronStatus {
 export interface PipelineCorrelationDeps {
   threadsPath: string;
   daemonChecks: LeukoStatus["daemon_checks"];
+  /** NATS monitoring client; null disables NATS correlations */
+  nats: NatsMonitorClient | null;
+  /** This run's collector results, for `collector:` rule signals */
+  collectors?: ReadonlyArray<SitrepCollectorResult>;
+}
+
+interface ConsumerSignal {
+  name: string;
+  pending: number;
+  ackPending: number;
+  redelivered: number;
+  /** Hours since the consumer last delivered a message; null if it never has */
+  idleH: number | null;
+}
+
+/** Stream fill level against its configured retention limits (null = unlimited) */
+interface RetentionSignal {
+  messages: number;
+  bytes: number;
+  msgsPercent: number | null;
+  bytesPercent: number | null;
 }
 
 interface PipelineSignals {
+  stream: NatsStreamInfo | null;
   natsTotal: number | null;
+  natsError: string | null;
+  /** Hours since the last message was stored in the stream */
+  lastMessageAgeH: number | null;
+  consumers: ConsumerSignal[];
+  retention: RetentionSignal | null;
   threadsAgeH: number | null;
   cronStatus: CronStatus;
-  inBusinessHours: boolean;
+  window: BusinessHoursWindow;
 }
 
-function gatherSignals(
+async function gatherSignals(
   config: PipelineCorrelationCheckConfig,
   deps: PipelineCorrelationDeps,
   logger: PluginLogger,
-): PipelineSignals {
+): Promise<PipelineSignals> {
+  const window = evaluateBusinessHours(config.businessHours);
+  if (window.tz !== config.businessHours.tz) {
+    logger.warn(`[leuko] Invalid businessHours.tz "${config.businessHours.tz}" — using UTC`);
+  }
+  const nats = await getNatsStream(config.natsStream, deps.nats, logger);
   return {
-    natsTotal: getNatsEventCount(config.natsStream, logger),
+    stream: nats.stream,
+    natsTotal: nats.stream?.messages ?? null,
+    natsError: nats.error,
+    lastMessageAgeH: ageHours(nats.stream?.last_ts ?? null),
+    consumers: (nats.stream?.consumers ?? []).map(toConsumerSignal),
+    retention: nats.stream ? toRetentionSignal(nats.stream) : null,
     threadsAgeH: fileAgeHours(deps.threadsPath),
     cronStatus: getCronStatus(deps.daemonChecks),
-    inBusinessHours: isBusinessHours(config.businessHours),
+    window,
+  };
+}
+
+function toConsumerSignal(c: NatsConsumerInfo): ConsumerSignal {
+  return {
+    name: c.name,
+    pending: c.num_pending,
+    ackPending: c.num_ack_pending,
+    redelivered: c.num_redelivered,
+    idleH: ageHours(c.last_active),
+  };
+}
+
+function percentOf(value: number, limit: number): number | null {
+  return limit > 0 ? Math.round((value / limit) * 1000) / 10 : null;
+}
+
+function toRetentionSignal(stream: NatsStreamInfo): RetentionSignal {
+  return {
+    messages: stream.messages,
+    bytes: stream.bytes,
+    msgsPercent: percentOf(stream.messages, stream.max_msgs),
+    bytesPercent: percentOf(stream.bytes, stream.max_bytes),
   };
 }
 
@@ -96,15 +168,20 @@ function buildCorrelations(
   addNatsThreadCorrelation(signals, windowHours, correlations);
   addPipelineDisconnectCorrelation(signals, correlations);
   addEventSourceSilentCorrelation(signals, correlations);
+  addConsumerStalledCorrelations(signals, windowHours, correlations);
+  addRedeliveryStormCorrelations(signals, correlations);
+  addRetentionPressureCorrelation(signals, correlations);
   return correlations;
 }
 
 function addNatsThreadCorrelation(s: PipelineSignals, windowH: number, out: CorrelationEntry[]): void {
   if (s.natsTotal === null || s.natsTotal <= 0 || s.threadsAgeH === null) return;
+  // Quiet stream: nothing arrived since threads.json was last written
+  if (s.lastMessageAgeH !== null && s.lastMessageAgeH >= s.threadsAgeH) return;
   if (s.threadsAgeH > 4) {
-    out.push({ input: "nats_total_messages", input_value: s.natsTotal, output: "threads_age_hours", output_value: Math.round(s.threadsAgeH * 10) / 10, diagnosis: "consumer_disconnected" });
+    out.push({ input: "nats_total_messages", input_value: s.natsTotal, output: "threads_age_hours", output_value: round1(s.threadsAgeH), diagnosis: "consumer_disconnected" });
   } else if (s.threadsAgeH > windowH) {
-    out.push({ input: "nats_total_messages", input_value: s.natsTotal, output: "threads_age_hours", output_value: Math.round(s.threadsAgeH * 10) / 10, diagnosis: "consumer_slow" });
+    out.push({ input: "nats_total_messages", input_value: s.natsTotal, output: "threads_age_hours", output_value: round1(s.threadsAgeH), diagnosis: "consumer_slow" });
   }
 }
 
@@ -115,39 +192,94 @@ function addPipelineDisconnectCorrelation(s: PipelineSignals, out: CorrelationEn
 }
 
 function addEventSourceSilentCorrelation(s: PipelineSignals, out: CorrelationEntry[]): void {
-  if (s.natsTotal !== null && s.natsTotal === 0 && s.inBusinessHours) {
-    out.push({ input: "nats_events", input_value: 0, output: "business_hours", output_value: 1, diagnosis: "event_source_silent" });
+  if (s.natsTotal !== null && s.natsTotal === 0 && s.window.in_business_hours) {
+    out.push({ input: "nats_events", input_value: 0, output: "business_hours", output_value: 1, diagnosis: "event_source_silent", window: s.window });
+  }
+}
+
+/** Consumer has undelivered or unacknowledged messages but hasn't delivered anything for longer than the window */
+function addConsumerStalledCorrelations(s: PipelineSignals, windowH: number, out: CorrelationEntry[]): void {
+  for (const c of s.consumers) {
+    const lag = c.pending + c.ackPending;
+    if (lag <= 0) continue;
+    if (c.idleH === null) {
+      out.push({ input: "consumer_lag", input_value: lag, output: "consumer_never_active", output_value: 1, diagnosis: "consumer_stalled", consumer: c.name });
+    } else if (c.idleH > windowH) {
+      out.push({ input: "consumer_lag", input_value: lag, output: "consumer_idle_hours", output_value: round1(c.idleH), diagnosis: "consumer_stalled", consumer: c.name });
+    }
+  }
+}
+
+/** Most of a consumer's in-flight messages are redeliveries — it keeps failing to ack */
+function addRedeliveryStormCorrelations(s: PipelineSignals, out: CorrelationEntry[]): void {
+  for (const c of s.consumers) {
+    if (c.redelivered < REDELIVERY_MIN || c.redelivered < c.ackPending * REDELIVERY_RATIO) continue;
+    out.push({ input: "consumer_ack_pending", input_value: c.ackPending, output: "consumer_redelivered", output_value: c.redelivered, diagnosis: "redelivery_storm", consumer: c.name });
   }
 }
 
+/** Stream close to max_msgs / max_bytes — the oldest (possibly unconsumed) messages get discarded */
+function addRetentionPressureCorrelation(s: PipelineSignals, out: CorrelationEntry[]): void {
+  if (!s.retention) return;
+  const { messages, bytes, msgsPercent, bytesPercent } = s.retention;
+  const byMsgs = (msgsPercent ?? -1) >= (bytesPercent ?? -1);
+  const percent = byMsgs ? msgsPercent : bytesPercent;
+  if (percent === null || percent < RETENTION_WARN_PERCENT) return;
+  out.push({
+    input: byMsgs ? "stream_messages" : "stream_bytes",
+    input_value: byMsgs ? messages : bytes,
+    output: byMsgs ? "max_msgs_percent" : "max_bytes_percent",
+    output_value: percent,
+    diagnosis: "stream_retention_pressure",
+  });
+}
+
 function computeCorrelationSeverity(correlations: CorrelationEntry[]): Severity {
   let severity: Severity = "ok";
   for (const c of correlations) {
-    if (c.diagnosis === "consumer_disconnected" && c.output_value > 4) {
+    if (c.severity) {
+      severity = worstSeverity(severity, c.severity);
+    } else if (c.diagnosis === "consumer_disconnected" && c.output_value > 4) {
       severity = worstSeverity(severity, "critical");
     } else if (c.diagnosis === "consumer_disconnected") {
       severity = worstSeverity(severity, "warn");
     } else if (c.diagnosis === "pipeline_disconnected" || c.diagnosis === "event_source_silent") {
       severity = worstSeverity(severity, "warn");
+    } else if (c.diagnosis === "consumer_stalled") {
+      const critical = c.output === "consumer_idle_hours" && c.output_value > STALL_CRITICAL_HOURS;
+      severity = worstSeverity(severity, critical ? "critical" : "warn");
+    } else if (c.diagnosis === "redelivery_storm") {
+      severity = worstSeverity(severity, "warn");
+    } else if (c.diagnosis === "stream_retention_pressure") {
+      severity = worstSeverity(severity, c.output_value >= RETENTION_CRITICAL_PERCENT ? "critical" : "warn");
     }
   }
   return severity;
 }
 
-export function runPipelineCorrelationCheck(
+export async function runPipelineCorrelationCheck(
   config: PipelineCorrelationCheckConfig,
   deps: PipelineCorrelationDeps,
   logger: PluginLogger,
-): CognitiveCheckResult {
+): Promise<CognitiveCheckResult> {
   const startMs = Date.now();
   const timestamp = new Date().toISOString();
 
-  const signals = gatherSignals(config, deps, logger);
+  const signals = await gatherSignals(config, deps, logger);
   const correlations = buildCorrelations(signals, config.correlationWindowHours);
+  const ruleContext = {
+    daemonChecks: deps.daemonChecks,
+    collectors: deps.collectors ?? [],
+    stream: signals.stream,
+    nowMs: Date.now(),
+  };
+  correlations.push(...evaluateCorrelationRules(config.rules, ruleContext, signals.window, config.correlationWindowHours, logger));
   const severity = computeCorrelationSeverity(correlations);
-  const detail = correlations.length === 0
+  const behind = [...new Set(correlations.flatMap((c) => (c.consumer ? [c.consumer] : [])))];
+  const base = correlations.length === 0
     ? "All pipeline correlations normal"
-    : `${correlations.length} correlation issue(s) detected`;
+    : `${correlations.length} correlation issue(s) detected${behind.length > 0 ? ` — consumer(s): ${behind.join(", ")}` : ""}`;
+  const detail = signals.natsError ? `${base} (NATS skipped: ${signals.natsError})` : base;
 
   return { check_name: CHECK_NAME, severity, detail, correlations, timestamp, duration_ms: Date.now() - startMs };
 }
@@ -8,7 +8,7 @@ import type {
   PluginLogger,
 } from "../types.js";
 import { parseSeverityString } from "../check-utils.js";
-import { runLlmCheck } from "../check-runner.js";
+import { llmResponseSchema, runLlmCheck } from "../check-runner.js";
 import type { MergeOpts } from "../check-runner.js";
 
 const CHECK_NAME = "cognitive:recommendations";
@@ -48,6 +48,13 @@ interface LlmRecommendationsResponse {
   }>;
 }
 
+const RESPONSE_SCHEMA = llmResponseSchema("recommendations", {
+  type: { type: "string" },
+  target: { type: "string" },
+  reason: { type: "string" },
+  priority: { type: "string" },
+}, ["target"]);
+
 function buildFindingsSummary(
   currentResults: CognitiveCheckResult[],
   status: LeukoStatus | null,
@@ -124,6 +131,7 @@ export async function runRecommendationsCheck(
   return runLlmCheck<RecsInput, LlmRecommendationsResponse>({
     name: CHECK_NAME,
     systemPrompt: SYSTEM_PROMPT,
+    responseSchema: RESPONSE_SCHEMA,
     llm,
     logger,
 
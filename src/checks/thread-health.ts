@@ -8,8 +8,8 @@ import type {
   PluginLogger,
 } from "../types.js";
 import { readJsonInput } from "../status-reader.js";
-import { parseSeverityString, worstSeverity } from "../check-utils.js";
-import { runLlmCheck } from "../check-runner.js";
+import { clip, parseSeverityString, worstSeverity } from "../check-utils.js";
+import { crossChunkDuplicates, llmResponseSchema, mergeFindingsResponses, runLlmCheck } from "../check-runner.js";
 import type { MergeOpts } from "../check-runner.js";
 
 const CHECK_NAME = "cognitive:thread_health";
@@ -39,7 +39,7 @@ Evaluation rules:
 - ≥1 stale/duplicate/incomplete → severity "warn"
 - ≥50% threads are stale or noise → severity "critical"`;
 
-function extractThreads(data: unknown): ThreadEntry[] {
+export function extractThreads(data: unknown): ThreadEntry[] {
   if (typeof data !== "object" || data === null) return [];
   const obj = data as ThreadsFile;
   if (Array.isArray(obj.threads)) return obj.threads;
@@ -68,6 +68,8 @@ function preFilterThreads(threads: ThreadEntry[], staleDays: number): CheckFindi
   return findings;
 }
 
+interface ThreadInput { threads: ThreadEntry[]; staleDays: number }
+
 interface LlmThreadResponse {
   severity?: string;
   detail?: string;
@@ -80,6 +82,42 @@ interface LlmThreadResponse {
   }>;
 }
 
+const RESPONSE_SCHEMA = llmResponseSchema("findings", {
+  thread_id: { type: "string" },
+  issue: { type: "string" },
+  detail: { type: "string" },
+  days_since_update: { type: "number" },
+  recommendation: { type: "string" },
+}, ["issue"]);
+
+/** What the LLM sees of a thread — free text is clipped, decisions are counted */
+function projectThread(thread: ThreadEntry): Record<string, unknown> {
+  return {
+    id: thread.id,
+    title: clip(thread.title, 160),
+    status: thread.status,
+    last_activity: thread.last_activity,
+    created: thread.created,
+    priority: thread.priority,
+    summary: clip(thread.summary, 200),
+    description: clip(thread.description, 200),
+    waiting_for: thread.waiting_for ?? undefined,
+    decisions: Array.isArray(thread.decisions) ? thread.decisions.length : undefined,
+  };
+}
+
+/** Chunk responses merged, plus near-duplicate threads that fell into different chunks */
+function mergeThreadChunks(responses: LlmThreadResponse[], chunks: number[][], input: ThreadInput): LlmThreadResponse {
+  const duplicates = crossChunkDuplicates(chunks.map((c) => c.map((i) => input.threads[i]!)), (t) => clip(t.title, 160) ?? "")
+    .map(([first, dup]) => ({
+      thread_id: dup.id,
+      issue: "duplicate",
+      detail: `Thread "${dup.title}" duplicates "${first.title}" (${first.id})`,
+      recommendation: "Consolidate into a single thread",
+    }));
+  return mergeFindingsResponses(responses, (f) => `${f.thread_id ?? ""}|${f.issue ?? ""}|${f.detail ?? ""}`, duplicates);
+}
+
 function mergeLlmFindings(preFindings: CheckFinding[], parsed: LlmThreadResponse): CheckFinding[] {
   const llmFindings: CheckFinding[] = Array.isArray(parsed.findings)
     ? parsed.findings.map((f) => ({
@@ -95,8 +133,6 @@ function mergeLlmFindings(preFindings: CheckFinding[], parsed: LlmThreadResponse
   return [...preFindings, ...unique];
 }
 
-interface ThreadInput { threads: ThreadEntry[]; staleDays: number }
-
 export async function runThreadHealthCheck(
   config: ThreadHealthCheckConfig,
   llm: LlmClient,
@@ -105,6 +141,7 @@ export async function runThreadHealthCheck(
   return runLlmCheck<ThreadInput, LlmThreadResponse>({
     name: CHECK_NAME,
     systemPrompt: SYSTEM_PROMPT,
+    responseSchema: RESPONSE_SCHEMA,
     llm,
     logger,
 
@@ -125,9 +162,17 @@ export async function runThreadHealthCheck(
       return { severity: findings.length > 0 ? "warn" : "ok", findingCount: findings.length, data: { findings } };
     },
 
-    buildPrompt(input) {
-      const text = JSON.stringify(input.threads, null, 2).substring(0, 4000);
-      return `Current date: ${new Date().toISOString().split("T")[0]}\nStale threshold: ${input.staleDays} days\n\nThreads (${input.threads.length} total):\n${text}`;
+    buildPrompt(input, chunk) {
+      const open = input.threads.filter((t) => t.status === "open").length;
+      const part = chunk && chunk.count > 1 ? `, part ${chunk.index + 1} of ${chunk.count}: ${chunk.size} threads` : "";
+      return `Current date: ${new Date().toISOString().split("T")[0]}\nStale threshold: ${input.staleDays} days\n\nThreads (${input.threads.length} total, ${open} open${part}):\n${chunk?.itemsJson ?? ""}`;
+    },
+
+    batch: {
+      project: (input) => input.threads.map(projectThread),
+      maxChunkTokens: config.maxChunkTokens,
+      maxChunks: config.maxChunks,
+      mergeChunks: mergeThreadChunks,
     },
 
     buildFailOpen({ pre, message, llmModel, llmTokens, timestamp, startMs }) {
@@ -0,0 +1,86 @@
+import type { CircuitBreakerConfig, LlmProviderConfig, PluginLogger } from "./types.js";
+
+// ============================================================
+// Per-provider circuit breaker (one registry per plugin lifetime)
+// ============================================================
+//
+// closed → open after `failureThreshold` consecutive failures. Once
+// `cooldownSec` has passed the breaker is half-open: a single probe call
+// is let through, closing it on success or re-opening it on failure.
+
+export type BreakerPhase = "closed" | "open" | "half_open";
+
+export interface BreakerState {
+  /** Consecutive failures since the last success */
+  failures: number;
+  openedAtMs: number | null;
+  /** A half-open probe is in flight */
+  probing: boolean;
+}
+
+/** Keyed by `providerKey()`; outlives L2 runs so a dead provider stays skipped */
+export type BreakerRegistry = Map<string, BreakerState>;
+
+export function createBreakerRegistry(): BreakerRegistry {
+  return new Map();
+}
+
+export function providerKey(config: LlmProviderConfig): string {
+  return `${config.provider}/${config.model}@${config.baseUrl}`;
+}
+
+function stateOf(registry: BreakerRegistry, key: string): BreakerState {
+  let state = registry.get(key);
+  if (!state) {
+    state = { failures: 0, openedAtMs: null, probing: false };
+    registry.set(key, state);
+  }
+  return state;
+}
+
+export function breakerPhase(registry: BreakerRegistry, key: string, cfg: CircuitBreakerConfig, nowMs: number = Date.now()): BreakerPhase {
+  const state = registry.get(key);
+  if (!state || state.openedAtMs === null) return "closed";
+  return nowMs - state.openedAtMs >= cfg.cooldownSec * 1000 ? "half_open" : "open";
+}
+
+/** Whether a call may go out now; in half-open only the first caller gets through */
+export function tryAcquire(registry: BreakerRegistry, key: string, cfg: CircuitBreakerConfig, nowMs: number = Date.now()): boolean {
+  const phase = breakerPhase(registry, key, cfg, nowMs);
+  if (phase === "closed") return true;
+  if (phase === "open") return false;
+  const state = stateOf(registry, key);
+  if (state.probing) return false;
+  state.probing = true;
+  return true;
+}
+
+export function recordSuccess(registry: BreakerRegistry, key: string, logger?: PluginLogger): void {
+  const state = registry.get(key);
+  if (!state) return;
+  if (state.openedAtMs !== null) logger?.info(`[leuko-llm] Circuit closed for ${key}`);
+  registry.delete(key);
+}
+
+export function recordFailure(
+  registry: BreakerRegistry,
+  key: string,
+  cfg: CircuitBreakerConfig,
+  nowMs: number = Date.now(),
+  logger?: PluginLogger,
+): void {
+  const state = stateOf(registry, key);
+  state.failures++;
+  const reopen = state.probing;
+  state.probing = false;
+  if (reopen || (state.openedAtMs === null && state.failures >= cfg.failureThreshold)) {
+    state.openedAtMs = nowMs;
+    logger?.warn(`[leuko-llm] Circuit open for ${key} after ${state.failures} failure(s) — skipped for ${cfg.cooldownSec}s`);
+  }
+}
+
+/** Give up a half-open probe without a verdict (e.g. the run was aborted) */
+export function releaseProbe(registry: BreakerRegistry, key: string): void {
+  const state = registry.get(key);
+  if (state) state.probing = false;
+}
@@ -0,0 +1,39 @@
+import type {
+  AdoptedCollectorsConfig,
+  PluginLogger,
+  SitrepCollectorResult,
+} from "./types.js";
+import { runErrorsCollector } from "./collectors/errors.js";
+import { runCustomCollector } from "./collectors/custom.js";
+
+async function runCollector(
+  label: string,
+  fn: () => SitrepCollectorResult | Promise<SitrepCollectorResult>,
+  out: SitrepCollectorResult[],
+  logger: PluginLogger,
+): Promise<void> {
+  try {
+    out.push(await fn());
+  } catch (e) {
+    logger.error(`[leuko] Collector ${label} failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * Run all enabled adopted Sitrep collectors, one after another.
+ * A failing collector is logged and omitted; it never aborts the L2 run.
+ * Once `signal` aborts, running commands are killed and the rest skipped.
+ */
+export async function runSitrepCollectors(
+  config: AdoptedCollectorsConfig,
+  logger: PluginLogger,
+  signal?: AbortSignal,
+): Promise<SitrepCollectorResult[]> {
+  const results: SitrepCollectorResult[] = [];
+  if (config.errors.enabled) await runCollector("errors", () => runErrorsCollector(config.errors, logger), results, logger);
+  for (const entry of config.custom) {
+    if (signal?.aborted) break;
+    await runCollector(entry.name, () => runCustomCollector(entry, logger, signal), results, logger);
+  }
+  return results;
+}
@@ -0,0 +1,175 @@
+import { execFile } from "node:child_process";
+import type {
+  CustomCollectorEntry,
+  PluginLogger,
+  Severity,
+  SitrepCollectorResult,
+} from "../types.js";
+import { isRecord } from "../check-utils.js";
+
+const DEFAULT_TIMEOUT_SEC = 10;
+
+/** stdout beyond this is treated as a failed probe */
+const MAX_OUTPUT_BYTES = 64 * 1024;
+
+/**
+ * Split a command line into argv — no shell involved.
+ * Supports single quotes (literal), double quotes and backslash escapes.
+ * Throws on an unterminated quote.
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inArg = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!;
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+      else current += ch;
+    } else if (ch === "\\" && i + 1 < command.length && (quote === null || /["\\$`]/.test(command[i + 1]!))) {
+      current += command[++i];
+      inArg = true;
+    } else if (quote === '"') {
+      if (ch === '"') quote = null;
+      else current += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inArg = true;
+    } else if (/\s/.test(ch)) {
+      if (inArg) args.push(current);
+      current = "";
+      inArg = false;
+    } else {
+      current += ch;
+      inArg = true;
+    }
+  }
+
+  if (quote !== null) throw new Error(`Unterminated ${quote} quote in command`);
+  if (inArg) args.push(current);
+  return args;
+}
+
+export interface ParsedOutput {
+  value: number | null;
+  items: Array<Record<string, unknown>>;
+  summary?: string;
+}
+
+function toItems(list: unknown[]): Array<Record<string, unknown>> {
+  return list.map((item) => (isRecord(item) ? item : { value: item }));
+}
+
+/**
+ * Parse probe output: a bare number, or JSON — a number or
+ * `{ value?, items?, summary? }`. Without `value`, the item count is the value.
+ * Returns null for anything else.
+ */
+export function parseCollectorOutput(stdout: string): ParsedOutput | null {
+  const text = stdout.trim();
+  if (text === "") return null;
+  const num = Number(text);
+  if (Number.isFinite(num)) return { value: num, items: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof parsed === "number" && Number.isFinite(parsed)) return { value: parsed, items: [] };
+  if (Array.isArray(parsed)) return { value: parsed.length, items: toItems(parsed) };
+  if (!isRecord(parsed)) return null;
+
+  const items = Array.isArray(parsed["items"]) ? toItems(parsed["items"] as unknown[]) : [];
+  const rawValue = parsed["value"];
+  const value = typeof rawValue === "number" && Number.isFinite(rawValue)
+    ? rawValue
+    : Array.isArray(parsed["items"]) ? items.length : null;
+  const summary = typeof parsed["summary"] === "string" ? parsed["summary"] : undefined;
+  return { value, items, summary };
+}
+
+/**
+ * Map a value to a severity. Thresholds are inclusive.
+ * When criticalThreshold < warnThreshold, lower values are worse (e.g. free space).
+ */
+export function thresholdSeverity(value: number, warn?: number, critical?: number): Severity {
+  const lowerIsWorse = warn !== undefined && critical !== undefined && critical < warn;
+  const breaches = (t: number | undefined): boolean =>
+    t !== undefined && (lowerIsWorse ? value <= t : value >= t);
+  if (breaches(critical)) return "critical";
+  if (breaches(warn)) return "warn";
+  return "ok";
+}
+
+export function errorMessage(e: unknown): string {
+  const err = e as NodeJS.ErrnoException & { signal?: string; killed?: boolean };
+  if (err.name === "AbortError") return "aborted";
+  if (err.code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER" || err.code === "ENOBUFS") return `output exceeded ${MAX_OUTPUT_BYTES} bytes`;
+  if (err.code === "ETIMEDOUT" || err.killed === true || err.signal === "SIGTERM") return "timed out";
+  return e instanceof Error ? e.message.split("\n")[0] ?? e.message : String(e);
+}
+
+/**
+ * Run a command (no shell) without blocking the event loop and resolve with
+ * its stdout. Killed after `timeoutMs` or when `signal` aborts; rejects on
+ * failure, a non-zero exit or oversized output.
+ */
+export function execCommand(file: string, args: string[], timeoutMs: number, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: timeoutMs, maxBuffer: MAX_OUTPUT_BYTES, encoding: "utf-8", signal }, (err, stdout) => {
+      if (err) reject(err);
+      else resolve(stdout);
+    });
+  });
+}
+
+/**
+ * Run one custom collector: execute its command (no shell), parse the output
+ * and apply its thresholds. A failing or unparseable probe yields `warn`.
+ * The command is killed when `signal` aborts.
+ */
+export async function runCustomCollector(
+  entry: CustomCollectorEntry,
+  logger: PluginLogger,
+  signal?: AbortSignal,
+): Promise<SitrepCollectorResult> {
+  const startMs = Date.now();
+  const timestamp = new Date().toISOString();
+  const name = `custom:${entry.name}`;
+  const result = (status: Severity, summary: string, items: Array<Record<string, unknown>> = []): SitrepCollectorResult => ({
+    collector_name: name,
+    status,
+    items,
+    summary,
+    duration_ms: Date.now() - startMs,
+    timestamp,
+  });
+
+  let argv: string[];
+  try {
+    argv = splitCommand(entry.command);
+  } catch (e) {
+    return result("warn", `Invalid command: ${errorMessage(e)}`);
+  }
+  const [file, ...args] = argv;
+  if (file === undefined) return result("warn", "Invalid command: empty");
+
+  let stdout: string;
+  try {
+    stdout = await execCommand(file, args, (entry.timeoutSec ?? DEFAULT_TIMEOUT_SEC) * 1000, signal);
+  } catch (e) {
+    logger.warn(`[leuko] Custom collector ${entry.name} failed: ${errorMessage(e)}`);
+    return result("warn", `Command failed: ${errorMessage(e)}`);
+  }
+
+  const parsed = parseCollectorOutput(stdout);
+  if (parsed === null) return result("warn", "Unparseable output (expected a number or JSON)");
+  if (parsed.value === null) return result("ok", parsed.summary ?? "No value reported", parsed.items);
+
+  const status = thresholdSeverity(parsed.value, entry.warnThreshold, entry.criticalThreshold);
+  return { ...result(status, parsed.summary ?? `${entry.name} = ${parsed.value}`, parsed.items), value: parsed.value };
+}
@@ -0,0 +1,158 @@
+import { openSync, readSync, closeSync, statSync, existsSync } from "node:fs";
+import type {
+  ErrorPattern,
+  ErrorsCollectorConfig,
+  PluginLogger,
+  Severity,
+  SitrepCollectorResult,
+} from "../types.js";
+import { readJsonInput } from "../status-reader.js";
+import { expandHome, isRecord, parseSeverityString, worstSeverity } from "../check-utils.js";
+
+const COLLECTOR_NAME = "errors";
+
+/** Only the tail of large log files is scanned */
+const MAX_BYTES_PER_FILE = 5 * 1024 * 1024;
+
+const TIMESTAMP_RE = /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/;
+
+interface CompiledPattern { label: string; severity: Severity; re: RegExp }
+
+interface PatternHits { count: number; files: Set<string>; lastSeen: number | null; sample: string }
+
+/**
+ * Load patterns from a JSON file: either an array of patterns or `{ patterns: [...] }`.
+ * Entries without a label or with an invalid regex are skipped with a warning.
+ */
+export function loadErrorPatterns(path: string, logger: PluginLogger): CompiledPattern[] | null {
+  const raw = readJsonInput<unknown>(expandHome(path), logger);
+  if (raw === null) return null;
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw["patterns"]) ? raw["patterns"] : [];
+  const compiled: CompiledPattern[] = [];
+  for (const entry of list as unknown[]) {
+    if (!isRecord(entry) || typeof entry["regex"] !== "string") continue;
+    const p: ErrorPattern = {
+      label: typeof entry["label"] === "string" ? entry["label"] : entry["regex"],
+      regex: entry["regex"],
+      severity: entry["severity"] === undefined ? "warn" : parseSeverityString(entry["severity"]),
+      flags: typeof entry["flags"] === "string" ? entry["flags"] : undefined,
+    };
+    try {
+      compiled.push({ label: p.label, severity: p.severity, re: new RegExp(p.regex, (p.flags ?? "").replace(/[gy]/g, "")) });
+    } catch (e) {
+      logger.warn(`[leuko] Invalid error pattern "${p.label}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return compiled;
+}
+
+function readTail(path: string, size: number): string {
+  const length = Math.min(size, MAX_BYTES_PER_FILE);
+  const buf = Buffer.alloc(length);
+  const fd = openSync(path, "r");
+  try {
+    readSync(fd, buf, 0, length, size - length);
+  } finally {
+    closeSync(fd);
+  }
+  const text = buf.toString("utf-8");
+  // Drop the (probably partial) first line when we started mid-file
+  return size > length ? text.substring(text.indexOf("\n") + 1) : text;
+}
+
+function parseLineTimestamp(line: string): number | null {
+  const m = line.match(TIMESTAMP_RE);
+  if (!m) return null;
+  const ms = new Date(m[0].replace(" ", "T")).getTime();
+  return isNaN(ms) ? null : ms;
+}
+
+/**
+ * Scan one log file. Lines without their own timestamp (stack traces, continuations)
+ * inherit the previous line's timestamp, or the file mtime if none has been seen yet.
+ */
+function scanFile(
+  path: string,
+  patterns: CompiledPattern[],
+  cutoffMs: number,
+  hits: Map<string, PatternHits>,
+  logger: PluginLogger,
+): void {
+  try {
+    if (!existsSync(path)) {
+      logger.debug(`[leuko] Log file not found: ${path}`);
+      return;
+    }
+    const st = statSync(path);
+    if (st.mtimeMs < cutoffMs) return;
+    let currentTs = st.mtimeMs;
+    for (const line of readTail(path, st.size).split("\n")) {
+      currentTs = parseLineTimestamp(line) ?? currentTs;
+      if (currentTs < cutoffMs) continue;
+      for (const p of patterns) {
+        if (!p.re.test(line)) continue;
+        const h = hits.get(p.label) ?? { count: 0, files: new Set<string>(), lastSeen: null, sample: "" };
+        h.count++;
+        h.files.add(path);
+        if (h.lastSeen === null || currentTs >= h.lastSeen) {
+          h.lastSeen = currentTs;
+          h.sample = line.trim().substring(0, 200);
+        }
+        hits.set(p.label, h);
+      }
+    }
+  } catch (e) {
+    logger.warn(`[leuko] Failed to scan log ${path}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function skipped(summary: string, startMs: number, timestamp: string): SitrepCollectorResult {
+  return { collector_name: COLLECTOR_NAME, status: "ok", items: [], summary, duration_ms: Date.now() - startMs, timestamp };
+}
+
+/**
+ * Adopted Sitrep "errors" collector: count pattern matches in the configured
+ * log files within the last `recentHours`, aggregated per pattern.
+ */
+export function runErrorsCollector(
+  config: ErrorsCollectorConfig,
+  logger: PluginLogger,
+): SitrepCollectorResult {
+  const startMs = Date.now();
+  const timestamp = new Date().toISOString();
+
+  if (!config.patternsPath) return skipped("No patterns file configured", startMs, timestamp);
+  const patterns = loadErrorPatterns(config.patternsPath, logger);
+  if (patterns === null) return skipped("Patterns file not found — collector skipped", startMs, timestamp);
+  if (patterns.length === 0) return skipped("No valid error patterns configured", startMs, timestamp);
+  if (config.logPaths.length === 0) return skipped("No log files configured", startMs, timestamp);
+
+  const cutoffMs = startMs - config.recentHours * 60 * 60 * 1000;
+  const hits = new Map<string, PatternHits>();
+  for (const logPath of config.logPaths) {
+    scanFile(expandHome(logPath), patterns, cutoffMs, hits, logger);
+  }
+
+  const items = patterns
+    .filter((p) => hits.has(p.label))
+    .map((p) => {
+      const h = hits.get(p.label)!;
+      return {
+        label: p.label,
+        severity: p.severity,
+        count: h.count,
+        files: [...h.files],
+        last_seen: h.lastSeen !== null ? new Date(h.lastSeen).toISOString() : null,
+        sample: h.sample,
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+
+  const total = items.reduce((sum, i) => sum + i.count, 0);
+  const status = worstSeverity(...items.map((i) => i.severity));
+  const summary = total === 0
+    ? `No errors in last ${config.recentHours}h`
+    : `${total} error(s) matching ${items.length} pattern(s) in last ${config.recentHours}h`;
+
+  return { collector_name: COLLECTOR_NAME, status, items, summary, value: total, duration_ms: Date.now() - startMs, timestamp };
+}
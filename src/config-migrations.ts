@@ -0,0 +1,132 @@
+import { isRecord } from "./check-utils.js";
+
+// ============================================================
+// External config file versioning and migrations
+// ============================================================
+
+/** Version written by this plugin; files without `configVersion` are version 1 */
+export const CONFIG_VERSION = 5;
+
+export interface ConfigMigration {
+  /** Version this step upgrades from; it produces `from + 1` */
+  from: number;
+  description: string;
+  /** Mutates `raw` in place; returns one line per change */
+  migrate(raw: Record<string, unknown>, defaults: Record<string, unknown>): string[];
+}
+
+export interface MigrationResult {
+  raw: Record<string, unknown>;
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+}
+
+function join(path: string, key: string): string {
+  return path === "" ? key : `${path}.${key}`;
+}
+
+/**
+ * Copy keys present in `defaults` but missing from `raw`, recursing into
+ * objects present in both. Existing values (including arrays) are kept.
+ */
+export function addMissingDefaults(raw: Record<string, unknown>, defaults: Record<string, unknown>, path = ""): string[] {
+  const changes: string[] = [];
+  for (const [key, value] of Object.entries(defaults)) {
+    if (!Object.hasOwn(raw, key)) {
+      raw[key] = structuredClone(value);
+      changes.push(`added ${join(path, key)}`);
+    } else if (isRecord(raw[key]) && isRecord(value)) {
+      changes.push(...addMissingDefaults(raw[key] as Record<string, unknown>, value, join(path, key)));
+    }
+  }
+  return changes;
+}
+
+/**
+ * Replace the pre-v3 `llm.primary` / `llm.fallback` pair with `llm.providers`.
+ * Each entry is completed from the default chain, which starts with the
+ * former primary and fallback defaults.
+ */
+function llmProvidersList(raw: Record<string, unknown>, defaults: Record<string, unknown>): string[] {
+  const llm = raw["llm"];
+  if (!isRecord(llm) || (!Object.hasOwn(llm, "primary") && !Object.hasOwn(llm, "fallback"))) return [];
+  const legacy = [llm["primary"], llm["fallback"]];
+  delete llm["primary"];
+  delete llm["fallback"];
+  if (Object.hasOwn(llm, "providers")) return ["dropped llm.primary, llm.fallback (superseded by llm.providers)"];
+  const defaultLlm = isRecord(defaults["llm"]) ? defaults["llm"] : {};
+  const chain = Array.isArray(defaultLlm["providers"]) ? (defaultLlm["providers"] as unknown[]) : [];
+  llm["providers"] = legacy.map((entry, i) => ({
+    ...structuredClone(isRecord(chain[i]) ? chain[i] : {}),
+    ...(isRecord(entry) ? entry : {}),
+  }));
+  return ["moved llm.primary, llm.fallback → llm.providers"];
+}
+
+/** Step adding `keys` from the defaults to each of `checks` the file configures */
+function addCheckKeys(checks: string[], keys: string[]): ConfigMigration["migrate"] {
+  return (raw, defaults) => {
+    const changes: string[] = [];
+    const section = raw["checks"];
+    const defaultSection = isRecord(defaults["checks"]) ? defaults["checks"] : {};
+    if (!isRecord(section)) return changes;
+    for (const check of checks) {
+      const current = section[check];
+      const defaultCheck = defaultSection[check];
+      if (!isRecord(current) || !isRecord(defaultCheck)) continue;
+      for (const key of keys) {
+        if (Object.hasOwn(current, key) || defaultCheck[key] === undefined) continue;
+        current[key] = structuredClone(defaultCheck[key]);
+        changes.push(`added checks.${check}.${key}`);
+      }
+    }
+    return changes;
+  };
+}
+
+/**
+ * One step per format change, each making its own change. Once every step
+ * has run, any other keys missing from the file are filled in from the
+ * current defaults.
+ */
+export const MIGRATIONS: ReadonlyArray<ConfigMigration> = [
+  { from: 1, description: "introduce configVersion", migrate: () => [] },
+  { from: 2, description: "llm.primary / llm.fallback → llm.providers", migrate: llmProvidersList },
+  { from: 3, description: "add maxChunkTokens to goal_quality / thread_health", migrate: addCheckKeys(["goal_quality", "thread_health"], ["maxChunkTokens"]) },
+  { from: 4, description: "add maxChunks to goal_quality / thread_health", migrate: addCheckKeys(["goal_quality", "thread_health"], ["maxChunks"]) },
+];
+
+export function readConfigVersion(raw: Record<string, unknown>): number {
+  const v = raw["configVersion"];
+  return typeof v === "number" && Number.isInteger(v) && v >= 1 ? v : 1;
+}
+
+/**
+ * Upgrade a raw config step by step to `CONFIG_VERSION`, then add missing
+ * keys from `defaults`. The input is not modified. Files from a newer
+ * plugin version are returned unchanged.
+ */
+export function migrateConfig(
+  input: Record<string, unknown>,
+  defaults: Record<string, unknown>,
+  migrations: ReadonlyArray<ConfigMigration> = MIGRATIONS,
+  target: number = CONFIG_VERSION,
+): MigrationResult {
+  const raw = structuredClone(input);
+  const fromVersion = readConfigVersion(raw);
+  const changes: string[] = [];
+  let version = fromVersion;
+  while (version < target) {
+    const step = migrations.find((m) => m.from === version);
+    if (!step) throw new Error(`No config migration from version ${version}`);
+    changes.push(...step.migrate(raw, defaults));
+    version++;
+  }
+  if (version !== fromVersion) {
+    changes.push(...addMissingDefaults(raw, defaults));
+    raw["configVersion"] = version;
+    changes.push(`configVersion ${fromVersion} → ${version}`);
+  }
+  return { raw, fromVersion, toVersion: version, changes };
+}
@@ -0,0 +1,188 @@
+import type { JsonSchema, SchemaIssue } from "./schema.js";
+import { validateSchema, pruneInvalid } from "./schema.js";
+import { isRecord } from "./check-utils.js";
+import { SIGNAL_PROVIDERS, COMPARISON_OPS } from "./correlation-rules.js";
+import { WEEKDAYS } from "./business-hours.js";
+
+// ============================================================
+// Plugin config schema — published as `configSchema` in openclaw.plugin.json
+// ============================================================
+
+const boolean: JsonSchema = { type: "boolean" };
+const string: JsonSchema = { type: "string" };
+const name: JsonSchema = { type: "string", minLength: 1 };
+const number: JsonSchema = { type: "number" };
+const positiveNumber: JsonSchema = { type: "number", exclusiveMinimum: 0 };
+const nonNegativeNumber: JsonSchema = { type: "number", minimum: 0 };
+const nonNegativeInt: JsonSchema = { type: "integer", minimum: 0 };
+const positiveInt: JsonSchema = { type: "integer", minimum: 1 };
+const hour: JsonSchema = { type: "number", minimum: 0, maximum: 24 };
+const severity: JsonSchema = { type: "string", enum: ["warn", "critical"] };
+const url: JsonSchema = { type: "string", pattern: "^https?://" };
+
+function object(properties: Record<string, JsonSchema>, required?: string[]): JsonSchema {
+  return { type: "object", properties, ...(required ? { required } : {}), additionalProperties: false };
+}
+
+function array(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+function described(schema: JsonSchema, description: string): JsonSchema {
+  return { ...schema, description };
+}
+
+const llmProviderFields: Record<string, JsonSchema> = {
+  provider: described(name, "Selects the protocol: ollama, anthropic, or OpenAI-compatible for anything else"),
+  model: name,
+  baseUrl: url,
+  timeoutSec: positiveInt,
+  apiKey: string,
+  maxCostUsd: described(nonNegativeNumber, "Per-run budget in USD, checked against the run's total spend across all providers"),
+  maxDailyCostUsd: described(nonNegativeNumber, "Per-day (UTC) budget in USD, checked against the day's total spend across all providers"),
+};
+
+const llmProvider = object(llmProviderFields, ["provider", "model", "baseUrl"]);
+const legacyLlmProvider = described(object(llmProviderFields), "Deprecated: use llm.providers (migrated automatically in the config file)");
+
+const signalCondition = object({
+  signal: { type: "string", pattern: `^(${Object.keys(SIGNAL_PROVIDERS).join("|")})(:|$)` },
+  op: { type: "string", enum: [...COMPARISON_OPS] },
+  value: number,
+}, ["signal", "op"]);
+
+const dailyHours = object({ start: hour, end: hour });
+
+const businessHours = object({
+  start: hour,
+  end: hour,
+  tz: described(name, "IANA timezone, e.g. Europe/Berlin"),
+  weekdays: object(Object.fromEntries(WEEKDAYS.map((day) => [day, {
+    anyOf: [dailyHours, { type: "null" }, { type: "boolean", enum: [false] }],
+  } satisfies JsonSchema]))),
+  holidays: array({ type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" }),
+});
+
+const pipelineCorrelation = object({
+  enabled: boolean,
+  usesLlm: boolean,
+  natsStream: name,
+  correlationWindowHours: positiveInt,
+  businessHours,
+  rules: array(object({
+    diagnosis: name,
+    severity,
+    input: signalCondition,
+    output: signalCondition,
+    windowHours: positiveNumber,
+    businessHoursOnly: boolean,
+  }, ["diagnosis", "severity", "input", "output"])),
+});
+
+const anomalyDetection = object({
+  enabled: boolean,
+  usesLlm: boolean,
+  monitoredDirs: array(object({
+    path: name,
+    label: name,
+    exclude: array(string),
+    maxDepth: nonNegativeInt,
+  }, ["path", "label"])),
+  scanBudgetMs: nonNegativeInt,
+  statistical: array(object({
+    metric: name,
+    method: { type: "string", enum: ["zscore", "mad", "ewma"] },
+    seasonality: { type: "string", enum: ["none", "hour_of_day", "day_of_week"] },
+    sensitivity: { type: "string", enum: ["low", "medium", "high"] },
+    window: { type: "integer", minimum: 2 },
+    minSamples: { type: "integer", minimum: 2 },
+  }, ["metric"])),
+  trends: array(object({
+    metric: name,
+    direction: { type: "string", enum: ["decreasing", "increasing"] },
+    minRun: positiveInt,
+    severity,
+    criticalRun: positiveInt,
+  }, ["metric"])),
+});
+
+const maxChunkTokens = described(positiveInt, "Approximate prompt tokens per LLM call; larger inputs are split into chunks");
+const maxChunks = described(positiveInt, "LLM calls per run; items beyond this many chunks are skipped and reported as a finding");
+
+const checks = object({
+  goal_quality: object({ enabled: boolean, inputPath: string, usesLlm: boolean, maxChunkTokens, maxChunks }),
+  thread_health: object({ enabled: boolean, inputPath: string, usesLlm: boolean, staleDays: positiveInt, maxChunkTokens, maxChunks }),
+  pipeline_correlation: pipelineCorrelation,
+  anomaly_detection: anomalyDetection,
+  bootstrap_integrity: object({ enabled: boolean, inputPath: string, usesLlm: boolean }),
+  recommendations: object({ enabled: boolean, usesLlm: boolean, maxRecommendations: positiveInt }),
+});
+
+export const CONFIG_SCHEMA: JsonSchema = object({
+  enabled: { type: "boolean", default: true, description: "Enable/disable the leuko plugin entirely" },
+  configPath: described(string, "Override path to external config file"),
+  configVersion: described(positiveInt, "Config file format version; older files are migrated at load"),
+  statusPath: described(string, "leuko-status.json shared with the L1 daemon"),
+  historyPath: described(string, "leuko-history.json"),
+  intervalMinutes: described(nonNegativeInt, "Minutes between scheduled L2 runs (0 = manual only)"),
+  runTimeoutSec: described(positiveInt, "Hard deadline per L2 run"),
+  lockTimeoutMs: described(nonNegativeInt, "Max wait for the status/history file lock"),
+  maxConcurrency: described(positiveInt, "Max cognitive checks running at once"),
+  nats: object({ monitorUrl: url, timeoutMs: positiveInt, user: string, password: string, token: string }),
+  history: object({
+    maxSnapshots: positiveInt,
+    maxAgeDays: positiveInt,
+    downsampleAfterDays: nonNegativeInt,
+    factsPath: string,
+  }),
+  metrics: described(array(object({
+    name,
+    type: { type: "string", enum: ["json_count", "line_count", "sqlite", "command"] },
+    path: string,
+    jsonPath: string,
+    query: string,
+    command: string,
+    timeoutSec: positiveNumber,
+  }, ["name", "type"])), "Extra history metrics"),
+  llm: object({
+    providers: described(array(llmProvider), "Tried in order until one returns a completion"),
+    circuitBreaker: object({
+      failureThreshold: described(positiveInt, "Consecutive failures before a provider is skipped"),
+      cooldownSec: described(nonNegativeInt, "Seconds before a skipped provider gets one probe call"),
+    }),
+    retry: object({
+      maxRetries: described(nonNegativeInt, "Retries on HTTP 429 / 5xx"),
+      backoffMs: described(nonNegativeInt, "Delay before the first retry, doubled for each further one"),
+    }),
+    primary: legacyLlmProvider,
+    fallback: legacyLlmProvider,
+    pricing: {
+      type: "object",
+      description: "USD per 1M tokens, keyed by provider/model",
+      additionalProperties: object({ promptPerMTok: nonNegativeNumber, completionPerMTok: nonNegativeNumber }, ["promptPerMTok", "completionPerMTok"]),
+    },
+  }),
+  checks,
+  adoptedCollectors: object({
+    errors: object({ enabled: boolean, patternsPath: string, recentHours: positiveInt, logPaths: array(name) }),
+    custom: array(object({
+      name,
+      command: name,
+      warnThreshold: number,
+      criticalThreshold: number,
+      timeoutSec: positiveNumber,
+    }, ["name", "command"])),
+  }),
+  healthInjection: object({ enabled: boolean, onlyOnIssues: boolean, maxLength: positiveInt }),
+});
+
+/** Every invalid or unknown field of a raw plugin config, with its path */
+export function validateConfig(raw: unknown): SchemaIssue[] {
+  return validateSchema(CONFIG_SCHEMA, raw);
+}
+
+/** `raw` without the fields `validateConfig` reports, so they resolve to their defaults */
+export function withoutInvalidFields(raw: Record<string, unknown>): Record<string, unknown> {
+  const pruned = pruneInvalid(CONFIG_SCHEMA, raw);
+  return isRecord(pruned) ? pruned : {};
+}
@@ -0,0 +1,134 @@
+import { watch, type FSWatcher } from "node:fs";
+import { basename, dirname } from "node:path";
+import type { LeukoConfig, PluginLogger } from "./types.js";
+import { readConfigFile, type ConfigLoadResult } from "./config.js";
+import { formatIssue } from "./schema.js";
+
+// ============================================================
+// Config hot reload — holder, diff and file watcher
+// ============================================================
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const SECRET_KEYS = new Set(["apiKey", "password", "token"]);
+
+export type ConfigListener = (next: LeukoConfig, previous: LeukoConfig) => void;
+
+/** The live config; everything registered at startup reads through this */
+export interface ConfigHolder {
+  current(): LeukoConfig;
+  /** Load result of the active config, including its schema issues */
+  loaded(): ConfigLoadResult;
+  replace(next: ConfigLoadResult): void;
+  onChange(listener: ConfigListener): void;
+}
+
+export function createConfigHolder(initial: ConfigLoadResult): ConfigHolder {
+  let active = initial;
+  const listeners: ConfigListener[] = [];
+  return {
+    current: () => active.config,
+    loaded: () => active,
+    replace(next) {
+      const previous = active.config;
+      active = next;
+      for (const listener of listeners) listener(next.config, previous);
+    },
+    onChange(listener) {
+      listeners.push(listener);
+    },
+  };
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function describeValue(key: string, v: unknown): string {
+  if (v === undefined) return "(unset)";
+  if (SECRET_KEYS.has(key)) return "***";
+  const s = JSON.stringify(v);
+  return s.length > 60 ? `${s.slice(0, 57)}...` : s;
+}
+
+/** One line per changed leaf (`checks.thread_health.staleDays: 5 → 7`); arrays compare as a whole */
+export function diffConfig(previous: unknown, next: unknown, path = ""): string[] {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const keys = [...new Set([...Object.keys(previous), ...Object.keys(next)])];
+    return keys.flatMap((key) => diffConfig(previous[key], next[key], path === "" ? key : `${path}.${key}`));
+  }
+  if (JSON.stringify(previous) === JSON.stringify(next)) return [];
+  const key = path.slice(path.lastIndexOf(".") + 1);
+  return [`${path}: ${describeValue(key, previous)} → ${describeValue(key, next)}`];
+}
+
+export interface ConfigWatchOpts {
+  /** Inline plugin config (from openclaw.json), re-applied on every reload */
+  pluginConfig?: Record<string, unknown>;
+  logger: PluginLogger;
+  /** Quiet period after the last change event before reloading */
+  debounceMs?: number;
+}
+
+/**
+ * Re-read the config file and swap it in. An unreadable file or one with
+ * schema issues is rejected and the current config stays active.
+ */
+export function reloadConfig(filePath: string, holder: ConfigHolder, opts: ConfigWatchOpts): boolean {
+  const { logger } = opts;
+  const result = readConfigFile(filePath, opts.pluginConfig, logger);
+  if (result === null) {
+    logger.warn(`[leuko] Config reload skipped — ${filePath} could not be read; keeping current config`);
+    return false;
+  }
+  if (result.issues.length > 0) {
+    for (const issue of result.issues) logger.warn(`[leuko] Config ${formatIssue(issue)}`);
+    logger.warn(`[leuko] Config reload rejected — ${result.issues.length} issue(s) in ${filePath}; keeping current config`);
+    return false;
+  }
+  const changes = diffConfig(holder.current(), result.config);
+  if (changes.length === 0) {
+    logger.debug(`[leuko] Config file ${filePath} changed without effective changes`);
+    return false;
+  }
+  logger.info(`[leuko] Config reloaded from ${filePath} (${changes.length} change(s))`);
+  for (const change of changes) logger.info(`[leuko]   ${change}`);
+  holder.replace(result);
+  return true;
+}
+
+export interface ConfigWatcher {
+  close(): void;
+}
+
+/**
+ * Watch the config file's directory (editors often replace the file by
+ * rename) and reload once change events have been quiet for `debounceMs`.
+ */
+export function watchConfigFile(filePath: string, holder: ConfigHolder, opts: ConfigWatchOpts): ConfigWatcher {
+  const name = basename(filePath);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(dirname(filePath), (_event, filename) => {
+      if (filename !== null && filename !== name) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        reloadConfig(filePath, holder, opts);
+      }, opts.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+      timer.unref();
+    });
+  } catch (e) {
+    opts.logger.warn(`[leuko] Config hot reload unavailable for ${filePath}: ${e instanceof Error ? e.message : String(e)}`);
+    return { close: () => {} };
+  }
+  watcher.on("error", (e) => opts.logger.warn(`[leuko] Config watcher error: ${e.message}`));
+  watcher.unref();
+  return {
+    close() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      watcher.close();
+    },
+  };
+}
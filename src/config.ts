@@ -1,15 +1,41 @@
-import { readFileSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { readFileSync, existsSync, mkdirSync, writeFileSync, copyFileSync, renameSync } from "node:fs";
 import { join, dirname } from "node:path";
 import type {
   LeukoConfig,
   LlmConfig,
+  LlmProviderConfig,
   ChecksConfig,
   AdoptedCollectorsConfig,
   HealthInjectionConfig,
+  HistoryConfig,
   PluginLogger,
   CustomCollectorEntry,
+  ModelPrice,
+  NatsConfig,
+  BusinessHoursConfig,
+  DailyHours,
+  Weekday,
+  ComparisonOp,
+  CorrelationRule,
+  SignalCondition,
+  MonitoredDir,
+  AnomalyMethod,
+  AnomalySeasonality,
+  AnomalySensitivity,
+  StatisticalMetricConfig,
+  TrendRule,
+  TrendDirection,
+  MetricSource,
+  MetricSourceType,
 } from "./types.js";
 import { isRecord } from "./check-utils.js";
+import { WEEKDAYS } from "./business-hours.js";
+import { COMPARISON_OPS, isKnownSignal } from "./correlation-rules.js";
+import { validateConfig, withoutInvalidFields } from "./config-schema.js";
+import { formatIssue } from "./schema.js";
+import type { SchemaIssue } from "./schema.js";
+import type { MigrationResult } from "./config-migrations.js";
+import { CONFIG_VERSION, migrateConfig } from "./config-migrations.js";
 
 // ============================================================
 // Defaults
@@ -23,32 +49,55 @@ export const DEFAULTS: LeukoConfig = {
   historyPath: join(home, "clawd/memory/leuko-history.json"),
   intervalMinutes: 120,
   runTimeoutSec: 120,
+  lockTimeoutMs: 5000,
+  maxConcurrency: 2,
+  nats: {
+    monitorUrl: "http://localhost:8222",
+    timeoutMs: 3000,
+  },
+  metrics: [],
+  history: {
+    maxSnapshots: 500,
+    maxAgeDays: 90,
+    downsampleAfterDays: 7,
+    factsPath: "",
+  },
   llm: {
-    primary: {
-      provider: "ollama",
-      model: "qwen3:14b",
-      baseUrl: "http://localhost:11434",
-      timeoutSec: 30,
-    },
-    fallback: {
-      provider: "litellm",
-      model: "gemini/gemini-2.0-flash-lite",
-      baseUrl: "http://localhost:4000",
-      timeoutSec: 30,
-      maxCostUsd: 0.05,
-    },
+    providers: [
+      {
+        provider: "ollama",
+        model: "qwen3:14b",
+        baseUrl: "http://localhost:11434",
+        timeoutSec: 30,
+      },
+      {
+        provider: "litellm",
+        model: "gemini/gemini-2.0-flash-lite",
+        baseUrl: "http://localhost:4000",
+        timeoutSec: 30,
+        maxCostUsd: 0.05,
+        maxDailyCostUsd: 0.5,
+      },
+    ],
+    circuitBreaker: { failureThreshold: 3, cooldownSec: 600 },
+    retry: { maxRetries: 2, backoffMs: 1000 },
+    pricing: {},
   },
   checks: {
     goal_quality: {
       enabled: true,
       inputPath: join(home, ".cortex/pending-goals.json"),
       usesLlm: true,
+      maxChunkTokens: 1500,
+      maxChunks: 8,
     },
     thread_health: {
       enabled: true,
       inputPath: join(home, "clawd/memory/reboot/threads.json"),
       usesLlm: true,
       staleDays: 5,
+      maxChunkTokens: 1500,
+      maxChunks: 8,
     },
     pipeline_correlation: {
       enabled: true,
@@ -56,6 +105,7 @@ export const DEFAULTS: LeukoConfig = {
       natsStream: "memory-events",
       correlationWindowHours: 2,
       businessHours: { start: 8, end: 22, tz: "Europe/Berlin" },
+      rules: [],
     },
     anomaly_detection: {
       enabled: true,
@@ -65,6 +115,11 @@ export const DEFAULTS: LeukoConfig = {
         { path: join(home, ".membrane/"), label: "membrane" },
         { path: join(home, ".lancedb/"), label: "lancedb" },
       ],
+      scanBudgetMs: 10_000,
+      statistical: [],
+      trends: ["fact_count", "goal_count", "thread_count"].map((metric) => ({
+        metric, direction: "decreasing", minRun: 3, severity: "warn", criticalRun: 5,
+      })),
     },
     bootstrap_integrity: {
       enabled: true,
@@ -82,6 +137,7 @@ export const DEFAULTS: LeukoConfig = {
       enabled: false,
       patternsPath: "",
       recentHours: 24,
+      logPaths: [],
     },
     custom: [],
   },
@@ -120,36 +176,144 @@ function rec(value: unknown): Record<string, unknown> {
 // Resolve Config
 // ============================================================
 
+function resolveLlmProvider(raw: Record<string, unknown>, def?: LlmProviderConfig): LlmProviderConfig | null {
+  const provider = str(raw["provider"], def?.provider ?? "");
+  const model = str(raw["model"], def?.model ?? "");
+  const baseUrl = str(raw["baseUrl"], def?.baseUrl ?? "");
+  if (!provider || !model || !baseUrl) return null;
+  const result: LlmProviderConfig = { provider, model, baseUrl, timeoutSec: int(raw["timeoutSec"], def?.timeoutSec ?? 30) };
+  if (typeof raw["apiKey"] === "string") result.apiKey = raw["apiKey"];
+  const maxCostUsd = typeof raw["maxCostUsd"] === "number" ? raw["maxCostUsd"] : def?.maxCostUsd;
+  const maxDailyCostUsd = typeof raw["maxDailyCostUsd"] === "number" ? raw["maxDailyCostUsd"] : def?.maxDailyCostUsd;
+  if (maxCostUsd !== undefined) result.maxCostUsd = maxCostUsd;
+  if (maxDailyCostUsd !== undefined) result.maxDailyCostUsd = maxDailyCostUsd;
+  return result;
+}
+
+/**
+ * `providers` entries missing `provider`, `model` or `baseUrl` are dropped.
+ * Inline configs may still use the pre-v3 `primary` / `fallback` pair, which
+ * is completed from the default chain.
+ */
+function resolveLlmProviders(raw: Record<string, unknown>): LlmProviderConfig[] {
+  if (Array.isArray(raw["providers"])) {
+    return (raw["providers"] as unknown[])
+      .map((p) => resolveLlmProvider(rec(p)))
+      .filter((p): p is LlmProviderConfig => p !== null);
+  }
+  const defaults = DEFAULTS.llm.providers;
+  if (raw["primary"] !== undefined || raw["fallback"] !== undefined) {
+    return [rec(raw["primary"]), rec(raw["fallback"])]
+      .map((p, i) => resolveLlmProvider(p, defaults[i]))
+      .filter((p): p is LlmProviderConfig => p !== null);
+  }
+  return defaults.map((p) => ({ ...p }));
+}
+
 function resolveLlmConfig(raw: Record<string, unknown>): LlmConfig {
-  const p = rec(raw["primary"]);
-  const f = rec(raw["fallback"]);
+  const cb = rec(raw["circuitBreaker"]);
+  const retry = rec(raw["retry"]);
   return {
-    primary: {
-      provider: str(p["provider"], DEFAULTS.llm.primary.provider),
-      model: str(p["model"], DEFAULTS.llm.primary.model),
-      baseUrl: str(p["baseUrl"], DEFAULTS.llm.primary.baseUrl),
-      timeoutSec: int(p["timeoutSec"], DEFAULTS.llm.primary.timeoutSec),
-      apiKey: typeof p["apiKey"] === "string" ? p["apiKey"] : undefined,
+    providers: resolveLlmProviders(raw),
+    circuitBreaker: {
+      failureThreshold: Math.max(1, int(cb["failureThreshold"], DEFAULTS.llm.circuitBreaker.failureThreshold)),
+      cooldownSec: Math.max(0, int(cb["cooldownSec"], DEFAULTS.llm.circuitBreaker.cooldownSec)),
     },
-    fallback: {
-      provider: str(f["provider"], DEFAULTS.llm.fallback.provider),
-      model: str(f["model"], DEFAULTS.llm.fallback.model),
-      baseUrl: str(f["baseUrl"], DEFAULTS.llm.fallback.baseUrl),
-      timeoutSec: int(f["timeoutSec"], DEFAULTS.llm.fallback.timeoutSec),
-      apiKey: typeof f["apiKey"] === "string" ? f["apiKey"] : undefined,
-      maxCostUsd: typeof f["maxCostUsd"] === "number" ? f["maxCostUsd"] : DEFAULTS.llm.fallback.maxCostUsd,
+    retry: {
+      maxRetries: Math.max(0, int(retry["maxRetries"], DEFAULTS.llm.retry.maxRetries)),
+      backoffMs: Math.max(0, int(retry["backoffMs"], DEFAULTS.llm.retry.backoffMs)),
     },
+    pricing: resolvePricingOverrides(rec(raw["pricing"])),
   };
 }
 
-function resolveMonitoredDirs(ad: Record<string, unknown>): ChecksConfig["anomaly_detection"]["monitoredDirs"] {
+function resolvePricingOverrides(raw: Record<string, unknown>): Record<string, ModelPrice> {
+  const pricing: Record<string, ModelPrice> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const v = rec(value);
+    if (typeof v["promptPerMTok"] === "number" && typeof v["completionPerMTok"] === "number") {
+      pricing[key] = { promptPerMTok: v["promptPerMTok"], completionPerMTok: v["completionPerMTok"] };
+    }
+  }
+  return pricing;
+}
+
+function resolveMonitoredDirs(ad: Record<string, unknown>): MonitoredDir[] {
   if (!Array.isArray(ad["monitoredDirs"])) return [...DEFAULTS.checks.anomaly_detection.monitoredDirs];
-  return (ad["monitoredDirs"] as unknown[]).filter(
-    (d): d is { path: string; label: string } =>
-      typeof d === "object" && d !== null &&
-      typeof (d as Record<string, unknown>)["path"] === "string" &&
-      typeof (d as Record<string, unknown>)["label"] === "string",
-  );
+  return (ad["monitoredDirs"] as unknown[])
+    .filter(
+      (d): d is Record<string, unknown> =>
+        typeof d === "object" && d !== null &&
+        typeof (d as Record<string, unknown>)["path"] === "string" &&
+        typeof (d as Record<string, unknown>)["label"] === "string",
+    )
+    .map((d) => {
+      const dir: MonitoredDir = { path: d["path"] as string, label: d["label"] as string };
+      if (Array.isArray(d["exclude"])) dir.exclude = (d["exclude"] as unknown[]).filter((p): p is string => typeof p === "string");
+      if (typeof d["maxDepth"] === "number" && d["maxDepth"] >= 0) dir.maxDepth = Math.floor(d["maxDepth"]);
+      return dir;
+    });
+}
+
+const ANOMALY_METHODS: ReadonlyArray<AnomalyMethod> = ["zscore", "mad", "ewma"];
+const ANOMALY_SEASONALITIES: ReadonlyArray<AnomalySeasonality> = ["none", "hour_of_day", "day_of_week"];
+const ANOMALY_SENSITIVITIES: ReadonlyArray<AnomalySensitivity> = ["low", "medium", "high"];
+const TREND_DIRECTIONS: ReadonlyArray<TrendDirection> = ["decreasing", "increasing"];
+
+function oneOf<T extends string>(value: unknown, allowed: ReadonlyArray<T>, fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/** Entries without a metric name are dropped; unknown options fall back to defaults */
+function resolveStatisticalMetrics(raw: unknown[]): StatisticalMetricConfig[] {
+  return raw
+    .map(rec)
+    .filter((m) => typeof m["metric"] === "string" && m["metric"] !== "")
+    .map((m) => ({
+      metric: m["metric"] as string,
+      method: oneOf(m["method"], ANOMALY_METHODS, "mad"),
+      seasonality: oneOf(m["seasonality"], ANOMALY_SEASONALITIES, "none"),
+      sensitivity: oneOf(m["sensitivity"], ANOMALY_SENSITIVITIES, "medium"),
+      window: Math.max(2, int(m["window"], 50)),
+      minSamples: Math.max(2, int(m["minSamples"], 8)),
+    }));
+}
+
+function resolveTrendRules(raw: unknown[]): TrendRule[] {
+  return raw
+    .map(rec)
+    .filter((t) => typeof t["metric"] === "string" && t["metric"] !== "")
+    .map((t) => {
+      const rule: TrendRule = {
+        metric: t["metric"] as string,
+        direction: oneOf(t["direction"], TREND_DIRECTIONS, "decreasing"),
+        minRun: Math.max(1, int(t["minRun"], 3)),
+        severity: oneOf(t["severity"], ["warn", "critical"] as const, "warn"),
+      };
+      if (typeof t["criticalRun"] === "number" && t["criticalRun"] >= 1) rule.criticalRun = Math.round(t["criticalRun"]);
+      return rule;
+    });
+}
+
+/** Sources without a name or with an unknown type, or missing their required field, are dropped */
+function resolveMetricSources(raw: unknown[]): MetricSource[] {
+  const required: Record<MetricSourceType, keyof MetricSource> = {
+    json_count: "path", line_count: "path", sqlite: "query", command: "command",
+  };
+  const sources: MetricSource[] = [];
+  for (const entry of raw) {
+    const m = rec(entry);
+    const type = m["type"] as MetricSourceType;
+    if (typeof m["name"] !== "string" || m["name"] === "" || !Object.hasOwn(required, type)) continue;
+    const source: MetricSource = { name: m["name"], type };
+    for (const key of ["path", "jsonPath", "query", "command"] as const) {
+      if (typeof m[key] === "string") source[key] = m[key];
+    }
+    if (typeof m["timeoutSec"] === "number" && m["timeoutSec"] > 0) source.timeoutSec = m["timeoutSec"];
+    if (!source[required[type]] || (type === "sqlite" && !source.path)) continue;
+    sources.push(source);
+  }
+  return sources;
 }
 
 function resolvePipelineCorrelation(pc: Record<string, unknown>): ChecksConfig["pipeline_correlation"] {
@@ -160,12 +324,67 @@ function resolvePipelineCorrelation(pc: Record<string, unknown>): ChecksConfig["
     usesLlm: bool(pc["usesLlm"], def.usesLlm),
     natsStream: str(pc["natsStream"], def.natsStream),
     correlationWindowHours: int(pc["correlationWindowHours"], def.correlationWindowHours),
-    businessHours: {
-      start: int(bh["start"], def.businessHours.start),
-      end: int(bh["end"], def.businessHours.end),
-      tz: str(bh["tz"], def.businessHours.tz),
-    },
+    businessHours: resolveBusinessHours(bh, def.businessHours),
+    rules: Array.isArray(pc["rules"]) ? resolveCorrelationRules(pc["rules"] as unknown[]) : [...def.rules],
+  };
+}
+
+function resolveSignalCondition(raw: unknown): SignalCondition | null {
+  const c = rec(raw);
+  const signal = c["signal"];
+  const op = c["op"];
+  if (typeof signal !== "string" || !isKnownSignal(signal)) return null;
+  if (!COMPARISON_OPS.includes(op as ComparisonOp)) return null;
+  const value = typeof c["value"] === "number" && Number.isFinite(c["value"]) ? c["value"] : undefined;
+  return { signal, op: op as ComparisonOp, ...(value !== undefined ? { value } : {}) };
+}
+
+/** Rules with an unknown signal provider, operator or severity are dropped */
+function resolveCorrelationRules(raw: unknown[]): CorrelationRule[] {
+  const rules: CorrelationRule[] = [];
+  for (const entry of raw) {
+    const r = rec(entry);
+    const input = resolveSignalCondition(r["input"]);
+    const output = resolveSignalCondition(r["output"]);
+    const severity = r["severity"] === "critical" ? "critical" : r["severity"] === "warn" ? "warn" : null;
+    if (typeof r["diagnosis"] !== "string" || r["diagnosis"] === "" || !input || !output || !severity) continue;
+    rules.push({
+      diagnosis: r["diagnosis"],
+      severity,
+      input,
+      output,
+      windowHours: typeof r["windowHours"] === "number" && r["windowHours"] > 0 ? r["windowHours"] : undefined,
+      businessHoursOnly: bool(r["businessHoursOnly"], false),
+    });
+  }
+  return rules;
+}
+
+function hour(value: unknown, fallback: number): number {
+  return typeof value === "number" && value >= 0 && value <= 24 ? value : fallback;
+}
+
+function resolveBusinessHours(raw: Record<string, unknown>, def: BusinessHoursConfig): BusinessHoursConfig {
+  const result: BusinessHoursConfig = {
+    start: hour(raw["start"], def.start),
+    end: hour(raw["end"], def.end),
+    tz: str(raw["tz"], def.tz),
   };
+  const wd = rec(raw["weekdays"]);
+  const weekdays: Partial<Record<Weekday, DailyHours | null>> = {};
+  for (const day of WEEKDAYS) {
+    const v = wd[day];
+    if (v === null || v === false) {
+      weekdays[day] = null;
+    } else if (isRecord(v)) {
+      weekdays[day] = { start: hour(v["start"], result.start), end: hour(v["end"], result.end) };
+    }
+  }
+  if (Object.keys(weekdays).length > 0) result.weekdays = weekdays;
+  if (Array.isArray(raw["holidays"])) {
+    result.holidays = raw["holidays"].filter((d): d is string => typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d));
+  }
+  return result;
 }
 
 function resolveChecksConfig(raw: Record<string, unknown>): ChecksConfig {
@@ -180,18 +399,27 @@ function resolveChecksConfig(raw: Record<string, unknown>): ChecksConfig {
       enabled: bool(gq["enabled"], DEFAULTS.checks.goal_quality.enabled),
       inputPath: str(gq["inputPath"], DEFAULTS.checks.goal_quality.inputPath),
       usesLlm: bool(gq["usesLlm"], DEFAULTS.checks.goal_quality.usesLlm),
+      maxChunkTokens: Math.max(1, int(gq["maxChunkTokens"], DEFAULTS.checks.goal_quality.maxChunkTokens)),
+      maxChunks: int(gq["maxChunks"], DEFAULTS.checks.goal_quality.maxChunks),
     },
     thread_health: {
       enabled: bool(th["enabled"], DEFAULTS.checks.thread_health.enabled),
       inputPath: str(th["inputPath"], DEFAULTS.checks.thread_health.inputPath),
       usesLlm: bool(th["usesLlm"], DEFAULTS.checks.thread_health.usesLlm),
       staleDays: int(th["staleDays"], DEFAULTS.checks.thread_health.staleDays),
+      maxChunkTokens: Math.max(1, int(th["maxChunkTokens"], DEFAULTS.checks.thread_health.maxChunkTokens)),
+      maxChunks: int(th["maxChunks"], DEFAULTS.checks.thread_health.maxChunks),
     },
     pipeline_correlation: resolvePipelineCorrelation(rec(raw["pipeline_correlation"])),
     anomaly_detection: {
       enabled: bool(ad["enabled"], DEFAULTS.checks.anomaly_detection.enabled),
       usesLlm: bool(ad["usesLlm"], DEFAULTS.checks.anomaly_detection.usesLlm),
       monitoredDirs: resolveMonitoredDirs(ad),
+      scanBudgetMs: int(ad["scanBudgetMs"], DEFAULTS.checks.anomaly_detection.scanBudgetMs),
+      statistical: Array.isArray(ad["statistical"]) ? resolveStatisticalMetrics(ad["statistical"] as unknown[]) : [],
+      trends: Array.isArray(ad["trends"])
+        ? resolveTrendRules(ad["trends"] as unknown[])
+        : DEFAULTS.checks.anomaly_detection.trends.map((t) => ({ ...t })),
     },
     bootstrap_integrity: {
       enabled: bool(bi["enabled"], DEFAULTS.checks.bootstrap_integrity.enabled),
@@ -222,6 +450,8 @@ function resolveCollectorsConfig(raw: Record<string, unknown>): AdoptedCollector
         typeof c["warnThreshold"] === "number" ? c["warnThreshold"] : undefined,
       criticalThreshold:
         typeof c["criticalThreshold"] === "number" ? c["criticalThreshold"] : undefined,
+      timeoutSec:
+        typeof c["timeoutSec"] === "number" && c["timeoutSec"] > 0 ? c["timeoutSec"] : undefined,
     }))
     .filter((c) => c.command.length > 0);
 
@@ -230,11 +460,25 @@ function resolveCollectorsConfig(raw: Record<string, unknown>): AdoptedCollector
       enabled: bool(er["enabled"], DEFAULTS.adoptedCollectors.errors.enabled),
       patternsPath: str(er["patternsPath"], DEFAULTS.adoptedCollectors.errors.patternsPath),
       recentHours: int(er["recentHours"], DEFAULTS.adoptedCollectors.errors.recentHours),
+      logPaths: Array.isArray(er["logPaths"])
+        ? (er["logPaths"] as unknown[]).filter((p): p is string => typeof p === "string" && p.length > 0)
+        : [...DEFAULTS.adoptedCollectors.errors.logPaths],
     },
     custom,
   };
 }
 
+function resolveNatsConfig(raw: Record<string, unknown>): NatsConfig {
+  const optional = (key: string): string | undefined => (typeof raw[key] === "string" ? (raw[key] as string) : undefined);
+  return {
+    monitorUrl: str(raw["monitorUrl"], DEFAULTS.nats.monitorUrl),
+    timeoutMs: int(raw["timeoutMs"], DEFAULTS.nats.timeoutMs),
+    user: optional("user"),
+    password: optional("password"),
+    token: optional("token"),
+  };
+}
+
 function resolveHealthInjection(raw: Record<string, unknown>): HealthInjectionConfig {
   return {
     enabled: bool(raw["enabled"], DEFAULTS.healthInjection.enabled),
@@ -243,14 +487,29 @@ function resolveHealthInjection(raw: Record<string, unknown>): HealthInjectionCo
   };
 }
 
+function resolveHistory(raw: Record<string, unknown>): HistoryConfig {
+  return {
+    maxSnapshots: int(raw["maxSnapshots"], DEFAULTS.history.maxSnapshots),
+    maxAgeDays: int(raw["maxAgeDays"], DEFAULTS.history.maxAgeDays),
+    downsampleAfterDays: int(raw["downsampleAfterDays"], DEFAULTS.history.downsampleAfterDays),
+    factsPath: str(raw["factsPath"], DEFAULTS.history.factsPath),
+  };
+}
+
+/** Resolve a raw plugin config; every field `validateConfig` rejects gets its default. */
 export function resolveConfig(pluginConfig?: Record<string, unknown>): LeukoConfig {
-  const raw = pluginConfig ?? {};
+  const raw = withoutInvalidFields(pluginConfig ?? {});
   return {
     enabled: bool(raw["enabled"], DEFAULTS.enabled),
     statusPath: str(raw["statusPath"], DEFAULTS.statusPath),
     historyPath: str(raw["historyPath"], DEFAULTS.historyPath),
     intervalMinutes: int(raw["intervalMinutes"], DEFAULTS.intervalMinutes),
     runTimeoutSec: int(raw["runTimeoutSec"], DEFAULTS.runTimeoutSec),
+    lockTimeoutMs: int(raw["lockTimeoutMs"], DEFAULTS.lockTimeoutMs),
+    maxConcurrency: Math.max(1, int(raw["maxConcurrency"], DEFAULTS.maxConcurrency)),
+    nats: resolveNatsConfig(rec(raw["nats"])),
+    history: resolveHistory(rec(raw["history"])),
+    metrics: Array.isArray(raw["metrics"]) ? resolveMetricSources(raw["metrics"] as unknown[]) : [],
     llm: resolveLlmConfig(rec(raw["llm"])),
     checks: resolveChecksConfig(rec(raw["checks"])),
     adoptedCollectors: resolveCollectorsConfig(rec(raw["adoptedCollectors"])),
@@ -269,6 +528,8 @@ const DEFAULT_CONFIG_DIR = join(
   "openclaw-leuko",
 );
 const DEFAULT_CONFIG_FILENAME = "config.json";
+/** External plugin config file, unless overridden by inline `configPath` */
+export const DEFAULT_CONFIG_PATH = join(DEFAULT_CONFIG_DIR, DEFAULT_CONFIG_FILENAME);
 
 function isLegacyInlineConfig(raw: Record<string, unknown>): boolean {
   const inlineOnlyKeys = new Set(["enabled", "configPath"]);
@@ -313,7 +574,8 @@ function bootstrapConfig(
   try {
     const dir = dirname(path);
     if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-    writeFileSync(path, JSON.stringify(DEFAULTS, null, 2) + "\n", "utf-8");
+    const initial = { configVersion: CONFIG_VERSION, ...DEFAULTS };
+    writeFileSync(path, JSON.stringify(initial, null, 2) + "\n", "utf-8");
     logger.info(`[leuko] Created default config at ${path}`);
     return readJsonFile(path, logger);
   } catch (e) {
@@ -324,10 +586,63 @@ function bootstrapConfig(
   }
 }
 
+/** Backup path for the pre-migration file; never overwrites an earlier backup */
+function backupPath(path: string, version: number): string {
+  const base = `${path}.v${version}.bak`;
+  return existsSync(base) ? `${path}.v${version}.${Date.now()}.bak` : base;
+}
+
+/**
+ * Upgrade an older config file to `CONFIG_VERSION`: back up the original,
+ * then rewrite the file atomically. When the write fails the migrated
+ * config is still used for this session.
+ */
+function migrateConfigFile(
+  path: string,
+  fileConfig: Record<string, unknown>,
+  logger: PluginLogger,
+): MigrationResult {
+  const result = migrateConfig(fileConfig, DEFAULTS as unknown as Record<string, unknown>);
+  if (result.fromVersion > CONFIG_VERSION) {
+    logger.warn(`[leuko] Config ${path} has configVersion ${result.fromVersion}, newer than supported ${CONFIG_VERSION}`);
+    return result;
+  }
+  if (result.changes.length === 0) return result;
+
+  logger.info(`[leuko] Migrating config ${path} from v${result.fromVersion} to v${result.toVersion}`);
+  for (const change of result.changes) logger.info(`[leuko]   ${change}`);
+  try {
+    const backup = backupPath(path, result.fromVersion);
+    copyFileSync(path, backup);
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(result.raw, null, 2) + "\n", "utf-8");
+    renameSync(tmp, path);
+    logger.info(`[leuko] Original config saved to ${backup}`);
+  } catch (e) {
+    logger.warn(`[leuko] Failed to write migrated config: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return result;
+}
+
 export interface ConfigLoadResult {
   readonly config: LeukoConfig;
   readonly source: "inline" | "file" | "defaults";
   readonly filePath?: string;
+  /** Schema problems in the raw config; the affected fields fell back to defaults or were dropped */
+  readonly issues: ReadonlyArray<SchemaIssue>;
+  /** Set when the config file was upgraded from an older `configVersion` at load or reload time */
+  readonly migration?: MigrationResult;
+}
+
+function checkedResult(
+  raw: Record<string, unknown>,
+  source: ConfigLoadResult["source"],
+  logger: PluginLogger,
+  filePath?: string,
+): ConfigLoadResult {
+  const issues = validateConfig(raw);
+  for (const issue of issues) logger.warn(`[leuko] Config ${formatIssue(issue)}`);
+  return { config: resolveConfig(raw), source, ...(filePath !== undefined ? { filePath } : {}), issues };
 }
 
 export function loadConfig(
@@ -339,20 +654,22 @@ export function loadConfig(
   // Priority 1: Legacy inline config
   if (isLegacyInlineConfig(raw)) {
     logger.info("[leuko] Using inline config from openclaw.json");
-    return { config: resolveConfig(raw), source: "inline" };
+    return checkedResult(raw, "inline", logger);
   }
 
   // Priority 2: External config file
   const configPath =
     typeof raw["configPath"] === "string"
       ? raw["configPath"]
-      : join(DEFAULT_CONFIG_DIR, DEFAULT_CONFIG_FILENAME);
+      : DEFAULT_CONFIG_PATH;
 
   const fileConfig = readJsonFile(configPath, logger);
   if (fileConfig !== null) {
-    const merged = applyInlineOverrides(fileConfig, raw);
+    const migration = migrateConfigFile(configPath, fileConfig, logger);
+    const merged = applyInlineOverrides(migration.raw, raw);
     logger.info(`[leuko] Loaded config from ${configPath}`);
-    return { config: resolveConfig(merged), source: "file", filePath: configPath };
+    const result = checkedResult(merged, "file", logger, configPath);
+    return migration.changes.length > 0 ? { ...result, migration } : result;
   }
 
   // File missing → bootstrap
@@ -360,11 +677,34 @@ export function loadConfig(
     const bootstrapped = bootstrapConfig(configPath, logger);
     if (bootstrapped !== null) {
       const merged = applyInlineOverrides(bootstrapped, raw);
-      return { config: resolveConfig(merged), source: "file", filePath: configPath };
+      return checkedResult(merged, "file", logger, configPath);
     }
   }
 
   // Priority 3: Graceful defaults
   logger.warn("[leuko] Falling back to default config");
-  return { config: resolveConfig(undefined), source: "defaults" };
+  return { config: resolveConfig(undefined), source: "defaults", issues: [] };
+}
+
+/**
+ * Re-read the external config file for a hot reload, with the same inline
+ * overrides as at load time. Null when the file can't be read or parsed.
+ * An older file is migrated in memory only; it is rewritten at the next load.
+ */
+export function readConfigFile(
+  filePath: string,
+  pluginConfig: Record<string, unknown> | undefined,
+  logger: PluginLogger,
+): ConfigLoadResult | null {
+  const fileConfig = readJsonFile(filePath, logger);
+  if (fileConfig === null) return null;
+  const migration = migrateConfig(fileConfig, DEFAULTS as unknown as Record<string, unknown>);
+  if (migration.fromVersion > CONFIG_VERSION) {
+    logger.warn(`[leuko] Config ${filePath} has configVersion ${migration.fromVersion}, newer than supported ${CONFIG_VERSION}`);
+  } else if (migration.changes.length > 0) {
+    logger.info(`[leuko] Config ${filePath} is v${migration.fromVersion} — migrated to v${migration.toVersion} in memory`);
+  }
+  const merged = applyInlineOverrides(migration.raw, pluginConfig ?? {});
+  const result: ConfigLoadResult = { config: resolveConfig(merged), source: "file", filePath, issues: validateConfig(merged) };
+  return migration.changes.length > 0 ? { ...result, migration } : result;
 }
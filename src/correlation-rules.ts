@@ -0,0 +1,151 @@
+import { statSync } from "node:fs";
+import type {
+  BusinessHoursWindow,
+  ComparisonOp,
+  CorrelationEntry,
+  CorrelationRule,
+  LeukoStatus,
+  PluginLogger,
+  SitrepCollectorResult,
+} from "./types.js";
+import { expandHome } from "./check-utils.js";
+import type { NatsStreamInfo } from "./nats-client.js";
+
+// ============================================================
+// Signal providers
+// ============================================================
+
+/** Everything a signal provider may read; gathered once per CK-03 run */
+export interface SignalContext {
+  daemonChecks: LeukoStatus["daemon_checks"];
+  collectors: ReadonlyArray<SitrepCollectorResult>;
+  /** The configured NATS stream, null when unavailable */
+  stream: NatsStreamInfo | null;
+  nowMs: number;
+}
+
+/** Resolve the argument of a signal reference to a number; null = signal unavailable */
+export type SignalProvider = (arg: string, ctx: SignalContext) => number | null;
+
+const HOUR_MS = 60 * 60 * 1000;
+const SEVERITY_LEVEL = { ok: 0, warn: 1, critical: 2 } as const;
+
+export const COMPARISON_OPS: ReadonlyArray<ComparisonOp> = [">", ">=", "<", "<=", "==", "!="];
+
+/** Exact name, or a prefix when the pattern ends with `*` */
+function matchesName(pattern: string, name: string): boolean {
+  return pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : pattern === name;
+}
+
+function hoursSince(iso: string | null, nowMs: number): number | null {
+  if (!iso) return null;
+  const ts = new Date(iso).getTime();
+  return isNaN(ts) ? null : Math.max(0, nowMs - ts) / HOUR_MS;
+}
+
+/**
+ * Registry of signal providers, keyed by the prefix of a signal reference.
+ *
+ * - `file_age_hours:<path>` — hours since the file was modified (`~` expanded)
+ * - `daemon_check:<name|prefix*>` — worst severity of matching L1 checks (0 ok, 1 warn, 2 critical)
+ * - `daemon_checks_failing:<name|prefix*>` — number of matching L1 checks that are not ok
+ * - `nats_messages:` — messages in the configured stream
+ * - `nats_last_message_age_hours:` — hours since the last message was stored
+ * - `nats_consumer_lag:<consumer>` — pending + unacknowledged messages of a consumer
+ * - `collector:<name>` — a collector's value (its item count when it reports none)
+ */
+export const SIGNAL_PROVIDERS: Readonly<Record<string, SignalProvider>> = {
+  file_age_hours: (path, ctx) => {
+    try {
+      return Math.max(0, ctx.nowMs - statSync(expandHome(path)).mtimeMs) / HOUR_MS;
+    } catch {
+      return null;
+    }
+  },
+  daemon_check: (pattern, ctx) => {
+    const matching = ctx.daemonChecks.filter((c) => matchesName(pattern, c.check_name));
+    return matching.length === 0 ? null : Math.max(...matching.map((c) => SEVERITY_LEVEL[c.severity]));
+  },
+  daemon_checks_failing: (pattern, ctx) => {
+    const matching = ctx.daemonChecks.filter((c) => matchesName(pattern, c.check_name));
+    return matching.length === 0 ? null : matching.filter((c) => c.severity !== "ok").length;
+  },
+  nats_messages: (_arg, ctx) => ctx.stream?.messages ?? null,
+  nats_last_message_age_hours: (_arg, ctx) => hoursSince(ctx.stream?.last_ts ?? null, ctx.nowMs),
+  nats_consumer_lag: (name, ctx) => ctx.stream?.consumers.find((c) => c.name === name)?.lag ?? null,
+  collector: (name, ctx) => {
+    const c = ctx.collectors.find((r) => r.collector_name === name);
+    return c ? (c.value ?? c.items.length) : null;
+  },
+};
+
+function splitSignal(ref: string): { provider: string; arg: string } {
+  const i = ref.indexOf(":");
+  return i === -1 ? { provider: ref, arg: "" } : { provider: ref.slice(0, i), arg: ref.slice(i + 1) };
+}
+
+export function isKnownSignal(ref: string): boolean {
+  return Object.hasOwn(SIGNAL_PROVIDERS, splitSignal(ref).provider);
+}
+
+export function resolveSignal(ref: string, ctx: SignalContext): number | null {
+  const { provider, arg } = splitSignal(ref);
+  const fn = Object.hasOwn(SIGNAL_PROVIDERS, provider) ? SIGNAL_PROVIDERS[provider] : undefined;
+  return fn ? fn(arg, ctx) : null;
+}
+
+export function compare(value: number, op: ComparisonOp, threshold: number): boolean {
+  switch (op) {
+    case ">": return value > threshold;
+    case ">=": return value >= threshold;
+    case "<": return value < threshold;
+    case "<=": return value <= threshold;
+    case "==": return value === threshold;
+    case "!=": return value !== threshold;
+  }
+}
+
+// ============================================================
+// Rule evaluation
+// ============================================================
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Evaluate configured correlation rules. A rule fires when both its input and
+ * output condition hold; rules with an unavailable signal are skipped.
+ */
+export function evaluateCorrelationRules(
+  rules: ReadonlyArray<CorrelationRule>,
+  ctx: SignalContext,
+  window: BusinessHoursWindow,
+  defaultWindowHours: number,
+  logger: PluginLogger,
+): CorrelationEntry[] {
+  const out: CorrelationEntry[] = [];
+  for (const rule of rules) {
+    if (rule.businessHoursOnly && !window.in_business_hours) continue;
+    const windowH = rule.windowHours ?? defaultWindowHours;
+    const input = resolveSignal(rule.input.signal, ctx);
+    const output = resolveSignal(rule.output.signal, ctx);
+    if (input === null || output === null) {
+      const missing = input === null ? rule.input.signal : rule.output.signal;
+      logger.debug(`[leuko] Correlation rule ${rule.diagnosis} skipped: signal ${missing} unavailable`);
+      continue;
+    }
+    if (!compare(input, rule.input.op, rule.input.value ?? windowH)) continue;
+    if (!compare(output, rule.output.op, rule.output.value ?? windowH)) continue;
+    out.push({
+      input: rule.input.signal,
+      input_value: round1(input),
+      output: rule.output.signal,
+      output_value: round1(output),
+      diagnosis: rule.diagnosis,
+      severity: rule.severity,
+      ...(rule.businessHoursOnly ? { window } : {}),
+    });
+  }
+  return out;
+}
@@ -0,0 +1,487 @@
+/**
+ * Leuko L1 Daemon — Config loading
+ *
+ * Reads the daemon config file, validates every field against the defaults
+ * (invalid fields keep their default and are reported with their path),
+ * expands `~` in paths and applies `LEUKO_*` environment overrides.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { expandHome } from "../check-utils.js";
+import { defaultHealConfig } from "./heal.js";
+import { defaultDiskUsageConfig } from "./disk.js";
+
+import type {
+  DaemonConfig, DiskMount, DiskUsageConfig, FreshnessTarget, HealAction, HealActionType, HealConfig, ServiceEndpoint,
+} from "./types.js";
+
+const HOME = process.env["HOME"] ?? "/tmp";
+const DEFAULT_ENDPOINT_TIMEOUT_MS = 3000;
+
+type Raw = Record<string, unknown>;
+
+export interface DaemonConfigResult {
+  config: DaemonConfig;
+  /** Per-field problems (`checks.disk_usage.warnPercent: ...`); those fields keep their defaults */
+  errors: string[];
+}
+
+// ============================================================
+// Defaults
+// ============================================================
+
+export function defaultConfig(env: NodeJS.ProcessEnv = process.env): DaemonConfig {
+  const candidates = [
+    env["OPENCLAW_WORKSPACE"],
+    join(HOME, "clawd"),
+    join(HOME, "workspace"),
+    HOME,
+  ].filter(Boolean) as string[];
+
+  const workspace = candidates.find(d =>
+    existsSync(join(d, ".openclaw")) || existsSync(join(d, "AGENTS.md"))
+  ) ?? HOME;
+
+  return {
+    statusPath: join(HOME, ".openclaw", "leuko-status.json"),
+    workspace,
+    watchIntervalMin: 15,
+    lockTimeoutMs: 5000,
+    pluginConfigPath: join(HOME, ".openclaw", "plugins", "openclaw-leuko", "config.json"),
+    checks: {
+      file_freshness: { enabled: true, targets: [] },
+      service_health: { enabled: true, endpoints: [] },
+      disk_usage: defaultDiskUsageConfig(),
+      gateway_alive: { enabled: true },
+      plugin_loading: { enabled: true },
+    },
+    heal: defaultHealConfig(),
+  };
+}
+
+// ============================================================
+// Field readers — undefined when absent or invalid (then an error is recorded)
+// ============================================================
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  required?: boolean;
+}
+
+function isObject(v: unknown): v is Raw {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function show(v: unknown): string {
+  const s = JSON.stringify(v) ?? String(v);
+  return s.length > 40 ? `${s.slice(0, 37)}...` : s;
+}
+
+function at(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path === "" ? key : `${path}.${key}`;
+}
+
+function unknownKeys(r: Raw, allowed: ReadonlyArray<string>, path: string, errors: string[]): void {
+  for (const key of Object.keys(r)) {
+    if (!allowed.includes(key)) errors.push(`${at(path, key)}: unknown field`);
+  }
+}
+
+function readObject(r: Raw, key: string, path: string, errors: string[]): Raw | undefined {
+  const v = r[key];
+  if (v === undefined) return undefined;
+  if (!isObject(v)) {
+    errors.push(`${at(path, key)}: expected an object, got ${show(v)}`);
+    return undefined;
+  }
+  return v;
+}
+
+function readArray(r: Raw, key: string, path: string, errors: string[]): unknown[] | undefined {
+  const v = r[key];
+  if (v === undefined) return undefined;
+  if (!Array.isArray(v)) {
+    errors.push(`${at(path, key)}: expected an array, got ${show(v)}`);
+    return undefined;
+  }
+  return v;
+}
+
+function readBoolean(r: Raw, key: string, path: string, errors: string[]): boolean | undefined {
+  const v = r[key];
+  if (v === undefined) return undefined;
+  if (typeof v !== "boolean") {
+    errors.push(`${at(path, key)}: expected true or false, got ${show(v)}`);
+    return undefined;
+  }
+  return v;
+}
+
+function readString(r: Raw, key: string, path: string, errors: string[], required = false): string | undefined {
+  const v = r[key];
+  if (v === undefined) {
+    if (required) errors.push(`${at(path, key)}: required`);
+    return undefined;
+  }
+  if (typeof v !== "string" || v.trim() === "") {
+    errors.push(`${at(path, key)}: expected a non-empty string, got ${show(v)}`);
+    return undefined;
+  }
+  return v;
+}
+
+function readPath(r: Raw, key: string, path: string, errors: string[], required = false): string | undefined {
+  const v = readString(r, key, path, errors, required);
+  return v === undefined ? undefined : expandHome(v);
+}
+
+function checkNumber(v: unknown, field: string, rule: NumberRule, errors: string[]): number | undefined {
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    errors.push(`${field}: expected a number, got ${show(v)}`);
+    return undefined;
+  }
+  if (rule.integer && !Number.isInteger(v)) {
+    errors.push(`${field}: expected an integer, got ${v}`);
+    return undefined;
+  }
+  const min = rule.min ?? -Infinity;
+  const max = rule.max ?? Infinity;
+  if (v < min || v > max) {
+    const range = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+    errors.push(`${field}: must be ${range}, got ${v}`);
+    return undefined;
+  }
+  return v;
+}
+
+function readNumber(r: Raw, key: string, path: string, errors: string[], rule: NumberRule = {}): number | undefined {
+  const v = r[key];
+  if (v === undefined) {
+    if (rule.required) errors.push(`${at(path, key)}: required`);
+    return undefined;
+  }
+  return checkNumber(v, at(path, key), rule, errors);
+}
+
+// ============================================================
+// Sections
+// ============================================================
+
+const TOP_KEYS = ["statusPath", "workspace", "watchIntervalMin", "lockTimeoutMs", "pluginConfigPath", "checks", "heal"];
+const CHECK_KEYS = ["file_freshness", "service_health", "disk_usage", "gateway_alive", "plugin_loading"] as const;
+const PERCENT_KEYS = ["warnPercent", "critPercent", "inodeWarnPercent", "inodeCritPercent"] as const;
+const PERCENT_PAIRS = [["warnPercent", "critPercent"], ["inodeWarnPercent", "inodeCritPercent"]] as const;
+const HEAL_TYPES: ReadonlyArray<HealActionType> = ["command", "touch", "prune"];
+const HOST_RE = /^[\w.\-]+$/;
+
+function parseFreshnessTarget(v: unknown, path: string, errors: string[]): FreshnessTarget | null {
+  if (!isObject(v)) {
+    errors.push(`${path}: expected an object, got ${show(v)}`);
+    return null;
+  }
+  const before = errors.length;
+  unknownKeys(v, ["name", "path", "warnHours", "critHours"], path, errors);
+  const name = readString(v, "name", path, errors, true);
+  const file = readPath(v, "path", path, errors, true);
+  const warnHours = readNumber(v, "warnHours", path, errors, { min: 0, required: true });
+  const critHours = readNumber(v, "critHours", path, errors, { min: 0, required: true });
+  if (warnHours !== undefined && critHours !== undefined && critHours < warnHours) {
+    errors.push(`${at(path, "critHours")}: must be >= warnHours (${warnHours}), got ${critHours}`);
+  }
+  if (errors.length > before || !name || !file || warnHours === undefined || critHours === undefined) return null;
+  return { name, path: file, warnHours, critHours };
+}
+
+function parseEndpoint(v: unknown, path: string, errors: string[]): ServiceEndpoint | null {
+  if (!isObject(v)) {
+    errors.push(`${path}: expected an object, got ${show(v)}`);
+    return null;
+  }
+  const before = errors.length;
+  unknownKeys(v, ["name", "type", "url", "host", "port", "timeoutMs"], path, errors);
+  const name = readString(v, "name", path, errors, true);
+  const timeoutMs = readNumber(v, "timeoutMs", path, errors, { min: 1, integer: true }) ?? DEFAULT_ENDPOINT_TIMEOUT_MS;
+  const type = v["type"];
+  if (type === "http") {
+    const url = readString(v, "url", path, errors, true);
+    if (url !== undefined && !/^https?:\/\//.test(url)) errors.push(`${at(path, "url")}: expected an http(s) URL, got ${show(url)}`);
+    if (errors.length > before || !name || !url) return null;
+    return { name, type, url, timeoutMs };
+  }
+  if (type === "tcp") {
+    const host = readString(v, "host", path, errors, true);
+    if (host !== undefined && !HOST_RE.test(host)) errors.push(`${at(path, "host")}: invalid hostname ${show(host)}`);
+    const port = readNumber(v, "port", path, errors, { min: 1, max: 65535, integer: true, required: true });
+    if (errors.length > before || !name || !host || port === undefined) return null;
+    return { name, type, host, port, timeoutMs };
+  }
+  errors.push(`${at(path, "type")}: expected "http" or "tcp", got ${show(type)}`);
+  return null;
+}
+
+/** Warn/crit pairs set in `t` whose crit threshold is below the warn one; each is reported */
+function misorderedPercents(
+  t: Partial<Record<typeof PERCENT_KEYS[number], number>>,
+  path: string,
+  errors: string[],
+): ReadonlyArray<typeof PERCENT_PAIRS[number]> {
+  return PERCENT_PAIRS.filter(([warnKey, critKey]) => {
+    const warn = t[warnKey];
+    const crit = t[critKey];
+    if (warn === undefined || crit === undefined || crit >= warn) return false;
+    errors.push(`${at(path, critKey)}: must be >= ${warnKey} (${warn}), got ${crit}`);
+    return true;
+  });
+}
+
+function parseMount(v: unknown, path: string, errors: string[]): DiskMount | null {
+  const r: unknown = typeof v === "string" ? { path: v } : v;
+  if (!isObject(r)) {
+    errors.push(`${path}: expected a path or an object, got ${show(v)}`);
+    return null;
+  }
+  const before = errors.length;
+  unknownKeys(r, ["path", ...PERCENT_KEYS], path, errors);
+  const file = readPath(r, "path", path, errors, true);
+  const mount: DiskMount = { path: file ?? "" };
+  for (const key of PERCENT_KEYS) {
+    const n = readNumber(r, key, path, errors, { min: 0, max: 100 });
+    if (n !== undefined) mount[key] = n;
+  }
+  misorderedPercents(mount, path, errors);
+  return errors.length > before || !file ? null : mount;
+}
+
+/**
+ * Parse `checks.disk_usage`; invalid fields keep their defaults, invalid mounts are dropped.
+ * A warn/crit pair with crit below warn falls back to the default pair.
+ */
+export function parseDiskUsageConfig(raw: unknown, errors: string[] = [], path = "checks.disk_usage"): DiskUsageConfig {
+  const cfg = defaultDiskUsageConfig();
+  if (!isObject(raw)) {
+    errors.push(`${path}: expected an object, got ${show(raw)}`);
+    return cfg;
+  }
+  unknownKeys(raw, ["enabled", ...PERCENT_KEYS, "mounts", "projectionWarnDays", "projectionCritDays", "projectionWindowHours"], path, errors);
+  cfg.enabled = readBoolean(raw, "enabled", path, errors) ?? cfg.enabled;
+  for (const key of PERCENT_KEYS) {
+    cfg[key] = readNumber(raw, key, path, errors, { min: 0, max: 100 }) ?? cfg[key];
+  }
+  const defaults = defaultDiskUsageConfig();
+  for (const [warnKey, critKey] of misorderedPercents(cfg, path, errors)) {
+    cfg[warnKey] = defaults[warnKey];
+    cfg[critKey] = defaults[critKey];
+  }
+  for (const key of ["projectionWarnDays", "projectionCritDays", "projectionWindowHours"] as const) {
+    cfg[key] = readNumber(raw, key, path, errors, { min: 0 }) ?? cfg[key];
+  }
+  const mounts = readArray(raw, "mounts", path, errors) ?? [];
+  mounts.forEach((m, i) => {
+    const mount = parseMount(m, at(at(path, "mounts"), i), errors);
+    if (mount) cfg.mounts.push(mount);
+  });
+  return cfg;
+}
+
+function parseHealAction(v: unknown, path: string, errors: string[]): HealAction | null {
+  if (!isObject(v)) {
+    errors.push(`${path}: expected an object, got ${show(v)}`);
+    return null;
+  }
+  const before = errors.length;
+  unknownKeys(v, ["check", "type", "command", "path", "olderThanDays", "timeoutSec"], path, errors);
+  const check = readString(v, "check", path, errors, true);
+  const type = v["type"] as HealActionType;
+  if (!HEAL_TYPES.includes(type)) errors.push(`${at(path, "type")}: expected one of ${HEAL_TYPES.join(", ")}, got ${show(v["type"])}`);
+  const action: HealAction = { check: check ?? "", type };
+  if (type === "command") {
+    const command = readString(v, "command", path, errors, true);
+    if (command !== undefined) action.command = command;
+  } else if (type === "touch" || type === "prune") {
+    const file = readString(v, "path", path, errors, true);
+    if (file !== undefined) action.path = file;
+  }
+  const olderThanDays = readNumber(v, "olderThanDays", path, errors, { min: 0 });
+  if (olderThanDays !== undefined) action.olderThanDays = olderThanDays;
+  const timeoutSec = readNumber(v, "timeoutSec", path, errors, { min: 1 });
+  if (timeoutSec !== undefined) action.timeoutSec = timeoutSec;
+  return errors.length > before ? null : action;
+}
+
+/** Parse the `heal` block; invalid fields keep their defaults, invalid actions are dropped. */
+export function parseHealConfig(raw: unknown, errors: string[] = [], path = "heal"): HealConfig {
+  const cfg = defaultHealConfig();
+  if (!isObject(raw)) {
+    errors.push(`${path}: expected an object, got ${show(raw)}`);
+    return cfg;
+  }
+  unknownKeys(raw, ["enabled", "dryRun", "cooldownMin", "maxAttempts", "windowMin", "historyLimit", "actions"], path, errors);
+  cfg.enabled = readBoolean(raw, "enabled", path, errors) ?? cfg.enabled;
+  cfg.dryRun = readBoolean(raw, "dryRun", path, errors) ?? cfg.dryRun;
+  for (const key of ["cooldownMin", "maxAttempts", "windowMin", "historyLimit"] as const) {
+    cfg[key] = readNumber(raw, key, path, errors, { min: 0 }) ?? cfg[key];
+  }
+  const actions = readArray(raw, "actions", path, errors) ?? [];
+  actions.forEach((a, i) => {
+    const action = parseHealAction(a, at(at(path, "actions"), i), errors);
+    if (action) cfg.actions.push(action);
+  });
+  return cfg;
+}
+
+function parseChecks(raw: Raw, cfg: DaemonConfig, errors: string[]): void {
+  unknownKeys(raw, CHECK_KEYS, "checks", errors);
+  for (const name of ["gateway_alive", "plugin_loading"] as const) {
+    const r = readObject(raw, name, "checks", errors);
+    if (!r) continue;
+    unknownKeys(r, ["enabled"], at("checks", name), errors);
+    cfg.checks[name].enabled = readBoolean(r, "enabled", at("checks", name), errors) ?? cfg.checks[name].enabled;
+  }
+
+  const ff = readObject(raw, "file_freshness", "checks", errors);
+  if (ff) {
+    const path = "checks.file_freshness";
+    unknownKeys(ff, ["enabled", "targets"], path, errors);
+    cfg.checks.file_freshness.enabled = readBoolean(ff, "enabled", path, errors) ?? cfg.checks.file_freshness.enabled;
+    (readArray(ff, "targets", path, errors) ?? []).forEach((t, i) => {
+      const target = parseFreshnessTarget(t, at(at(path, "targets"), i), errors);
+      if (target) cfg.checks.file_freshness.targets.push(target);
+    });
+  }
+
+  const sh = readObject(raw, "service_health", "checks", errors);
+  if (sh) {
+    const path = "checks.service_health";
+    unknownKeys(sh, ["enabled", "endpoints"], path, errors);
+    cfg.checks.service_health.enabled = readBoolean(sh, "enabled", path, errors) ?? cfg.checks.service_health.enabled;
+    (readArray(sh, "endpoints", path, errors) ?? []).forEach((e, i) => {
+      const endpoint = parseEndpoint(e, at(at(path, "endpoints"), i), errors);
+      if (endpoint) cfg.checks.service_health.endpoints.push(endpoint);
+    });
+  }
+
+  if (raw["disk_usage"] !== undefined) cfg.checks.disk_usage = parseDiskUsageConfig(raw["disk_usage"], errors);
+}
+
+/** Validate a parsed config document over the defaults. */
+export function validateDaemonConfig(raw: unknown, env: NodeJS.ProcessEnv = process.env): DaemonConfigResult {
+  const cfg = defaultConfig(env);
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    errors.push(`config: expected an object, got ${show(raw)}`);
+    return { config: cfg, errors };
+  }
+  unknownKeys(raw, TOP_KEYS, "", errors);
+  cfg.statusPath = readPath(raw, "statusPath", "", errors) ?? cfg.statusPath;
+  cfg.workspace = readPath(raw, "workspace", "", errors) ?? cfg.workspace;
+  cfg.watchIntervalMin = readNumber(raw, "watchIntervalMin", "", errors, { min: 1, max: 1440 }) ?? cfg.watchIntervalMin;
+  cfg.lockTimeoutMs = readNumber(raw, "lockTimeoutMs", "", errors, { min: 0 }) ?? cfg.lockTimeoutMs;
+  cfg.pluginConfigPath = readPath(raw, "pluginConfigPath", "", errors) ?? cfg.pluginConfigPath;
+  const checks = readObject(raw, "checks", "", errors);
+  if (checks) parseChecks(checks, cfg, errors);
+  if (raw["heal"] !== undefined) cfg.heal = parseHealConfig(raw["heal"], errors);
+  return { config: cfg, errors };
+}
+
+// ============================================================
+// Environment overrides
+// ============================================================
+
+function envNumber(env: NodeJS.ProcessEnv, name: string, rule: NumberRule, errors: string[]): number | undefined {
+  const v = env[name];
+  if (v === undefined || v === "") return undefined;
+  const n = Number(v);
+  if (v.trim() === "" || !Number.isFinite(n)) {
+    errors.push(`${name}: expected a number, got ${show(v)}`);
+    return undefined;
+  }
+  return checkNumber(n, name, rule, errors);
+}
+
+function envBoolean(env: NodeJS.ProcessEnv, name: string, errors: string[]): boolean | undefined {
+  const v = env[name]?.trim().toLowerCase();
+  if (v === undefined || v === "") return undefined;
+  if (["1", "true", "yes", "on"].includes(v)) return true;
+  if (["0", "false", "no", "off"].includes(v)) return false;
+  errors.push(`${name}: expected true or false, got ${show(env[name])}`);
+  return undefined;
+}
+
+/**
+ * `LEUKO_*` variables override the config file:
+ * LEUKO_STATUS_PATH, LEUKO_WORKSPACE, LEUKO_PLUGIN_CONFIG_PATH, LEUKO_WATCH_INTERVAL_MIN, LEUKO_LOCK_TIMEOUT_MS,
+ * LEUKO_DISK_WARN_PERCENT, LEUKO_DISK_CRIT_PERCENT, LEUKO_HEAL_ENABLED, LEUKO_HEAL_DRY_RUN,
+ * and LEUKO_DISABLE_CHECKS (comma-separated check names).
+ */
+export function applyEnvOverrides(cfg: DaemonConfig, env: NodeJS.ProcessEnv, errors: string[]): void {
+  if (env["LEUKO_STATUS_PATH"]) cfg.statusPath = expandHome(env["LEUKO_STATUS_PATH"]);
+  if (env["LEUKO_WORKSPACE"]) cfg.workspace = expandHome(env["LEUKO_WORKSPACE"]);
+  if (env["LEUKO_PLUGIN_CONFIG_PATH"]) cfg.pluginConfigPath = expandHome(env["LEUKO_PLUGIN_CONFIG_PATH"]);
+  cfg.watchIntervalMin = envNumber(env, "LEUKO_WATCH_INTERVAL_MIN", { min: 1, max: 1440 }, errors) ?? cfg.watchIntervalMin;
+  cfg.lockTimeoutMs = envNumber(env, "LEUKO_LOCK_TIMEOUT_MS", { min: 0 }, errors) ?? cfg.lockTimeoutMs;
+  const disk = cfg.checks.disk_usage;
+  const warnPercent = envNumber(env, "LEUKO_DISK_WARN_PERCENT", { min: 0, max: 100 }, errors) ?? disk.warnPercent;
+  const critPercent = envNumber(env, "LEUKO_DISK_CRIT_PERCENT", { min: 0, max: 100 }, errors) ?? disk.critPercent;
+  if (critPercent < warnPercent) {
+    errors.push(`LEUKO_DISK_CRIT_PERCENT / LEUKO_DISK_WARN_PERCENT: crit (${critPercent}) must be >= warn (${warnPercent})`);
+  } else {
+    disk.warnPercent = warnPercent;
+    disk.critPercent = critPercent;
+  }
+  cfg.heal.enabled = envBoolean(env, "LEUKO_HEAL_ENABLED", errors) ?? cfg.heal.enabled;
+  cfg.heal.dryRun = envBoolean(env, "LEUKO_HEAL_DRY_RUN", errors) ?? cfg.heal.dryRun;
+  for (const name of (env["LEUKO_DISABLE_CHECKS"] ?? "").split(",").map(s => s.trim()).filter(Boolean)) {
+    if ((CHECK_KEYS as ReadonlyArray<string>).includes(name)) cfg.checks[name as typeof CHECK_KEYS[number]].enabled = false;
+    else errors.push(`LEUKO_DISABLE_CHECKS: unknown check ${show(name)}`);
+  }
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+/** Read, validate and apply env overrides. A missing or unparseable file is reported, not thrown. */
+export function readDaemonConfig(configPath?: string, env: NodeJS.ProcessEnv = process.env): DaemonConfigResult {
+  const errors: string[] = [];
+  let raw: unknown = {};
+  if (configPath) {
+    const path = expandHome(configPath);
+    if (!existsSync(path)) {
+      errors.push(`${configPath}: file not found`);
+    } else {
+      try {
+        raw = JSON.parse(readFileSync(path, "utf-8"));
+      } catch (e) {
+        errors.push(`${configPath}: invalid JSON (${e instanceof Error ? e.message : String(e)})`);
+      }
+    }
+  }
+  const result = validateDaemonConfig(raw, env);
+  errors.push(...result.errors);
+  applyEnvOverrides(result.config, env, errors);
+  return { config: result.config, errors };
+}
+
+/** Fail-open loader for the daemon: problems are logged, the affected fields keep their defaults. */
+export function loadDaemonConfig(configPath?: string, env: NodeJS.ProcessEnv = process.env): DaemonConfig {
+  const { config, errors } = readDaemonConfig(configPath, env);
+  for (const e of errors) console.error(`[leuko-daemon] Config: ${e}`);
+  return config;
+}
+
+/** `--validate-config`: print problems and return the process exit code. */
+export function validateConfigCli(configPath?: string, env: NodeJS.ProcessEnv = process.env): number {
+  const { errors } = readDaemonConfig(configPath, env);
+  const source = configPath ?? "defaults";
+  if (errors.length === 0) {
+    console.log(`[leuko-daemon] Config OK (${source})`);
+    return 0;
+  }
+  console.error(`[leuko-daemon] ${errors.length} config problem(s) in ${source}:`);
+  for (const e of errors) console.error(`  - ${e}`);
+  return 1;
+}
@@ -0,0 +1,312 @@
+/**
+ * Leuko L1 Daemon — Disk usage
+ *
+ * Checks space and inode usage per filesystem (`df -P`), deduplicated by
+ * mount point, and projects days until full from usage samples kept in a
+ * sidecar file next to the status file.
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { execFileSync } from "node:child_process";
+
+import type { DaemonCheck, DaemonConfig, DiskMount, DiskUsageConfig } from "./types.js";
+
+const HOME = process.env["HOME"] ?? "/tmp";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_FILENAME = "leuko-disk-history.json";
+const MAX_SAMPLES = 1000;
+/** Samples must span at least this long before a projection is made */
+const MIN_PROJECTION_SPAN_MS = 60 * 60 * 1000;
+
+type Severity = DaemonCheck["severity"];
+
+export interface DfRow {
+  filesystem: string;
+  /** 1K blocks for `-k`, inodes for `-i` */
+  total: number;
+  used: number;
+  avail: number;
+  /** Use% as reported; null when the filesystem has no such figure (e.g. inodes on btrfs) */
+  percent: number | null;
+  mount: string;
+}
+
+export interface DiskSample {
+  timestamp: string;
+  /** Per mount point, in KB */
+  mounts: Record<string, { usedKb: number; availKb: number }>;
+}
+
+// ============================================================
+// Config
+// ============================================================
+
+export function defaultDiskUsageConfig(): DiskUsageConfig {
+  return {
+    enabled: true, warnPercent: 85, critPercent: 95, inodeWarnPercent: 85, inodeCritPercent: 95,
+    mounts: [], projectionWarnDays: 7, projectionCritDays: 2, projectionWindowHours: 72,
+  };
+}
+
+// ============================================================
+// df
+// ============================================================
+
+/** Parse POSIX `df -P` output (space or inodes). The mount point may contain spaces. */
+export function parseDfOutput(output: string): DfRow[] {
+  const rows: DfRow[] = [];
+  for (const line of output.split("\n").slice(1)) {
+    const m = line.match(/^(\S+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+%|-)\s+(.+)$/);
+    if (!m) continue;
+    rows.push({
+      filesystem: m[1]!,
+      total: Number(m[2]),
+      used: Number(m[3]),
+      avail: Number(m[4]),
+      percent: m[5] === "-" ? null : parseInt(m[5]!, 10),
+      mount: m[6]!.trim(),
+    });
+  }
+  return rows;
+}
+
+/** The filesystem row for one path; throws when df fails or reports nothing */
+function runDf(path: string, inodes: boolean): DfRow {
+  const output = execFileSync("df", ["-P", inodes ? "-i" : "-k", path], { timeout: 5000, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] });
+  const row = parseDfOutput(output)[0];
+  if (!row) throw new Error(`no df output for ${path}`);
+  return row;
+}
+
+// ============================================================
+// Paths
+// ============================================================
+
+function expand(path: string): string {
+  return resolve(path.replace(/^~/, HOME));
+}
+
+/** Nearest existing ancestor, so a not-yet-created dir still maps to its filesystem */
+function existingAncestor(path: string): string {
+  let p = path;
+  while (!existsSync(p)) {
+    const parent = dirname(p);
+    if (parent === p) break;
+    p = parent;
+  }
+  return p;
+}
+
+/** `checks.anomaly_detection.monitoredDirs[].path` from the L2 plugin's config file; none if unreadable */
+export function pluginMonitoredDirs(configPath: string): string[] {
+  try {
+    if (!existsSync(configPath)) return [];
+    const parsed = JSON.parse(readFileSync(configPath, "utf-8")) as { checks?: { anomaly_detection?: { monitoredDirs?: unknown } } } | null;
+    const dirs = parsed?.checks?.anomaly_detection?.monitoredDirs;
+    if (!Array.isArray(dirs)) return [];
+    return dirs
+      .map((d: unknown) => (typeof d === "object" && d !== null ? (d as { path?: unknown }).path : undefined))
+      .filter((p): p is string => typeof p === "string" && p !== "");
+  } catch {
+    return [];
+  }
+}
+
+/** Configured mounts, or the filesystems hosting the workspace, status file and monitored dirs */
+export function diskMounts(cfg: DaemonConfig): DiskMount[] {
+  if (cfg.checks.disk_usage.mounts.length > 0) return cfg.checks.disk_usage.mounts;
+  return [cfg.workspace, dirname(cfg.statusPath), ...pluginMonitoredDirs(cfg.pluginConfigPath)].map(path => ({ path }));
+}
+
+// ============================================================
+// Projection
+// ============================================================
+
+/**
+ * Days until `availKb` is used up at the least-squares growth rate of `points`
+ * (ms, usedKb). Null when usage isn't growing or there's too little data.
+ */
+export function projectDaysUntilFull(points: ReadonlyArray<[number, number]>, availKb: number): number | null {
+  if (points.length < 3) return null;
+  const xs = points.map(p => p[0] / DAY_MS);
+  const ys = points.map(p => p[1]);
+  const span = Math.max(...points.map(p => p[0])) - Math.min(...points.map(p => p[0]));
+  if (span < MIN_PROJECTION_SPAN_MS) return null;
+  const mx = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const my = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < xs.length; i++) {
+    num += (xs[i]! - mx) * (ys[i]! - my);
+    den += (xs[i]! - mx) ** 2;
+  }
+  const kbPerDay = den === 0 ? 0 : num / den;
+  return kbPerDay > 0 ? availKb / kbPerDay : null;
+}
+
+function samplePoints(history: DiskSample[], mount: string, sinceMs: number): Array<[number, number]> {
+  const points: Array<[number, number]> = [];
+  for (const s of history) {
+    const ts = new Date(s.timestamp).getTime();
+    const m = s.mounts[mount];
+    if (m && !isNaN(ts) && ts >= sinceMs) points.push([ts, m.usedKb]);
+  }
+  return points;
+}
+
+// ============================================================
+// Check
+// ============================================================
+
+function check(name: string, severity: Severity, detail: string): DaemonCheck {
+  return { check_name: name, severity, detail, auto_healed: false, timestamp: new Date().toISOString(), heal_action: null, heal_key: null };
+}
+
+function bySeverity(value: number, warn: number, crit: number): Severity {
+  if (value >= crit) return "critical";
+  return value >= warn ? "warn" : "ok";
+}
+
+function worst(a: Severity, b: Severity): Severity {
+  if (a === "critical" || b === "critical") return "critical";
+  return a === "warn" || b === "warn" ? "warn" : "ok";
+}
+
+function formatGb(kb: number): string {
+  return `${(kb / 1024 / 1024).toFixed(1)} GB`;
+}
+
+/** Strictest of the given optional thresholds, or the global one */
+function strictest(values: Array<number | undefined>, fallback: number): number {
+  const set = values.filter((v): v is number => v !== undefined);
+  return set.length > 0 ? Math.min(...set) : fallback;
+}
+
+function projectionSeverity(days: number | null, cfg: DiskUsageConfig): Severity {
+  if (days === null) return "ok";
+  if (cfg.projectionCritDays > 0 && days <= cfg.projectionCritDays) return "critical";
+  return cfg.projectionWarnDays > 0 && days <= cfg.projectionWarnDays ? "warn" : "ok";
+}
+
+interface MountUsage {
+  space: DfRow;
+  inodes: DfRow | null;
+  /** Configured entries that resolved to this filesystem */
+  entries: DiskMount[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { ok: 0, warn: 1, critical: 2 };
+
+/** `disk_usage`: the worst of the per-filesystem space checks, for consumers and heal actions keyed on that name */
+function aggregateUsage(space: DaemonCheck[]): DaemonCheck | null {
+  if (space.length === 0) return null;
+  const top = space.reduce((a, b) => (SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a));
+  const others = space.filter(c => c !== top && c.severity !== "ok").length;
+  return check("disk_usage", top.severity, others > 0 ? `${top.detail} (+${others} more)` : top.detail);
+}
+
+/**
+ * Space (`disk_usage:<mount>`) and inode (`disk_inodes:<mount>`) checks per
+ * filesystem, plus `disk_usage` for the worst of the space checks. Entries on
+ * the same filesystem share one check, using the strictest of their
+ * thresholds. A path df can't check gets its own `disk_usage:<path>` warning.
+ * Returns the checks and this run's sample.
+ */
+export function checkDiskUsage(
+  cfg: DiskUsageConfig,
+  mounts: DiskMount[],
+  history: DiskSample[] = [],
+  nowMs: number = Date.now(),
+): { checks: DaemonCheck[]; sample: DiskSample } {
+  const sample: DiskSample = { timestamp: new Date(nowMs).toISOString(), mounts: {} };
+  const checks: DaemonCheck[] = [];
+  const byMount = new Map<string, MountUsage>();
+
+  for (const m of mounts) {
+    const path = existingAncestor(expand(m.path));
+    let space: DfRow;
+    try {
+      space = runDf(path, false);
+    } catch {
+      checks.push(check(`disk_usage:${m.path}`, "warn", `Failed to check disk for ${m.path}`));
+      continue;
+    }
+    const usage = byMount.get(space.mount);
+    if (usage) {
+      usage.entries.push(m);
+      continue;
+    }
+    let inodes: DfRow | null = null;
+    try { inodes = runDf(path, true); } catch { /* inode figures unavailable */ }
+    byMount.set(space.mount, { space, inodes, entries: [m] });
+  }
+
+  for (const [mount, { space: row, inodes: inode, entries }] of byMount) {
+    const pct = row.percent ?? Math.ceil((row.used / Math.max(1, row.used + row.avail)) * 100);
+    sample.mounts[mount] = { usedKb: row.used, availKb: row.avail };
+
+    const points = [...samplePoints(history, mount, nowMs - cfg.projectionWindowHours * 60 * 60 * 1000), [nowMs, row.used] as [number, number]];
+    const days = projectDaysUntilFull(points, row.avail);
+    const warn = strictest(entries.map(e => e.warnPercent), cfg.warnPercent);
+    const crit = strictest(entries.map(e => e.critPercent), cfg.critPercent);
+    const severity = worst(bySeverity(pct, warn, crit), projectionSeverity(days, cfg));
+    const projection = days === null ? "" : `, full in ~${days < 10 ? days.toFixed(1) : Math.round(days)}d`;
+    checks.push(check(`disk_usage:${mount}`, severity, `Disk ${pct}% used on ${mount} (${formatGb(row.avail)} free${projection})`));
+
+    if (inode && inode.total > 0 && inode.percent !== null) {
+      const inodeWarn = strictest(entries.map(e => e.inodeWarnPercent), cfg.inodeWarnPercent);
+      const inodeCrit = strictest(entries.map(e => e.inodeCritPercent), cfg.inodeCritPercent);
+      checks.push(check(`disk_inodes:${mount}`, bySeverity(inode.percent, inodeWarn, inodeCrit), `Inodes ${inode.percent}% used on ${mount} (${inode.avail} free)`));
+    }
+  }
+  const aggregate = aggregateUsage(checks.filter(c => c.check_name.startsWith("disk_usage:")));
+  if (aggregate) checks.unshift(aggregate);
+  return { checks, sample };
+}
+
+// ============================================================
+// Sample history (sidecar file)
+// ============================================================
+
+export function diskHistoryPath(statusPath: string): string {
+  return join(dirname(statusPath), HISTORY_FILENAME);
+}
+
+export function readDiskHistory(path: string): DiskSample[] {
+  try {
+    if (!existsSync(path)) return [];
+    const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+    const samples = (parsed as { samples?: unknown } | null)?.samples;
+    return Array.isArray(samples)
+      ? samples.filter((s): s is DiskSample => typeof s?.timestamp === "string" && typeof s?.mounts === "object" && s.mounts !== null)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Keep samples within the projection window (capped), written atomically. Best effort. */
+function writeDiskHistory(path: string, samples: DiskSample[], windowHours: number, nowMs: number): void {
+  const cutoff = nowMs - windowHours * 60 * 60 * 1000;
+  const kept = samples.filter(s => new Date(s.timestamp).getTime() >= cutoff).slice(-MAX_SAMPLES);
+  try {
+    const tmp = `${path}.${process.pid}.l1tmp`;
+    writeFileSync(tmp, JSON.stringify({ samples: kept }) + "\n");
+    renameSync(tmp, path);
+  } catch (e) {
+    console.warn(`[leuko-daemon] Could not write disk history: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/** Run the disk checks for a daemon config and record this run's sample. */
+export function runDiskChecks(cfg: DaemonConfig, nowMs: number = Date.now()): DaemonCheck[] {
+  const disk = cfg.checks.disk_usage;
+  const historyPath = diskHistoryPath(cfg.statusPath);
+  const history = readDiskHistory(historyPath);
+  const { checks, sample } = checkDiskUsage(disk, diskMounts(cfg), history, nowMs);
+  if (Object.keys(sample.mounts).length > 0 && existsSync(dirname(historyPath))) {
+    writeDiskHistory(historyPath, [...history, sample], disk.projectionWindowHours, nowMs);
+  }
+  return checks;
+}
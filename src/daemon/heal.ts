@@ -0,0 +1,182 @@
+/**
+ * Leuko L1 Daemon — Auto-heal engine
+ *
+ * Maps failing daemon checks to configured heal actions (command, touch, prune),
+ * rate-limited per heal key by a cooldown and a max-attempts window.
+ * Every attempt is appended to auto_heal_history; the next run records
+ * whether the healed check passed afterwards.
+ */
+
+import { existsSync, readdirSync, lstatSync, unlinkSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { execFileSync } from "node:child_process";
+import { splitCommand } from "../collectors/custom.js";
+
+import type { DaemonCheck, HealAction, HealConfig, HealRecord } from "./types.js";
+
+const HOME = process.env["HOME"] ?? "/tmp";
+const DEFAULT_COMMAND_TIMEOUT_SEC = 60;
+const DEFAULT_PRUNE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Last logged skip reason per heal key, so watch mode logs a skip only when it changes */
+const skipReasons = new Map<string, string>();
+
+export function defaultHealConfig(): HealConfig {
+  return { enabled: false, dryRun: false, cooldownMin: 30, maxAttempts: 3, windowMin: 240, historyLimit: 200, actions: [] };
+}
+
+function matches(pattern: string, checkName: string): boolean {
+  return pattern.endsWith("*") ? checkName.startsWith(pattern.slice(0, -1)) : pattern === checkName;
+}
+
+function findAction(actions: HealAction[], checkName: string): HealAction | undefined {
+  return actions.find(a => matches(a.check, checkName));
+}
+
+function resolvePath(path: string): string {
+  return path.replace(/^~/, HOME);
+}
+
+function describe(action: HealAction): string {
+  switch (action.type) {
+    case "command": return `command: ${action.command ?? ""}`;
+    case "touch": return `touch: ${action.path ?? ""}`;
+    case "prune": return `prune: ${action.path ?? ""} (>${action.olderThanDays ?? DEFAULT_PRUNE_DAYS}d)`;
+  }
+}
+
+interface HealOutcome { success: boolean; detail: string }
+
+function runCommand(action: HealAction): HealOutcome {
+  const [file, ...args] = splitCommand(action.command ?? "");
+  if (file === undefined) return { success: false, detail: "No command configured" };
+  execFileSync(file, args, {
+    timeout: (action.timeoutSec ?? DEFAULT_COMMAND_TIMEOUT_SEC) * 1000,
+    stdio: "ignore",
+  });
+  return { success: true, detail: "Command exited 0" };
+}
+
+function touchFile(action: HealAction): HealOutcome {
+  if (!action.path) return { success: false, detail: "No path configured" };
+  const path = resolvePath(action.path);
+  if (!existsSync(path)) return { success: false, detail: `${path} not found` };
+  const t = new Date();
+  utimesSync(path, t, t);
+  return { success: true, detail: `Touched ${path}` };
+}
+
+/** Delete regular files (not directories or symlinks) older than olderThanDays — non-recursive. */
+function pruneDir(action: HealAction, nowMs: number): HealOutcome {
+  if (!action.path) return { success: false, detail: "No path configured" };
+  const dir = resolvePath(action.path);
+  if (!existsSync(dir)) return { success: false, detail: `${dir} not found` };
+  const cutoff = nowMs - (action.olderThanDays ?? DEFAULT_PRUNE_DAYS) * DAY_MS;
+  let removed = 0;
+  for (const name of readdirSync(dir)) {
+    const p = join(dir, name);
+    const st = lstatSync(p);
+    if (st.isFile() && st.mtimeMs < cutoff) {
+      unlinkSync(p);
+      removed++;
+    }
+  }
+  return { success: true, detail: `Removed ${removed} file(s) from ${dir}` };
+}
+
+function execute(action: HealAction, nowMs: number): HealOutcome {
+  try {
+    switch (action.type) {
+      case "command": return runCommand(action);
+      case "touch": return touchFile(action);
+      case "prune": return pruneDir(action, nowMs);
+    }
+  } catch (e) {
+    return { success: false, detail: e instanceof Error ? e.message.split("\n")[0] ?? e.message : String(e) };
+  }
+}
+
+/** Why an attempt for this key is currently not allowed, or null if it is. Dry runs don't count. */
+function rateLimited(history: HealRecord[], key: string, cfg: HealConfig, nowMs: number): string | null {
+  const attempts = history
+    .filter(h => h.heal_key === key && !h.dry_run)
+    .map(h => new Date(h.timestamp).getTime())
+    .filter(ts => !isNaN(ts));
+  const last = attempts.length > 0 ? Math.max(...attempts) : null;
+  if (last !== null && nowMs - last < cfg.cooldownMin * 60_000) return "cooldown";
+  const inWindow = attempts.filter(ts => nowMs - ts < cfg.windowMin * 60_000).length;
+  if (inWindow >= cfg.maxAttempts) return `max ${cfg.maxAttempts} attempts per ${cfg.windowMin}min reached`;
+  return null;
+}
+
+function isHealRecord(v: unknown): v is HealRecord {
+  return typeof v === "object" && v !== null
+    && typeof (v as Record<string, unknown>)["heal_key"] === "string"
+    && typeof (v as Record<string, unknown>)["check_name"] === "string";
+}
+
+/**
+ * Heal failing checks and extend the heal history.
+ *
+ * Mutates `checks` (auto_healed / heal_action / heal_key) and returns the new
+ * history: previous entries (with pending `next_check_passed` resolved against
+ * this run's checks) plus one record per attempt, capped at historyLimit.
+ */
+export function applyHealing(
+  checks: DaemonCheck[],
+  cfg: HealConfig,
+  previous: unknown[],
+  nowMs: number = Date.now(),
+): HealRecord[] {
+  const history = previous.filter(isHealRecord);
+
+  for (const h of history) {
+    if (h.next_check_passed !== null) continue;
+    const current = checks.find(c => c.check_name === h.check_name);
+    if (current) h.next_check_passed = current.severity === "ok";
+  }
+
+  const skipped = new Set<string>();
+  if (cfg.enabled) {
+    for (const c of checks) {
+      if (c.severity === "ok") continue;
+      const action = findAction(cfg.actions, c.check_name);
+      if (!action) continue;
+
+      const key = `${action.type}:${c.check_name}`;
+      const limited = rateLimited(history, key, cfg, nowMs);
+      if (limited) {
+        skipped.add(key);
+        if (skipReasons.get(key) !== limited) console.log(`[leuko-daemon] Heal skipped for ${c.check_name} (${limited})`);
+        skipReasons.set(key, limited);
+        continue;
+      }
+
+      const label = describe(action);
+      const outcome = cfg.dryRun
+        ? { success: true, detail: `Dry run — would ${label}` }
+        : execute(action, nowMs);
+      console.log(`[leuko-daemon] Heal ${c.check_name} → ${label}: ${outcome.success ? "ok" : "failed"} (${outcome.detail})`);
+
+      history.push({
+        timestamp: new Date(nowMs).toISOString(),
+        check_name: c.check_name,
+        heal_key: key,
+        action: label,
+        dry_run: cfg.dryRun,
+        success: outcome.success,
+        detail: outcome.detail,
+        next_check_passed: null,
+      });
+      c.auto_healed = outcome.success && !cfg.dryRun;
+      c.heal_action = label;
+      c.heal_key = key;
+    }
+  }
+
+  for (const key of skipReasons.keys()) {
+    if (!skipped.has(key)) skipReasons.delete(key);
+  }
+  return history.slice(Math.max(0, history.length - cfg.historyLimit));
+}
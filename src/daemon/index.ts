@@ -9,48 +9,23 @@
  *   npx @vainplex/openclaw-leuko daemon          # Run once
  *   npx @vainplex/openclaw-leuko daemon --watch   # Run every 15min
  *   npx @vainplex/openclaw-leuko daemon --config /path/to/config.json
+ *   npx @vainplex/openclaw-leuko daemon --validate-config [--config ...]
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync, statSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync, statSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { execFileSync } from "node:child_process";
 import { createConnection } from "node:net";
+import { withFileLock } from "../file-lock.js";
+import { applyHealing } from "./heal.js";
+import { checkDiskUsage, runDiskChecks } from "./disk.js";
+import { defaultConfig, loadDaemonConfig, validateConfigCli } from "./config.js";
 
-import type { DaemonCheck, StatusFile, DaemonConfig, FreshnessTarget, ServiceEndpoint } from "./types.js";
-export type { DaemonCheck, StatusFile, DaemonConfig, FreshnessTarget, ServiceEndpoint };
-
-// ============================================================
-// Defaults
-// ============================================================
+import type { DaemonCheck, StatusFile, DaemonConfig, FreshnessTarget, ServiceEndpoint, HealConfig, HealRecord } from "./types.js";
+export type { DaemonCheck, StatusFile, DaemonConfig, FreshnessTarget, ServiceEndpoint, HealConfig, HealRecord };
 
 const HOME = process.env["HOME"] ?? "/tmp";
 
-function defaultConfig(): DaemonConfig {
-  const candidates = [
-    process.env["OPENCLAW_WORKSPACE"],
-    join(HOME, "clawd"),
-    join(HOME, "workspace"),
-    HOME,
-  ].filter(Boolean) as string[];
-
-  const workspace = candidates.find(d =>
-    existsSync(join(d!, ".openclaw")) || existsSync(join(d!, "AGENTS.md"))
-  ) ?? HOME;
-
-  return {
-    statusPath: join(HOME, ".openclaw", "leuko-status.json"),
-    workspace,
-    watchIntervalMin: 15,
-    checks: {
-      file_freshness: { enabled: true, targets: [] },
-      service_health: { enabled: true, endpoints: [] },
-      disk_usage: { enabled: true, warnPercent: 85, critPercent: 95 },
-      gateway_alive: { enabled: true },
-      plugin_loading: { enabled: true },
-    },
-  };
-}
-
 // ============================================================
 // Helpers
 // ============================================================
@@ -133,24 +108,6 @@ function checkPluginLoading(): DaemonCheck {
   }
 }
 
-function checkDiskUsage(warnPct: number, critPct: number): DaemonCheck {
-  try {
-    const output = execFileSync("df", ["-h", "/"], { timeout: 5000, encoding: "utf-8" }).trim();
-    const lines = output.split("\n");
-    const lastLine = lines[lines.length - 1] ?? "";
-    const match = lastLine.match(/(\d+)%/);
-    if (match) {
-      const pct = parseInt(match[1]!, 10);
-      if (pct >= critPct) return check("disk_usage", "critical", `Disk ${pct}% full`);
-      if (pct >= warnPct) return check("disk_usage", "warn", `Disk ${pct}% full`);
-      return check("disk_usage", "ok", `Disk ${pct}% used`);
-    }
-    return check("disk_usage", "ok", "Could not parse disk usage");
-  } catch {
-    return check("disk_usage", "warn", "Failed to check disk");
-  }
-}
-
 /** TCP probe using Node.js net — no shell, no subprocess. */
 function tcpProbe(host: string, port: number, timeoutMs: number): Promise<boolean> {
   return new Promise((resolve) => {
@@ -236,7 +193,11 @@ function autoDiscoverFreshnessTargets(workspace: string): FreshnessTarget[] {
 // Core
 // ============================================================
 
-function runDaemon(cfg: DaemonConfig): StatusFile {
+/**
+ * Run all enabled checks, then heal failing ones.
+ * `previousHistory` is the auto_heal_history of the last written status.
+ */
+function runDaemon(cfg: DaemonConfig, previousHistory: unknown[] = []): StatusFile {
   const checks: DaemonCheck[] = [];
   const ft = cfg.checks.file_freshness;
   const targets = ft.targets.length > 0 ? ft.targets : autoDiscoverFreshnessTargets(cfg.workspace);
@@ -244,9 +205,7 @@ function runDaemon(cfg: DaemonConfig): StatusFile {
   if (ft.enabled && targets.length > 0) checks.push(...checkFileFreshness(targets));
   if (cfg.checks.gateway_alive.enabled) checks.push(checkGatewayAlive());
   if (cfg.checks.plugin_loading.enabled) checks.push(checkPluginLoading());
-  if (cfg.checks.disk_usage.enabled) {
-    checks.push(checkDiskUsage(cfg.checks.disk_usage.warnPercent, cfg.checks.disk_usage.critPercent));
-  }
+  if (cfg.checks.disk_usage.enabled) checks.push(...runDiskChecks(cfg));
   if (cfg.checks.service_health.enabled && cfg.checks.service_health.endpoints.length > 0) {
     checks.push(...checkServiceHealth(cfg.checks.service_health.endpoints));
   }
@@ -255,35 +214,67 @@ function runDaemon(cfg: DaemonConfig): StatusFile {
     last_check: now(),
     overall_severity: computeSeverity(checks),
     daemon_checks: checks,
-    cognitive_checks: [],
-    auto_heal_history: [],
+    auto_heal_history: applyHealing(checks, cfg.heal, previousHistory),
   };
 }
 
-function loadDaemonConfig(configPath?: string): DaemonConfig {
-  const cfg = defaultConfig();
-  if (!configPath || !existsSync(configPath)) return cfg;
+function readExistingStatus(path: string): Record<string, unknown> {
+  if (!existsSync(path)) return {};
   try {
-    const raw = JSON.parse(readFileSync(configPath, "utf-8"));
-    if (typeof raw.statusPath === "string") cfg.statusPath = raw.statusPath;
-    if (typeof raw.workspace === "string") cfg.workspace = raw.workspace;
-    if (typeof raw.watchIntervalMin === "number") cfg.watchIntervalMin = raw.watchIntervalMin;
-    if (Array.isArray(raw.checks?.file_freshness?.targets)) {
-      cfg.checks.file_freshness.targets = raw.checks.file_freshness.targets;
-    }
-    if (Array.isArray(raw.checks?.service_health?.endpoints)) {
-      cfg.checks.service_health.endpoints = raw.checks.service_health.endpoints;
+    const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
     }
   } catch {
-    console.error(`[leuko-daemon] Failed to parse config at ${configPath}`);
+    console.error(`[leuko-daemon] Could not read existing status at ${path} — L2 fields will be reset`);
+  }
+  return {};
+}
+
+/** Overall severity across both tiers: daemon checks + preserved L2 cognitive checks. */
+function mergedSeverity(daemonChecks: DaemonCheck[], cognitive: unknown, collectors: unknown): "ok" | "warn" | "critical" {
+  const severities = daemonChecks.map(c => c.severity as unknown);
+  if (Array.isArray(cognitive)) {
+    for (const c of cognitive) {
+      if (typeof c === "object" && c !== null) severities.push((c as Record<string, unknown>)["severity"]);
+    }
+  }
+  if (Array.isArray(collectors)) {
+    for (const c of collectors) {
+      if (typeof c === "object" && c !== null) severities.push((c as Record<string, unknown>)["status"]);
+    }
   }
-  return cfg;
+  if (severities.includes("critical")) return "critical";
+  return severities.includes("warn") ? "warn" : "ok";
 }
 
-function writeStatus(status: StatusFile, path: string): void {
+/**
+ * Atomic, merge-aware write of daemon results to leuko-status.json.
+ *
+ * Preserves L2 fields (cognitive_checks, cognitive_meta, sitrep_collectors)
+ * written by the plugin, and recomputes overall_severity across both tiers.
+ * The read-modify-write runs under the advisory lock shared with the plugin;
+ * uses write-to-tmp-then-rename for atomicity. Throws if the lock times out.
+ */
+function writeStatus(status: StatusFile, path: string, lockTimeoutMs?: number): void {
   const dir = dirname(path);
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  writeFileSync(path, JSON.stringify(status, null, 2) + "\n");
+
+  const onWarn = (msg: string) => console.warn(`[leuko-daemon] ${msg}`);
+  withFileLock(path, { timeoutMs: lockTimeoutMs, onWarn }, () => {
+    const existing = readExistingStatus(path);
+    const merged: Record<string, unknown> = {
+      ...existing,
+      last_check: status.last_check,
+      daemon_checks: status.daemon_checks,
+      auto_heal_history: status.auto_heal_history,
+    };
+    merged["overall_severity"] = mergedSeverity(status.daemon_checks, merged["cognitive_checks"], merged["sitrep_collectors"]);
+
+    const tmpPath = `${path}.${process.pid}.l1tmp`;
+    writeFileSync(tmpPath, JSON.stringify(merged, null, 2) + "\n");
+    renameSync(tmpPath, path);
+  });
 }
 
 // ============================================================
@@ -304,7 +295,11 @@ export {
 export function main(argv: string[] = process.argv.slice(2)): void {
   const watchMode = argv.includes("--watch");
   const configIdx = argv.indexOf("--config");
-  const configPath = configIdx >= 0 ? argv[configIdx + 1] : undefined;
+  const configPath = (configIdx >= 0 ? argv[configIdx + 1] : undefined) ?? process.env["LEUKO_DAEMON_CONFIG"];
+  if (argv.includes("--validate-config")) {
+    process.exitCode = validateConfigCli(configPath);
+    return;
+  }
   const cfg = loadDaemonConfig(configPath);
 
   cfg.watchIntervalMin = Math.max(1, Math.min(1440, cfg.watchIntervalMin));
@@ -314,8 +309,13 @@ export function main(argv: string[] = process.argv.slice(2)): void {
 
   function tick() {
     const t0 = Date.now();
-    const status = runDaemon(cfg);
-    writeStatus(status, cfg.statusPath);
+    const previous = readExistingStatus(cfg.statusPath)["auto_heal_history"];
+    const status = runDaemon(cfg, Array.isArray(previous) ? previous : []);
+    try {
+      writeStatus(status, cfg.statusPath, cfg.lockTimeoutMs);
+    } catch (e) {
+      console.error(`[leuko-daemon] Failed to write status: ${e instanceof Error ? e.message : String(e)}`);
+    }
     const ms = Date.now() - t0;
     const w = status.daemon_checks.filter(c => c.severity === "warn").length;
     const cr = status.daemon_checks.filter(c => c.severity === "critical").length;
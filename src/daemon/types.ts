@@ -14,21 +14,96 @@ export interface StatusFile {
   last_check: string;
   overall_severity: "ok" | "warn" | "critical";
   daemon_checks: DaemonCheck[];
-  cognitive_checks: never[];
-  auto_heal_history: never[];
+  auto_heal_history: HealRecord[];
+  /** L2 fields — owned by the plugin, preserved by the daemon writer */
+  cognitive_checks?: Array<{ severity?: unknown; [key: string]: unknown }>;
+  cognitive_meta?: Record<string, unknown>;
+  sitrep_collectors?: unknown[];
 }
 
 export interface DaemonConfig {
   statusPath: string;
   workspace: string;
   watchIntervalMin: number;
+  /** Max wait for the status-file lock shared with the L2 plugin */
+  lockTimeoutMs: number;
+  /** The L2 plugin's config file; its monitored dirs are disk-checked by default */
+  pluginConfigPath: string;
   checks: {
     file_freshness: { enabled: boolean; targets: FreshnessTarget[] };
     service_health: { enabled: boolean; endpoints: ServiceEndpoint[] };
-    disk_usage: { enabled: boolean; warnPercent: number; critPercent: number };
+    disk_usage: DiskUsageConfig;
     gateway_alive: { enabled: boolean };
     plugin_loading: { enabled: boolean };
   };
+  heal: HealConfig;
+}
+
+/** A filesystem to check, identified by any path on it; unset thresholds use the global ones */
+export interface DiskMount {
+  path: string;
+  warnPercent?: number;
+  critPercent?: number;
+  inodeWarnPercent?: number;
+  inodeCritPercent?: number;
+}
+
+export interface DiskUsageConfig {
+  enabled: boolean;
+  warnPercent: number;
+  critPercent: number;
+  inodeWarnPercent: number;
+  inodeCritPercent: number;
+  /** Empty = the filesystems hosting the workspace, the status file and the L2 monitored dirs */
+  mounts: DiskMount[];
+  /** Severity when the usage trend projects a full disk within this many days (0 = off) */
+  projectionWarnDays: number;
+  projectionCritDays: number;
+  /** Usage samples (kept next to the status file) the projection is fitted to */
+  projectionWindowHours: number;
+}
+
+export type HealActionType = "command" | "touch" | "prune";
+
+export interface HealAction {
+  /** Check name to heal; a trailing `*` matches by prefix (e.g. `freshness:*`) */
+  check: string;
+  type: HealActionType;
+  /** command: argv-split, executed without a shell */
+  command?: string;
+  /** touch: file to touch; prune: directory to prune */
+  path?: string;
+  /** prune: delete files older than this (default 7) */
+  olderThanDays?: number;
+  /** command: kill after this many seconds (default 60) */
+  timeoutSec?: number;
+}
+
+export interface HealConfig {
+  enabled: boolean;
+  /** Record what would be done without doing it */
+  dryRun: boolean;
+  /** Minimum minutes between attempts for the same heal key */
+  cooldownMin: number;
+  /** Max attempts per heal key within windowMin */
+  maxAttempts: number;
+  windowMin: number;
+  /** Oldest auto_heal_history entries are dropped beyond this */
+  historyLimit: number;
+  actions: HealAction[];
+}
+
+/** One entry of auto_heal_history */
+export interface HealRecord {
+  timestamp: string;
+  check_name: string;
+  heal_key: string;
+  action: string;
+  dry_run: boolean;
+  success: boolean;
+  detail: string;
+  /** Filled in by the next daemon run: did the check pass afterwards? */
+  next_check_passed: boolean | null;
 }
 
 export interface FreshnessTarget {
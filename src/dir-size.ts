@@ -0,0 +1,122 @@
+import { statSync, existsSync, readdirSync, type Dirent } from "node:fs";
+import { join } from "node:path";
+
+// ============================================================
+// Recursive directory sizing (CK-04)
+// ============================================================
+
+export interface DirScanOptions {
+  /** Directory levels below the root to descend into (0 = root files only) */
+  maxDepth: number;
+  /** Glob patterns relative to the root; a pattern without `/` matches any path segment */
+  exclude: ReadonlyArray<string>;
+  /** Epoch ms after which the scan stops and is reported incomplete */
+  deadlineMs: number;
+}
+
+export interface DirScanResult {
+  bytes: number;
+  files: number;
+  /** False when the time budget ran out — totals are then partial */
+  complete: boolean;
+  /** Directories not descended into because of maxDepth */
+  depthLimited: number;
+}
+
+/**
+ * Convert a glob to a RegExp matching a `/`-separated relative path:
+ * `**` spans directories, `*` and `?` stay within one segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += /[.+^${}()|[\]\\]/.test(ch) ? `\\${ch}` : ch;
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function compileExcludes(patterns: ReadonlyArray<string>): (relPath: string, name: string) => boolean {
+  const compiled = patterns
+    .filter((p) => p.trim() !== "")
+    .map((p) => {
+      const trimmed = p.replace(/^\/+|\/+$/g, "");
+      return { re: globToRegExp(trimmed), bySegment: !trimmed.includes("/") };
+    });
+  return (relPath, name) => compiled.some((c) => c.re.test(c.bySegment ? name : relPath));
+}
+
+/**
+ * Sum file sizes and counts below `root`.
+ *
+ * Symlinks are followed; directories are tracked by dev:inode so links back
+ * into the tree (or to each other) are visited once. Unreadable entries are skipped.
+ * Returns null when the root does not exist.
+ */
+export function scanDir(root: string, opts: DirScanOptions): DirScanResult | null {
+  if (!existsSync(root)) return null;
+  const isExcluded = compileExcludes(opts.exclude);
+  const result: DirScanResult = { bytes: 0, files: 0, complete: true, depthLimited: 0 };
+  const visited = new Set<string>();
+  const stack: Array<{ path: string; rel: string; depth: number }> = [{ path: root, rel: "", depth: 0 }];
+
+  const enter = (path: string): boolean => {
+    const st = statSync(path);
+    const key = `${st.dev}:${st.ino}`;
+    if (visited.has(key)) return false;
+    visited.add(key);
+    return true;
+  };
+
+  try {
+    enter(root);
+  } catch {
+    return null;
+  }
+
+  while (stack.length > 0) {
+    const dir = stack.pop()!;
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(dir.path, { withFileTypes: true });
+    } catch {
+      continue; // unreadable directory
+    }
+    for (const entry of entries) {
+      if (Date.now() > opts.deadlineMs) {
+        result.complete = false;
+        return result;
+      }
+      const path = join(dir.path, entry.name);
+      const rel = dir.rel === "" ? entry.name : `${dir.rel}/${entry.name}`;
+      if (isExcluded(rel, entry.name)) continue;
+      try {
+        // Dirents of symlinks are neither files nor directories — stat resolves the target
+        if (entry.isDirectory() || (!entry.isFile() && statSync(path).isDirectory())) {
+          if (dir.depth >= opts.maxDepth) {
+            result.depthLimited++;
+          } else if (enter(path)) {
+            stack.push({ path, rel, depth: dir.depth + 1 });
+          }
+          continue;
+        }
+        const st = statSync(path);
+        if (entry.isFile() || st.isFile()) {
+          result.bytes += st.size;
+          result.files++;
+        }
+      } catch { /* skip inaccessible or dangling */ }
+    }
+  }
+  return result;
+}
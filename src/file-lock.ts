@@ -0,0 +1,162 @@
+/**
+ * Advisory cross-process file lock — shared by the L1 daemon and the L2 plugin.
+ *
+ * Lock file `<target>.lock` is created with O_EXCL and holds the owner's PID,
+ * host and a random token. A lock is considered stale when its owner process
+ * is gone (same host) or it is older than `staleMs`; stale locks are broken
+ * with a warning. Zero dependencies beyond node:* so the daemon stays portable.
+ *
+ * `withFileLock` waits by blocking the thread and is meant for the daemon;
+ * the plugin runs inside the gateway and uses `withFileLockAsync`.
+ */
+
+import { openSync, writeSync, closeSync, readFileSync, unlinkSync, statSync } from "node:fs";
+import { hostname } from "node:os";
+import { randomBytes } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+const DEFAULT_STALE_MS = 30_000;
+const RETRY_MS = 25;
+
+export interface FileLockOpts {
+  /** How long to wait for a held lock before giving up */
+  timeoutMs?: number;
+  /** Age after which a lock is stale regardless of its owner */
+  staleMs?: number;
+  /** Called when a stale lock is broken */
+  onWarn?: (msg: string) => void;
+}
+
+interface LockInfo { pid: number; host: string; token: string; acquired_at: string }
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function readLock(lockPath: string): { raw: string; info: LockInfo | null } | null {
+  try {
+    const raw = readFileSync(lockPath, "utf-8");
+    try {
+      return { raw, info: JSON.parse(raw) as LockInfo };
+    } catch {
+      return { raw, info: null };
+    }
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function staleReason(lockPath: string, info: LockInfo | null, staleMs: number): string | null {
+  if (info && info.host === hostname() && Number.isInteger(info.pid) && !isProcessAlive(info.pid)) {
+    return `owner pid ${info.pid} is not running`;
+  }
+  try {
+    const ageMs = Date.now() - statSync(lockPath).mtimeMs;
+    if (ageMs > staleMs) return `held for ${Math.round(ageMs / 1000)}s${info ? ` by pid ${info.pid}` : ""}`;
+  } catch { /* vanished — next acquire attempt will succeed */ }
+  return null;
+}
+
+function tryAcquire(lockPath: string, info: LockInfo): boolean {
+  let fd: number;
+  try {
+    fd = openSync(lockPath, "wx");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw e;
+  }
+  try {
+    writeSync(fd, JSON.stringify(info));
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+}
+
+function release(lockPath: string, token: string): void {
+  const current = readLock(lockPath);
+  if (current?.info?.token !== token) return; // broken by someone else — not ours anymore
+  try { unlinkSync(lockPath); } catch { /* already gone */ }
+}
+
+interface PendingLock {
+  lockPath: string;
+  info: LockInfo;
+  timeoutMs: number;
+  staleMs: number;
+  deadline: number;
+}
+
+function pendingLock(targetPath: string, opts: FileLockOpts): PendingLock {
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  return {
+    lockPath: targetPath + ".lock",
+    info: {
+      pid: process.pid,
+      host: hostname(),
+      token: randomBytes(8).toString("hex"),
+      acquired_at: new Date().toISOString(),
+    },
+    timeoutMs,
+    staleMs: opts.staleMs ?? DEFAULT_STALE_MS,
+    deadline: Date.now() + timeoutMs,
+  };
+}
+
+/** Try to take the lock, breaking stale ones. False means wait and retry; throws past the deadline. */
+function attempt(lock: PendingLock, opts: FileLockOpts): boolean {
+  const { lockPath } = lock;
+  while (!tryAcquire(lockPath, lock.info)) {
+    const held = readLock(lockPath);
+    const reason = held ? staleReason(lockPath, held.info, lock.staleMs) : null;
+    // Only break the lock if it is still the one we inspected
+    if (held && reason && readLock(lockPath)?.raw === held.raw) {
+      opts.onWarn?.(`Breaking stale lock ${lockPath} (${reason})`);
+      try { unlinkSync(lockPath); } catch { /* raced with another breaker */ }
+      continue;
+    }
+    if (Date.now() >= lock.deadline) {
+      throw new Error(`Timed out after ${lock.timeoutMs}ms waiting for lock ${lockPath}`);
+    }
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Run `fn` while holding the advisory lock for `targetPath`, blocking the
+ * thread while waiting. Throws if the lock cannot be acquired within `timeoutMs`.
+ */
+export function withFileLock<T>(targetPath: string, opts: FileLockOpts, fn: () => T): T {
+  const lock = pendingLock(targetPath, opts);
+  while (!attempt(lock, opts)) sleepSync(RETRY_MS);
+  try {
+    return fn();
+  } finally {
+    release(lock.lockPath, lock.info.token);
+  }
+}
+
+/**
+ * `withFileLock` for callers that must not block the event loop: waits
+ * asynchronously between attempts. `fn` may return a promise.
+ */
+export async function withFileLockAsync<T>(targetPath: string, opts: FileLockOpts, fn: () => T | Promise<T>): Promise<T> {
+  const lock = pendingLock(targetPath, opts);
+  while (!attempt(lock, opts)) await sleep(RETRY_MS);
+  try {
+    return await fn();
+  } finally {
+    release(lock.lockPath, lock.info.token);
+  }
+}
@@ -0,0 +1,135 @@
+import { writeFileSync, renameSync, existsSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+  CognitiveCheckResult,
+  CognitiveMeta,
+  HistoryConfig,
+  HistorySnapshot,
+  LeukoConfig,
+  PluginLogger,
+  Severity,
+} from "./types.js";
+import { readHistoryFile, readJsonInput } from "./status-reader.js";
+import { extractGoals } from "./checks/goal-quality.js";
+import { extractThreads } from "./checks/thread-health.js";
+import { withFileLockAsync } from "./file-lock.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function countFacts(data: unknown): number | null {
+  if (Array.isArray(data)) return data.length;
+  if (typeof data === "object" && data !== null) {
+    const facts = (data as Record<string, unknown>)["facts"];
+    if (Array.isArray(facts)) return facts.length;
+  }
+  return null;
+}
+
+/**
+ * Count goals, threads and (optionally) facts from their source files.
+ * Missing or unreadable files are simply omitted.
+ */
+export function collectItemCounts(config: LeukoConfig, logger?: PluginLogger): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const goals = readJsonInput<unknown>(config.checks.goal_quality.inputPath, logger);
+  if (goals !== null) counts["goal_count"] = extractGoals(goals).length;
+  const threads = readJsonInput<unknown>(config.checks.thread_health.inputPath, logger);
+  if (threads !== null) counts["thread_count"] = extractThreads(threads).length;
+  if (config.history.factsPath) {
+    const facts = countFacts(readJsonInput<unknown>(config.history.factsPath, logger));
+    if (facts !== null) counts["fact_count"] = facts;
+  }
+  return counts;
+}
+
+/**
+ * Build a history snapshot from one L2 run.
+ *
+ * metrics = every check's baselines (e.g. `<label>_dir_mb`) + item counts and metric-source values + token usage and cost.
+ */
+export function buildHistorySnapshot(
+  results: ReadonlyArray<CognitiveCheckResult>,
+  meta: CognitiveMeta,
+  counts: Record<string, number>,
+): HistorySnapshot {
+  const metrics: Record<string, number> = {};
+  const severities: Record<string, Severity> = {};
+  for (const r of results) {
+    Object.assign(metrics, r.baselines ?? {});
+    severities[r.check_name] = r.severity;
+  }
+  Object.assign(metrics, counts);
+  metrics["total_tokens"] = meta.total_tokens;
+  metrics["total_cost_usd"] = meta.total_cost_usd;
+  metrics["total_duration_ms"] = meta.total_duration_ms;
+  return { timestamp: meta.last_run, metrics, severities };
+}
+
+/**
+ * Apply retention to a snapshot list (returned oldest → newest):
+ * drop entries older than maxAgeDays, keep only the latest snapshot per UTC day
+ * once older than downsampleAfterDays, then cap at maxSnapshots (newest kept).
+ */
+export function applyRetention(
+  snapshots: ReadonlyArray<HistorySnapshot>,
+  retention: HistoryConfig,
+  nowMs: number = Date.now(),
+): HistorySnapshot[] {
+  const maxAgeCutoff = nowMs - retention.maxAgeDays * DAY_MS;
+  const downsampleCutoff = nowMs - retention.downsampleAfterDays * DAY_MS;
+
+  const dated = snapshots
+    .map((s) => ({ s, ts: new Date(s.timestamp).getTime() }))
+    .filter((e) => !isNaN(e.ts) && e.ts >= maxAgeCutoff)
+    .sort((a, b) => a.ts - b.ts);
+
+  const utcDay = (ts: number): number => Math.floor(ts / DAY_MS);
+  const latestPerDay = new Map<number, number>();
+  dated.forEach((e, i) => {
+    if (e.ts < downsampleCutoff) latestPerDay.set(utcDay(e.ts), i);
+  });
+
+  const kept = dated
+    .filter((e, i) => e.ts >= downsampleCutoff || latestPerDay.get(utcDay(e.ts)) === i)
+    .map((e) => e.s);
+
+  return kept.slice(Math.max(0, kept.length - Math.max(1, retention.maxSnapshots)));
+}
+
+/**
+ * Append a snapshot to leuko-history.json with retention applied.
+ * Runs under the advisory file lock; uses write-to-tmp-then-rename for atomicity.
+ */
+export async function appendHistorySnapshot(
+  historyPath: string,
+  snapshot: HistorySnapshot,
+  retention: HistoryConfig,
+  logger?: PluginLogger,
+  lockTimeoutMs?: number,
+): Promise<boolean> {
+  try {
+    const dir = dirname(historyPath);
+    if (!existsSync(dir)) {
+      logger?.warn(`[leuko] History directory does not exist: ${dir}`);
+      return false;
+    }
+
+    const lockOpts = { timeoutMs: lockTimeoutMs, onWarn: (msg: string) => logger?.warn(`[leuko] ${msg}`) };
+    const snapshots = await withFileLockAsync(historyPath, lockOpts, () => {
+      const existing = readHistoryFile(historyPath, logger);
+      const kept = applyRetention([...(existing?.snapshots ?? []), snapshot], retention);
+      const tmpPath = `${historyPath}.${process.pid}.l2tmp`;
+      writeFileSync(tmpPath, JSON.stringify({ snapshots: kept }, null, 2) + "\n", "utf-8");
+      renameSync(tmpPath, historyPath);
+      return kept;
+    });
+
+    logger?.debug(`[leuko] History now holds ${snapshots.length} snapshot(s)`);
+    return true;
+  } catch (e) {
+    logger?.error(
+      `[leuko] Failed to write history: ${e instanceof Error ? e.message : String(e)}`,
+    );
+    return false;
+  }
+}
@@ -6,21 +6,35 @@
  * - `leuko_status` tool for agent health queries
  * - `before_agent_start` hook for health context injection
  * - `/leuko` command for interactive health queries
+ * - Background L2 scheduler (intervalMinutes, runTimeoutSec deadline)
+ * - Hot reload of the external config file
  * - Adopted Sitrep collectors (errors, custom)
  */
 
-import type { PluginApi, LeukoStatus, Severity, CognitiveCheckResult, CognitiveMeta, LeukoConfig, PluginLogger } from "./types.js";
-import { loadConfig } from "./config.js";
+import type { PluginApi, LeukoStatus, Severity, CognitiveCheckResult, CognitiveMeta, LeukoConfig, PluginLogger, SitrepCollectorResult } from "./types.js";
+import { loadConfig, type ConfigLoadResult } from "./config.js";
+import { formatIssue } from "./schema.js";
+import type { MigrationResult } from "./config-migrations.js";
+import { createConfigHolder, watchConfigFile, type ConfigHolder, type ConfigWatcher } from "./config-watcher.js";
 import { registerLeukoTool } from "./tool.js";
 import { readStatusFile, readHistoryFile } from "./status-reader.js";
 import { writeCognitiveResults } from "./status-writer.js";
-import { createLlmClient } from "./llm-client.js";
+import { appendHistorySnapshot, buildHistorySnapshot, collectItemCounts } from "./history-writer.js";
+import { runSitrepCollectors } from "./collector-runner.js";
+import { collectMetricSources } from "./metric-sources.js";
+import { createLlmClient, limitConcurrency } from "./llm-client.js";
+import { createBreakerRegistry, type BreakerRegistry } from "./circuit-breaker.js";
+import { createCostTracker, dailySpendUsd, resolvePricing } from "./pricing.js";
+import { executeTasks, type ExecutorTask } from "./check-executor.js";
+import { createNatsMonitorClient } from "./nats-client.js";
 import { runGoalQualityCheck } from "./checks/goal-quality.js";
 import { runThreadHealthCheck } from "./checks/thread-health.js";
 import { runPipelineCorrelationCheck } from "./checks/pipeline-correlation.js";
 import { runAnomalyDetectionCheck } from "./checks/anomaly-detection.js";
 import { runBootstrapIntegrityCheck } from "./checks/bootstrap-integrity.js";
 import { runRecommendationsCheck } from "./checks/recommendations.js";
+import { createScheduler, computeInitialDelay } from "./scheduler.js";
+import type { Scheduler } from "./scheduler.js";
 
 const PLUGIN_VERSION = "0.1.0";
 
@@ -34,6 +48,7 @@ function computeStatusSeverity(status: LeukoStatus): Severity {
   const allSeverities: Severity[] = [
     ...status.daemon_checks.map((c) => c.severity),
     ...(status.cognitive_checks ?? []).map((c) => c.severity),
+    ...(status.sitrep_collectors ?? []).map((c) => c.status),
   ];
   if (allSeverities.includes("critical")) return "critical";
   if (allSeverities.includes("warn")) return "warn";
@@ -57,54 +72,108 @@ function collectIssueNames(status: LeukoStatus): string[] {
   for (const c of status.cognitive_checks ?? []) {
     if (c.severity !== "ok") issues.push(`${c.check_name.replace("cognitive:", "")} (${c.severity})`);
   }
+  for (const c of status.sitrep_collectors ?? []) {
+    if (c.status !== "ok") issues.push(`${c.collector_name} (${c.status})`);
+  }
   return issues;
 }
 
 interface CheckRunContext {
   results: CognitiveCheckResult[];
   totalTokens: number;
+  totalCostUsd: number;
   checksFailed: number;
+  signal?: AbortSignal;
+}
+
+interface L2RunResult {
+  results: CognitiveCheckResult[];
+  meta: CognitiveMeta;
+  collectors?: SitrepCollectorResult[];
 }
 
+/** Run one check, logging and counting failures; resolves null when failed or aborted. */
 async function runCheck(
   ctx: CheckRunContext,
   label: string,
   fn: () => CognitiveCheckResult | Promise<CognitiveCheckResult>,
   logger: PluginLogger,
-): Promise<void> {
+): Promise<CognitiveCheckResult | null> {
+  if (ctx.signal?.aborted) return null;
   try {
-    const result = await fn();
-    ctx.results.push(result);
-    ctx.totalTokens += result.tokens_used ?? 0;
+    return await fn();
   } catch (e) {
     ctx.checksFailed++;
     logger.error(`[leuko] ${label} failed: ${e instanceof Error ? e.message : String(e)}`);
+    return null;
   }
 }
 
+/** Per-run inputs gathered before the checks start */
+interface RunInputs {
+  collectors: SitrepCollectorResult[];
+  /** This run's item counts and metric-source values */
+  metrics: Record<string, number>;
+}
+
+/**
+ * Run all enabled checks. Independent checks (CK-01..05) run concurrently up to
+ * `maxConcurrency`; recommendations (CK-06) waits for all of them.
+ * Results keep the fixed CK order regardless of completion order.
+ */
 async function runAllChecks(
   config: LeukoConfig,
   logger: PluginLogger,
-): Promise<{ results: CognitiveCheckResult[]; meta: CognitiveMeta }> {
+  signal?: AbortSignal,
+  inputs: RunInputs = { collectors: [], metrics: {} },
+  breakers?: BreakerRegistry,
+): Promise<L2RunResult> {
   const runStart = Date.now();
-  const ctx: CheckRunContext = { results: [], totalTokens: 0, checksFailed: 0 };
+  const ctx: CheckRunContext = { results: [], totalTokens: 0, totalCostUsd: 0, checksFailed: 0, signal };
 
   const status = readStatusFile(config.statusPath, logger);
   const history = readHistoryFile(config.historyPath, logger);
-  const llm = createLlmClient(config.llm.primary, config.llm.fallback, logger);
+  const cost = createCostTracker({
+    pricing: resolvePricing(config.llm.pricing),
+    priorDailyUsd: dailySpendUsd(history),
+  });
+  const llm = limitConcurrency(createLlmClient(config.llm, logger, signal, cost, breakers), config.maxConcurrency);
+
+  type Result = CognitiveCheckResult | null;
+  const tasks: ExecutorTask<Result>[] = [];
+  const add = (id: string, fn: (deps: Result[]) => CognitiveCheckResult | Promise<CognitiveCheckResult>, dependsOn?: string[]): void => {
+    tasks.push({ id, dependsOn, run: (deps) => runCheck(ctx, id, () => fn(deps), logger) });
+  };
 
   if (config.checks.goal_quality.enabled)
-    await runCheck(ctx, "CK-01", () => runGoalQualityCheck(config.checks.goal_quality, llm, logger), logger);
+    add("CK-01", () => runGoalQualityCheck(config.checks.goal_quality, llm, logger));
   if (config.checks.thread_health.enabled)
-    await runCheck(ctx, "CK-02", () => runThreadHealthCheck(config.checks.thread_health, llm, logger), logger);
+    add("CK-02", () => runThreadHealthCheck(config.checks.thread_health, llm, logger));
   if (config.checks.pipeline_correlation.enabled)
-    await runCheck(ctx, "CK-03", () => runPipelineCorrelationCheck(config.checks.pipeline_correlation, { threadsPath: config.checks.thread_health.inputPath, daemonChecks: status?.daemon_checks ?? [] }, logger), logger);
+    add("CK-03", () => runPipelineCorrelationCheck(config.checks.pipeline_correlation, {
+      threadsPath: config.checks.thread_health.inputPath,
+      daemonChecks: status?.daemon_checks ?? [],
+      nats: createNatsMonitorClient(config.nats, logger),
+      collectors: inputs.collectors,
+    }, logger));
   if (config.checks.anomaly_detection.enabled)
-    await runCheck(ctx, "CK-04", () => runAnomalyDetectionCheck(config.checks.anomaly_detection, history, logger), logger);
+    add("CK-04", () => runAnomalyDetectionCheck(
+      config.checks.anomaly_detection, history, logger, inputs.metrics, config.checks.pipeline_correlation.businessHours.tz,
+    ));
   if (config.checks.bootstrap_integrity.enabled)
-    await runCheck(ctx, "CK-05", () => runBootstrapIntegrityCheck(config.checks.bootstrap_integrity, llm, status, logger), logger);
-  if (config.checks.recommendations.enabled)
-    await runCheck(ctx, "CK-06", () => runRecommendationsCheck(config.checks.recommendations, llm, ctx.results, status, history, logger), logger);
+    add("CK-05", () => runBootstrapIntegrityCheck(config.checks.bootstrap_integrity, llm, status, logger));
+  if (config.checks.recommendations.enabled) {
+    const prior = tasks.map((t) => t.id);
+    add("CK-06", (deps) => runRecommendationsCheck(config.checks.recommendations, llm, deps.filter((r): r is CognitiveCheckResult => r !== null), status, history, logger), prior);
+  }
+
+  for (const outcome of await executeTasks(tasks, config.maxConcurrency)) {
+    const result = outcome.status === "fulfilled" ? outcome.value : null;
+    if (!result) continue;
+    ctx.results.push(result);
+    ctx.totalTokens += result.tokens_used ?? 0;
+    ctx.totalCostUsd += result.cost_usd ?? 0;
+  }
 
   trackConsecutiveCriticals(ctx.results, status);
 
@@ -114,8 +183,8 @@ async function runAllChecks(
       last_run: new Date().toISOString(),
       total_duration_ms: Date.now() - runStart,
       total_tokens: ctx.totalTokens,
-      total_cost_usd: 0,
-      model: `${config.llm.primary.provider}/${config.llm.primary.model}`,
+      total_cost_usd: Math.round(ctx.totalCostUsd * 1e6) / 1e6,
+      model: runModels(ctx.results, config),
       checks_completed: ctx.results.length,
       checks_failed: ctx.checksFailed,
       plugin_version: PLUGIN_VERSION,
@@ -123,6 +192,14 @@ async function runAllChecks(
   };
 }
 
+/** Models that served this run's checks, or the first configured provider when none did */
+function runModels(results: CognitiveCheckResult[], config: LeukoConfig): string {
+  const served = [...new Set(results.map((r) => r.model_used).filter((m): m is string => !!m && m !== "none"))];
+  if (served.length > 0) return served.join(", ");
+  const first = config.llm.providers[0];
+  return first ? `${first.provider}/${first.model}` : "none";
+}
+
 function trackConsecutiveCriticals(results: CognitiveCheckResult[], status: LeukoStatus | null): void {
   if (!status?.cognitive_checks) return;
   for (const result of results) {
@@ -137,15 +214,80 @@ function trackConsecutiveCriticals(results: CognitiveCheckResult[], status: Leuk
   }
 }
 
-function handleRefresh(config: LeukoConfig, logger: PluginLogger): () => Promise<{ text: string }> {
+/**
+ * One full L2 cycle: run collectors and all checks, then persist results and a history snapshot.
+ * Results of an aborted run (deadline or shutdown) are discarded, never written.
+ */
+async function runCycle(
+  config: LeukoConfig,
+  logger: PluginLogger,
+  signal?: AbortSignal,
+  breakers?: BreakerRegistry,
+): Promise<L2RunResult> {
+  const collectors = await runSitrepCollectors(config.adoptedCollectors, logger, signal);
+  const metrics = { ...collectItemCounts(config, logger), ...(await collectMetricSources(config.metrics, logger, signal)) };
+  const run = { ...(await runAllChecks(config, logger, signal, { collectors, metrics }, breakers)), collectors };
+  if (signal?.aborted) {
+    logger.warn("[leuko] L2 run aborted — results discarded");
+    return run;
+  }
+  const payload = { cognitive_checks: run.results, cognitive_meta: run.meta, sitrep_collectors: collectors };
+  await writeCognitiveResults(config.statusPath, payload, logger, { lockTimeoutMs: config.lockTimeoutMs });
+  const snapshot = buildHistorySnapshot(run.results, run.meta, metrics);
+  await appendHistorySnapshot(config.historyPath, snapshot, config.history, logger, config.lockTimeoutMs);
+  return run;
+}
+
+function handleRefresh(scheduler: Scheduler<L2RunResult>): () => Promise<{ text: string }> {
   return async () => {
-    const { results, meta } = await runAllChecks(config, logger);
-    writeCognitiveResults(config.statusPath, { cognitive_checks: results, cognitive_meta: meta }, logger);
+    const outcome = await scheduler.trigger();
+    if (outcome.status === "busy") return { text: "⚕️ Leuko L2 run already in progress — try again shortly" };
+    if (outcome.status === "timeout") return { text: "⚕️ Leuko L2 refresh exceeded runTimeoutSec — results discarded" };
+    if (outcome.status === "failed") return { text: `⚕️ Leuko L2 refresh failed: ${outcome.error}` };
+    const { results, meta } = outcome.value;
     const overall = computeOverallSeverity(results);
-    return { text: `⚕️ Leuko L2 refresh complete: ${overall.toUpperCase()} — ${results.length} checks (${meta.total_duration_ms}ms, ${meta.total_tokens} tokens)` };
+    return { text: `⚕️ Leuko L2 refresh complete: ${overall.toUpperCase()} — ${results.length} checks (${meta.total_duration_ms}ms, ${meta.total_tokens} tokens, $${meta.total_cost_usd.toFixed(4)})` };
   };
 }
 
+function schedulerTiming(config: LeukoConfig): { intervalMs: number; timeoutMs: number } {
+  return { intervalMs: config.intervalMinutes * 60 * 1000, timeoutMs: Math.max(1, config.runTimeoutSec) * 1000 };
+}
+
+function createL2Scheduler(holder: ConfigHolder, logger: PluginLogger): Scheduler<L2RunResult> {
+  const config = holder.current();
+  const { intervalMs, timeoutMs } = schedulerTiming(config);
+  const lastRun = readStatusFile(config.statusPath, logger)?.cognitive_meta?.last_run;
+  const breakers = createBreakerRegistry();
+  const scheduler = createScheduler({
+    intervalMs,
+    timeoutMs,
+    initialDelayMs: computeInitialDelay(lastRun, intervalMs),
+    run: (signal) => runCycle(holder.current(), logger, signal, breakers),
+    logger,
+  });
+  holder.onChange((next, previous) => {
+    if (next.intervalMinutes !== previous.intervalMinutes || next.runTimeoutSec !== previous.runTimeoutSec) {
+      scheduler.reconfigure(schedulerTiming(next));
+    }
+    if (next.enabled !== previous.enabled) logger.warn("[leuko] Changing `enabled` takes effect after a gateway restart");
+  });
+  return scheduler;
+}
+
+/** Start the scheduler and config watcher with the host's service lifecycle, or until gateway_stop */
+function startBackground(api: PluginApi, scheduler: Scheduler<L2RunResult>, startWatcher: () => ConfigWatcher | null): void {
+  let watcher: ConfigWatcher | null = null;
+  const start = () => { scheduler.start(); watcher ??= startWatcher(); };
+  const stop = () => { scheduler.stop(); watcher?.close(); watcher = null; };
+  if (api.registerService) {
+    api.registerService({ id: "leuko-scheduler", start, stop });
+    return;
+  }
+  start();
+  api.on("gateway_stop", stop);
+}
+
 function handleDetail(config: LeukoConfig, logger: PluginLogger): () => { text: string } {
   return () => {
     const status = readStatusFile(config.statusPath, logger);
@@ -157,10 +299,23 @@ function handleDetail(config: LeukoConfig, logger: PluginLogger): () => { text:
   };
 }
 
-function handleConfig(config: LeukoConfig): () => { text: string } {
-  return () => ({
-    text: `⚕️ Leuko Config:\n- Status: ${config.statusPath}\n- Interval: ${config.intervalMinutes}min\n- Model: ${config.llm.primary.provider}/${config.llm.primary.model}\n- Checks: ${Object.entries(config.checks).filter(([, v]) => v.enabled).map(([k]) => k).join(", ")}`,
-  });
+function handleConfig(config: LeukoConfig, migration?: MigrationResult): () => { text: string } {
+  return () => {
+    let text = `⚕️ Leuko Config:\n- Status: ${config.statusPath}\n- Interval: ${config.intervalMinutes}min\n- Models: ${config.llm.providers.map((p) => `${p.provider}/${p.model}`).join(" → ") || "none"}\n- Checks: ${Object.entries(config.checks).filter(([, v]) => v.enabled).map(([k]) => k).join(", ")}`;
+    if (migration) {
+      text += `\n- Migrated from v${migration.fromVersion} to v${migration.toVersion} when loaded:\n${migration.changes.map((c) => `  - ${c}`).join("\n")}`;
+    }
+    return { text };
+  };
+}
+
+function handleConfigValidate(loaded: ConfigLoadResult): () => { text: string } {
+  return () => {
+    const where = loaded.filePath ?? loaded.source;
+    if (loaded.issues.length === 0) return { text: `⚕️ Leuko Config: valid ✅ (${where})` };
+    const lines = loaded.issues.map((i) => `- ${formatIssue(i)}`);
+    return { text: `⚕️ Leuko Config: ${loaded.issues.length} issue(s) in ${where} (defaults used for these fields):\n${lines.join("\n")}` };
+  };
 }
 
 function handleDefault(config: LeukoConfig, logger: PluginLogger): () => { text: string } {
@@ -179,38 +334,48 @@ const plugin = {
   version: PLUGIN_VERSION,
 
   register(api: PluginApi): void {
-    const { config, source, filePath } = loadConfig(api.pluginConfig, api.logger);
+    const loaded = loadConfig(api.pluginConfig, api.logger);
+    const { config, source, filePath } = loaded;
     api.logger.info(`[leuko] Config loaded (source=${source}${filePath ? `, path=${filePath}` : ""})`);
     if (!config.enabled) { api.logger.info("[leuko] Disabled via config"); return; }
 
-    registerLeukoTool(api, config);
+    const holder = createConfigHolder(loaded);
+    registerLeukoTool(api, holder.current);
+
+    const scheduler = createL2Scheduler(holder, api.logger);
+    startBackground(api, scheduler, () =>
+      source === "file" && filePath ? watchConfigFile(filePath, holder, { pluginConfig: api.pluginConfig, logger: api.logger }) : null,
+    );
 
     api.registerCommand({
       name: "leuko",
       description: "Show system health summary from Leuko",
       handler: async (args?: Record<string, unknown>) => {
-        const sub = typeof args?.["_"] === "string" ? args["_"] : "";
-        if (sub === "refresh") return handleRefresh(config, api.logger)();
-        if (sub === "detail") return handleDetail(config, api.logger)();
-        if (sub === "config") return handleConfig(config)();
-        return handleDefault(config, api.logger)();
+        const [sub = "", action = ""] = (typeof args?.["_"] === "string" ? args["_"] : "").trim().split(/\s+/);
+        const current = holder.current();
+        if (sub === "refresh") return handleRefresh(scheduler)();
+        if (sub === "detail") return handleDetail(current, api.logger)();
+        if (sub === "config" && action === "validate") return handleConfigValidate(holder.loaded())();
+        if (sub === "config") return handleConfig(current, holder.loaded().migration)();
+        return handleDefault(current, api.logger)();
       },
     });
 
-    if (config.healthInjection.enabled) {
-      api.on("before_agent_start", () => {
-        const status = readStatusFile(config.statusPath, api.logger);
-        if (!status) return undefined;
-        const summary = buildHealthSummary(status, config.healthInjection.maxLength);
-        if (!summary && config.healthInjection.onlyOnIssues) return undefined;
-        return { prependContext: `⚕️ Leuko Health: ${summary || "All systems OK"}` };
-      });
-    }
+    api.on("before_agent_start", () => {
+      const current = holder.current();
+      if (!current.healthInjection.enabled) return undefined;
+      const status = readStatusFile(current.statusPath, api.logger);
+      if (!status) return undefined;
+      const summary = buildHealthSummary(status, current.healthInjection.maxLength);
+      if (!summary && current.healthInjection.onlyOnIssues) return undefined;
+      return { prependContext: `⚕️ Leuko Health: ${summary || "All systems OK"}` };
+    });
 
     const enabledChecks = Object.values(config.checks).filter((c) => c.enabled).length;
-    api.logger.info(`[leuko] Registered (${enabledChecks} checks enabled)`);
+    const schedule = config.intervalMinutes > 0 ? `every ${config.intervalMinutes}min` : "manual only";
+    api.logger.info(`[leuko] Registered (${enabledChecks} checks enabled, L2 ${schedule})`);
   },
 };
 
 export default plugin;
-export { runAllChecks, buildHealthSummary, computeOverallSeverity };
+export { runAllChecks, runCycle, buildHealthSummary, computeOverallSeverity };
@@ -1,41 +1,18 @@
 import { request as httpRequest } from "node:http";
 import { request as httpsRequest } from "node:https";
 import { URL } from "node:url";
-import type { LlmClient, LlmResponse, LlmProviderConfig, PluginLogger } from "./types.js";
-
-interface RawCompletion { content: string | null; tokens: number; error?: string }
-
-function buildEndpoint(baseUrl: string): string {
-  const base = baseUrl.replace(/\/+$/, "");
-  return base.endsWith("/v1") ? `${base}/chat/completions` : `${base}/v1/chat/completions`;
-}
-
-function buildRequestBody(model: string, system: string, user: string): string {
-  return JSON.stringify({
-    model,
-    messages: [{ role: "system", content: system }, { role: "user", content: user }],
-    temperature: 0.1,
-    max_tokens: 2048,
-    response_format: { type: "json_object" },
-  });
-}
-
-function parseCompletionResponse(data: string): RawCompletion {
-  const parsed: unknown = JSON.parse(data);
-  if (typeof parsed !== "object" || parsed === null) {
-    return { content: null, tokens: 0, error: "Invalid response structure" };
-  }
-  const obj = parsed as Record<string, unknown>;
-  const choices = obj["choices"];
-  if (!Array.isArray(choices) || choices.length === 0) {
-    return { content: null, tokens: 0, error: "Invalid response structure" };
-  }
-  const msg = (choices[0] as Record<string, unknown> | undefined)?.["message"];
-  const content = (msg as Record<string, unknown> | undefined)?.["content"];
-  const usage = obj["usage"] as Record<string, unknown> | undefined;
-  const tokens = typeof usage?.["total_tokens"] === "number" ? usage["total_tokens"] : 0;
-  return { content: typeof content === "string" ? content : null, tokens };
-}
+import type { LlmClient, LlmConfig, LlmResponse, LlmProviderConfig, LlmRetryConfig, PluginLogger } from "./types.js";
+import { budgetExceeded, isPaid, recordUsage, type CostTracker } from "./pricing.js";
+import { errorMessage, protocolFor, type RawCompletion } from "./llm-protocols.js";
+import {
+  createBreakerRegistry,
+  providerKey,
+  recordFailure,
+  recordSuccess,
+  releaseProbe,
+  tryAcquire,
+  type BreakerRegistry,
+} from "./circuit-breaker.js";
 
 function sendHttpRequest(
   config: LlmProviderConfig,
@@ -43,17 +20,23 @@ function sendHttpRequest(
   userPrompt: string,
   timeoutMs: number,
   logger: PluginLogger,
+  signal?: AbortSignal,
 ): Promise<RawCompletion> {
   return new Promise((resolve) => {
     const startMs = Date.now();
+    if (signal?.aborted) {
+      resolve({ content: null, tokens: 0, error: "Run aborted" });
+      return;
+    }
     try {
-      const url = new URL(buildEndpoint(config.baseUrl));
-      const body = buildRequestBody(config.model, systemPrompt, userPrompt);
+      const protocol = protocolFor(config.provider);
+      const url = new URL(protocol.endpoint(config.baseUrl));
+      const body = JSON.stringify(protocol.body(config.model, systemPrompt, userPrompt));
       const headers: Record<string, string> = {
         "Content-Type": "application/json",
         "Content-Length": String(Buffer.byteLength(body)),
+        ...protocol.headers(config),
       };
-      if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
 
       const proto = url.protocol === "https:" ? httpsRequest : httpRequest;
       const req = proto({
@@ -67,8 +50,13 @@ function sendHttpRequest(
         let data = "";
         res.on("data", (chunk: Buffer) => (data += chunk.toString()));
         res.on("end", () => {
-          try { resolve(parseCompletionResponse(data)); }
-          catch { resolve({ content: null, tokens: 0, error: "Failed to parse LLM response JSON" }); }
+          const status = res.statusCode ?? 0;
+          if (status >= 400) {
+            resolve({ content: null, tokens: 0, status, error: errorMessage(status, data) });
+            return;
+          }
+          try { resolve({ ...protocol.parse(data), status }); }
+          catch { resolve({ content: null, tokens: 0, status, error: "Failed to parse LLM response JSON" }); }
         });
       });
       req.on("error", (err: Error) => {
@@ -81,6 +69,14 @@ function sendHttpRequest(
         logger.debug(`[leuko-llm] Timeout after ${elapsed}ms`);
         resolve({ content: null, tokens: 0, error: `Timeout after ${elapsed}ms` });
       });
+      if (signal) {
+        const onAbort = (): void => {
+          req.destroy();
+          resolve({ content: null, tokens: 0, error: "Run aborted" });
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        req.on("close", () => signal.removeEventListener("abort", onAbort));
+      }
       req.write(body);
       req.end();
     } catch (err) {
@@ -89,38 +85,152 @@ function sendHttpRequest(
   });
 }
 
+function success(
+  raw: RawCompletion,
+  config: LlmProviderConfig,
+  startMs: number,
+  cost: CostTracker | undefined,
+  logger: PluginLogger,
+): LlmResponse {
+  const promptTokens = raw.promptTokens ?? 0;
+  const completionTokens = raw.completionTokens ?? 0;
+  return {
+    content: raw.content,
+    model: `${config.provider}/${config.model}`,
+    tokens: raw.tokens,
+    promptTokens,
+    completionTokens,
+    costUsd: cost ? recordUsage(cost, config, promptTokens, completionTokens, logger) : 0,
+    durationMs: Date.now() - startMs,
+  };
+}
+
+function isTransient(status: number | undefined): boolean {
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/** One provider call, retried with exponential backoff on HTTP 429 / 5xx */
+async function sendWithRetry(
+  config: LlmProviderConfig,
+  systemPrompt: string,
+  userPrompt: string,
+  timeoutMs: number,
+  retry: LlmRetryConfig,
+  logger: PluginLogger,
+  signal?: AbortSignal,
+): Promise<RawCompletion> {
+  for (let attempt = 0; ; attempt++) {
+    const raw = await sendHttpRequest(config, systemPrompt, userPrompt, timeoutMs, logger, signal);
+    if (raw.content !== null || !isTransient(raw.status) || attempt >= retry.maxRetries || signal?.aborted) return raw;
+    const delayMs = retry.backoffMs * 2 ** attempt;
+    logger.debug(`[leuko-llm] ${config.provider}/${config.model}: ${raw.error ?? "failed"} — retry ${attempt + 1}/${retry.maxRetries} in ${delayMs}ms`);
+    await sleep(delayMs, signal);
+  }
+}
+
+function failure(startMs: number, error: string): LlmResponse {
+  return { content: null, model: "none", tokens: 0, durationMs: Date.now() - startMs, error };
+}
+
 /**
- * Creates an LlmClient that tries the primary provider first,
- * then falls back to the fallback provider.
+ * Creates an LlmClient that tries `llm.providers` in order until one
+ * returns a completion; `model` names the provider that served it.
+ *
+ * Transient errors are retried per `llm.retry`. Providers whose circuit
+ * in `breakers` is open are skipped without a request — pass the same
+ * registry to every run so the state outlives it.
+ * When `signal` is aborted, in-flight requests are destroyed and
+ * further calls fail immediately without contacting any provider.
+ * With a `cost` tracker, every completion is priced and a paid provider
+ * is skipped once the run's or the day's budget is exhausted.
  */
 export function createLlmClient(
-  primary: LlmProviderConfig,
-  fallback: LlmProviderConfig,
+  llm: Pick<LlmConfig, "providers" | "circuitBreaker" | "retry">,
   logger: PluginLogger,
+  signal?: AbortSignal,
+  cost?: CostTracker,
+  breakers: BreakerRegistry = createBreakerRegistry(),
 ): LlmClient {
   return {
     async generate(systemPrompt, userPrompt, timeoutMs): Promise<LlmResponse> {
       const startMs = Date.now();
+      const errors: string[] = [];
 
-      const prim = await sendHttpRequest(primary, systemPrompt, userPrompt, timeoutMs, logger);
-      if (prim.content !== null) {
-        return { content: prim.content, model: `${primary.provider}/${primary.model}`, tokens: prim.tokens, durationMs: Date.now() - startMs };
-      }
+      for (const [i, provider] of llm.providers.entries()) {
+        if (signal?.aborted) return failure(startMs, "Run aborted");
+        const label = `${provider.provider}/${provider.model}`;
+        const next = i < llm.providers.length - 1 ? " — trying next provider" : "";
+
+        const exhausted = cost && isPaid(cost.pricing, provider) ? budgetExceeded(cost, provider) : null;
+        if (exhausted) {
+          logger.warn(`[leuko-llm] ${label} skipped (${exhausted})${next}`);
+          errors.push(`${label}: skipped — ${exhausted}`);
+          continue;
+        }
+        const key = providerKey(provider);
+        if (!tryAcquire(breakers, key, llm.circuitBreaker)) {
+          logger.debug(`[leuko-llm] ${label} skipped (circuit open)`);
+          errors.push(`${label}: circuit open`);
+          continue;
+        }
 
-      logger.warn(`[leuko-llm] Primary (${primary.provider}/${primary.model}) failed: ${prim.error ?? "unknown"} — trying fallback`);
-      const fb = await sendHttpRequest(fallback, systemPrompt, userPrompt, timeoutMs, logger);
-      if (fb.content !== null) {
-        return { content: fb.content, model: `${fallback.provider}/${fallback.model}`, tokens: fb.tokens, durationMs: Date.now() - startMs };
+        const raw = await sendWithRetry(provider, systemPrompt, userPrompt, timeoutMs ?? provider.timeoutSec * 1000, llm.retry, logger, signal);
+        if (raw.content !== null) {
+          recordSuccess(breakers, key, logger);
+          return success(raw, provider, startMs, cost, logger);
+        }
+        if (signal?.aborted) {
+          releaseProbe(breakers, key);
+          return failure(startMs, "Run aborted");
+        }
+        recordFailure(breakers, key, llm.circuitBreaker, Date.now(), logger);
+        logger.warn(`[leuko-llm] ${label} failed: ${raw.error ?? "empty response"}${next}`);
+        errors.push(`${label}: ${raw.error ?? "empty response"}`);
       }
 
-      logger.warn(`[leuko-llm] Fallback (${fallback.provider}/${fallback.model}) also failed: ${fb.error ?? "unknown"}`);
-      return {
-        content: null,
-        model: `${primary.provider}/${primary.model}`,
-        tokens: 0,
-        durationMs: Date.now() - startMs,
-        error: `Both providers failed. Primary: ${prim.error ?? "unknown"}; Fallback: ${fb.error ?? "unknown"}`,
-      };
+      if (errors.length === 0) return failure(startMs, "No LLM providers configured");
+      return failure(startMs, `All providers failed. ${errors.join("; ")}`);
+    },
+  };
+}
+
+/**
+ * Wrap a client so at most `max` generate() calls are in flight; the rest
+ * wait in FIFO order. Shared by all checks of a run, so chunked checks
+ * don't multiply the load on a local model.
+ */
+export function limitConcurrency(client: LlmClient, max: number): LlmClient {
+  const limit = Math.max(1, Math.floor(max));
+  const waiting: Array<() => void> = [];
+  let running = 0;
+
+  const release = (): void => {
+    const next = waiting.shift();
+    if (next) next();
+    else running--;
+  };
+
+  return {
+    async generate(systemPrompt, userPrompt, timeoutMs): Promise<LlmResponse> {
+      if (running < limit) running++;
+      else await new Promise<void>((resolve) => waiting.push(resolve));
+      try {
+        return await client.generate(systemPrompt, userPrompt, timeoutMs);
+      } finally {
+        release();
+      }
     },
   };
 }
@@ -0,0 +1,161 @@
+import type { LlmProviderConfig } from "./types.js";
+import { isRecord } from "./check-utils.js";
+
+// ============================================================
+// LLM wire protocols — one adapter per API shape
+// ============================================================
+
+export interface RawCompletion {
+  content: string | null;
+  tokens: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  error?: string;
+  /** HTTP status of the response, when one was received */
+  status?: number;
+}
+
+export interface LlmProtocol {
+  readonly name: "openai" | "ollama" | "anthropic";
+  endpoint(baseUrl: string): string;
+  headers(config: LlmProviderConfig): Record<string, string>;
+  body(model: string, system: string, user: string): unknown;
+  /** Normalize a successful response body; throws on invalid JSON */
+  parse(data: string): RawCompletion;
+}
+
+const TEMPERATURE = 0.1;
+const MAX_TOKENS = 2048;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+function trimBase(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, "");
+}
+
+function v1(baseUrl: string, path: string): string {
+  const base = trimBase(baseUrl);
+  return base.endsWith("/v1") ? `${base}/${path}` : `${base}/v1/${path}`;
+}
+
+function num(obj: Record<string, unknown> | undefined, key: string): number | undefined {
+  return typeof obj?.[key] === "number" ? obj[key] : undefined;
+}
+
+function completion(content: unknown, promptTokens: number, completionTokens: number, total?: number): RawCompletion {
+  return {
+    content: typeof content === "string" ? content : null,
+    tokens: total ?? promptTokens + completionTokens,
+    promptTokens,
+    completionTokens,
+  };
+}
+
+function bearer(config: LlmProviderConfig): Record<string, string> {
+  return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+}
+
+const INVALID: RawCompletion = { content: null, tokens: 0, error: "Invalid response structure" };
+
+/** OpenAI-compatible `/v1/chat/completions` (LiteLLM, OpenAI, OpenRouter, vLLM, ...) */
+export const openaiProtocol: LlmProtocol = {
+  name: "openai",
+  endpoint: (baseUrl) => v1(baseUrl, "chat/completions"),
+  headers: bearer,
+  body: (model, system, user) => ({
+    model,
+    messages: [{ role: "system", content: system }, { role: "user", content: user }],
+    temperature: TEMPERATURE,
+    max_tokens: MAX_TOKENS,
+    response_format: { type: "json_object" },
+  }),
+  parse(data) {
+    const parsed: unknown = JSON.parse(data);
+    if (!isRecord(parsed)) return INVALID;
+    const choices = parsed["choices"];
+    if (!Array.isArray(choices) || choices.length === 0) return INVALID;
+    const msg = (choices[0] as Record<string, unknown> | undefined)?.["message"];
+    const usage = isRecord(parsed["usage"]) ? parsed["usage"] : undefined;
+    return completion(
+      (msg as Record<string, unknown> | undefined)?.["content"],
+      num(usage, "prompt_tokens") ?? 0,
+      num(usage, "completion_tokens") ?? 0,
+      num(usage, "total_tokens"),
+    );
+  },
+};
+
+/**
+ * Ollama's native `/api/chat`, non-streaming, with `format: "json"`.
+ * A trailing `/v1` (the OpenAI-compatible base earlier releases used) is dropped.
+ */
+export const ollamaProtocol: LlmProtocol = {
+  name: "ollama",
+  endpoint: (baseUrl) => `${trimBase(baseUrl).replace(/\/v1$/, "")}/api/chat`,
+  headers: bearer,
+  body: (model, system, user) => ({
+    model,
+    messages: [{ role: "system", content: system }, { role: "user", content: user }],
+    stream: false,
+    format: "json",
+    options: { temperature: TEMPERATURE, num_predict: MAX_TOKENS },
+  }),
+  parse(data) {
+    const parsed: unknown = JSON.parse(data);
+    if (!isRecord(parsed) || !isRecord(parsed["message"])) return INVALID;
+    return completion(parsed["message"]["content"], num(parsed, "prompt_eval_count") ?? 0, num(parsed, "eval_count") ?? 0);
+  },
+};
+
+/** Anthropic Messages API `/v1/messages`; text blocks are concatenated */
+export const anthropicProtocol: LlmProtocol = {
+  name: "anthropic",
+  endpoint: (baseUrl) => v1(baseUrl, "messages"),
+  headers: (config) => ({
+    "anthropic-version": ANTHROPIC_VERSION,
+    ...(config.apiKey ? { "x-api-key": config.apiKey } : {}),
+  }),
+  body: (model, system, user) => ({
+    model,
+    system,
+    messages: [{ role: "user", content: user }],
+    temperature: TEMPERATURE,
+    max_tokens: MAX_TOKENS,
+  }),
+  parse(data) {
+    const parsed: unknown = JSON.parse(data);
+    if (!isRecord(parsed) || !Array.isArray(parsed["content"])) return INVALID;
+    const text = (parsed["content"] as unknown[])
+      .filter((b): b is Record<string, unknown> => isRecord(b) && b["type"] === "text" && typeof b["text"] === "string")
+      .map((b) => b["text"] as string);
+    const usage = isRecord(parsed["usage"]) ? parsed["usage"] : undefined;
+    return completion(
+      text.length > 0 ? text.join("") : null,
+      num(usage, "input_tokens") ?? 0,
+      num(usage, "output_tokens") ?? 0,
+    );
+  },
+};
+
+/** Adapter for `config.provider`; unknown providers are assumed OpenAI-compatible */
+export function protocolFor(provider: string): LlmProtocol {
+  switch (provider.toLowerCase()) {
+    case "ollama": return ollamaProtocol;
+    case "anthropic": return anthropicProtocol;
+    default: return openaiProtocol;
+  }
+}
+
+/**
+ * Error message from a non-2xx body: `{ error: "..." }` (Ollama),
+ * `{ error: { message } }` (OpenAI, Anthropic) or the raw text.
+ */
+export function errorMessage(status: number, data: string): string {
+  let detail = data.trim().slice(0, 200);
+  try {
+    const parsed: unknown = JSON.parse(data);
+    const err = isRecord(parsed) ? parsed["error"] : undefined;
+    if (typeof err === "string") detail = err;
+    else if (isRecord(err) && typeof err["message"] === "string") detail = err["message"];
+  } catch { /* not JSON — keep the raw text */ }
+  return detail ? `HTTP ${status}: ${detail}` : `HTTP ${status}`;
+}
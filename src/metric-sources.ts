@@ -0,0 +1,96 @@
+import { readFileSync } from "node:fs";
+import type { MetricSource, PluginLogger } from "./types.js";
+import { readJsonInput } from "./status-reader.js";
+import { expandHome, isRecord } from "./check-utils.js";
+import { errorMessage, execCommand, parseCollectorOutput, splitCommand } from "./collectors/custom.js";
+
+// ============================================================
+// Metric sources — numeric extractors feeding history
+// ============================================================
+
+const DEFAULT_TIMEOUT_SEC = 10;
+
+/** Follow a dot path (`a.b.0.c`) into parsed JSON; undefined when a segment is missing */
+export function resolveJsonPath(data: unknown, path: string): unknown {
+  let node = data;
+  for (const key of path.split(".").filter((k) => k !== "")) {
+    if (Array.isArray(node)) node = node[Number(key)];
+    else if (isRecord(node)) node = node[key];
+    else return undefined;
+  }
+  return node;
+}
+
+/** Arrays count their elements, objects their keys, numbers are taken as-is */
+export function countJsonNode(node: unknown): number | null {
+  if (Array.isArray(node)) return node.length;
+  if (isRecord(node)) return Object.keys(node).length;
+  if (typeof node === "number" && Number.isFinite(node)) return node;
+  return null;
+}
+
+function jsonCount(source: MetricSource, logger: PluginLogger): number | null {
+  const data = readJsonInput<unknown>(expandHome(source.path ?? ""), logger);
+  return data === null ? null : countJsonNode(resolveJsonPath(data, source.jsonPath ?? ""));
+}
+
+/** Non-empty lines */
+function lineCount(source: MetricSource): number {
+  const text = readFileSync(expandHome(source.path ?? ""), "utf-8");
+  return text.split("\n").filter((line) => line.trim() !== "").length;
+}
+
+function run(file: string, args: string[], source: MetricSource, signal?: AbortSignal): Promise<string> {
+  return execCommand(file, args, (source.timeoutSec ?? DEFAULT_TIMEOUT_SEC) * 1000, signal);
+}
+
+/** Via the sqlite3 CLI, read-only; the first column of the first row is the value */
+async function sqliteValue(source: MetricSource, signal?: AbortSignal): Promise<number | null> {
+  if (!source.query) return null;
+  const out = await run("sqlite3", ["-readonly", "-batch", "-noheader", "-list", expandHome(source.path ?? ""), source.query], source, signal);
+  const first = out.split("\n")[0]?.split("|")[0]?.trim() ?? "";
+  const value = Number(first);
+  return first !== "" && Number.isFinite(value) ? value : null;
+}
+
+async function commandValue(source: MetricSource, signal?: AbortSignal): Promise<number | null> {
+  const [file, ...args] = splitCommand(source.command ?? "");
+  if (file === undefined) return null;
+  return parseCollectorOutput(await run(file, args, source, signal))?.value ?? null;
+}
+
+async function extract(source: MetricSource, logger: PluginLogger, signal?: AbortSignal): Promise<number | null> {
+  switch (source.type) {
+    case "json_count": return jsonCount(source, logger);
+    case "line_count": return lineCount(source);
+    case "sqlite": return sqliteValue(source, signal);
+    case "command": return commandValue(source, signal);
+  }
+}
+
+/**
+ * Evaluate all configured metric sources, one after another. A source that
+ * fails or yields no number is omitted from this run's metrics (logged),
+ * never fatal. Commands are killed and the rest skipped once `signal` aborts.
+ */
+export async function collectMetricSources(
+  sources: ReadonlyArray<MetricSource>,
+  logger: PluginLogger,
+  signal?: AbortSignal,
+): Promise<Record<string, number>> {
+  const metrics: Record<string, number> = {};
+  for (const source of sources) {
+    if (signal?.aborted) break;
+    try {
+      const value = await extract(source, logger, signal);
+      if (value === null) {
+        logger.warn(`[leuko] Metric ${source.name}: no numeric value from ${source.type} source`);
+        continue;
+      }
+      metrics[source.name] = value;
+    } catch (e) {
+      logger.warn(`[leuko] Metric ${source.name} failed: ${errorMessage(e)}`);
+    }
+  }
+  return metrics;
+}
@@ -0,0 +1,171 @@
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { URL } from "node:url";
+import type { NatsConfig, PluginLogger } from "./types.js";
+import { isRecord } from "./check-utils.js";
+
+// ============================================================
+// NATS JetStream monitoring client (HTTP /jsz)
+// ============================================================
+
+export interface NatsConsumerInfo {
+  name: string;
+  /** Messages matching the consumer's filter not yet delivered */
+  num_pending: number;
+  /** Delivered but not yet acknowledged */
+  num_ack_pending: number;
+  num_redelivered: number;
+  num_waiting: number;
+  delivered_stream_seq: number;
+  ack_floor_stream_seq: number;
+  last_active: string | null;
+  /** Undelivered + unacknowledged messages */
+  lag: number;
+}
+
+export interface NatsStreamInfo {
+  name: string;
+  messages: number;
+  bytes: number;
+  first_seq: number;
+  last_seq: number;
+  last_ts: string | null;
+  /** Retention limits from the stream config (-1 / 0 = unlimited) */
+  max_msgs: number;
+  max_bytes: number;
+  consumers: NatsConsumerInfo[];
+}
+
+export interface NatsMonitorClient {
+  /** All streams across accounts; throws when the monitoring endpoint is unreachable */
+  getStreams(): Promise<NatsStreamInfo[]>;
+  /** One stream by name, or null if it does not exist */
+  getStream(name: string): Promise<NatsStreamInfo | null>;
+}
+
+const JSZ_QUERY = "accounts=true&streams=true&consumers=true&config=true";
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+function num(v: unknown): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : 0;
+}
+
+function strOrNull(v: unknown): string | null {
+  return typeof v === "string" && v !== "" && !v.startsWith("0001-01-01") ? v : null;
+}
+
+function rec(v: unknown): Record<string, unknown> {
+  return isRecord(v) ? v : {};
+}
+
+function parseConsumer(raw: unknown): NatsConsumerInfo | null {
+  if (!isRecord(raw) || typeof raw["name"] !== "string") return null;
+  const delivered = rec(raw["delivered"]);
+  const ackFloor = rec(raw["ack_floor"]);
+  const pending = num(raw["num_pending"]);
+  const ackPending = num(raw["num_ack_pending"]);
+  return {
+    name: raw["name"],
+    num_pending: pending,
+    num_ack_pending: ackPending,
+    num_redelivered: num(raw["num_redelivered"]),
+    num_waiting: num(raw["num_waiting"]),
+    delivered_stream_seq: num(delivered["stream_seq"]),
+    ack_floor_stream_seq: num(ackFloor["stream_seq"]),
+    last_active: strOrNull(delivered["last_active"]),
+    lag: pending + ackPending,
+  };
+}
+
+function parseStream(raw: unknown): NatsStreamInfo | null {
+  if (!isRecord(raw) || typeof raw["name"] !== "string") return null;
+  const state = rec(raw["state"]);
+  const config = rec(raw["config"]);
+  const consumers = Array.isArray(raw["consumer_detail"]) ? (raw["consumer_detail"] as unknown[]) : [];
+  return {
+    name: raw["name"],
+    messages: num(state["messages"]),
+    bytes: num(state["bytes"]),
+    first_seq: num(state["first_seq"]),
+    last_seq: num(state["last_seq"]),
+    last_ts: strOrNull(state["last_ts"]),
+    max_msgs: typeof config["max_msgs"] === "number" ? config["max_msgs"] : -1,
+    max_bytes: typeof config["max_bytes"] === "number" ? config["max_bytes"] : -1,
+    consumers: consumers.map(parseConsumer).filter((c): c is NatsConsumerInfo => c !== null),
+  };
+}
+
+/** Extract streams from a /jsz response (all accounts). */
+export function parseJsz(data: unknown): NatsStreamInfo[] {
+  const accounts = isRecord(data) && Array.isArray(data["account_details"]) ? (data["account_details"] as unknown[]) : [];
+  const streams: NatsStreamInfo[] = [];
+  for (const acc of accounts) {
+    const details = isRecord(acc) && Array.isArray(acc["stream_detail"]) ? (acc["stream_detail"] as unknown[]) : [];
+    for (const s of details) {
+      const parsed = parseStream(s);
+      if (parsed) streams.push(parsed);
+    }
+  }
+  return streams;
+}
+
+function authHeaders(config: NatsConfig): Record<string, string> {
+  if (config.token) return { Authorization: `Bearer ${config.token}` };
+  if (config.user) {
+    const basic = Buffer.from(`${config.user}:${config.password ?? ""}`).toString("base64");
+    return { Authorization: `Basic ${basic}` };
+  }
+  return {};
+}
+
+function fetchJson(url: URL, headers: Record<string, string>, timeoutMs: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const proto = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const req = proto(url, { method: "GET", headers: { Accept: "application/json", ...headers }, timeout: timeoutMs }, (res) => {
+      let data = "";
+      let size = 0;
+      res.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_RESPONSE_BYTES) {
+          req.destroy(new Error(`Response exceeded ${MAX_RESPONSE_BYTES} bytes`));
+          return;
+        }
+        data += chunk.toString();
+      });
+      res.on("end", () => {
+        if ((res.statusCode ?? 0) >= 400) {
+          reject(new Error(`HTTP ${res.statusCode ?? "?"} from ${url.pathname}`));
+          return;
+        }
+        try { resolve(JSON.parse(data)); }
+        catch { reject(new Error("Invalid JSON from NATS monitoring endpoint")); }
+      });
+    });
+    req.on("timeout", () => req.destroy(new Error(`Timeout after ${timeoutMs}ms`)));
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/**
+ * Client for the NATS server's HTTP monitoring endpoint (`/jsz`).
+ * No CLI and no NATS client library required.
+ */
+export function createNatsMonitorClient(config: NatsConfig, logger: PluginLogger): NatsMonitorClient {
+  const base = config.monitorUrl.replace(/\/+$/, "");
+
+  async function getStreams(): Promise<NatsStreamInfo[]> {
+    const url = new URL(`${base}/jsz?${JSZ_QUERY}`);
+    const data = await fetchJson(url, authHeaders(config), config.timeoutMs);
+    const streams = parseJsz(data);
+    logger.debug(`[leuko] NATS monitoring: ${streams.length} stream(s) at ${base}`);
+    return streams;
+  }
+
+  return {
+    getStreams,
+    async getStream(name) {
+      return (await getStreams()).find((s) => s.name === name) ?? null;
+    },
+  };
+}
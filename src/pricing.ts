@@ -0,0 +1,97 @@
+import type { LeukoHistory, LlmProviderConfig, ModelPrice, PluginLogger } from "./types.js";
+
+/** USD per 1M tokens, keyed by `provider/model`, bare `model` or `provider/*` */
+export type PricingTable = Record<string, ModelPrice>;
+
+/**
+ * Built-in prices — list prices at time of writing.
+ * Override or extend via `llm.pricing` in the plugin config.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  "ollama/*": { promptPerMTok: 0, completionPerMTok: 0 },
+  "gemini/gemini-2.0-flash-lite": { promptPerMTok: 0.075, completionPerMTok: 0.3 },
+  "gemini/gemini-2.0-flash": { promptPerMTok: 0.1, completionPerMTok: 0.4 },
+  "gpt-4o-mini": { promptPerMTok: 0.15, completionPerMTok: 0.6 },
+  "gpt-4o": { promptPerMTok: 2.5, completionPerMTok: 10 },
+};
+
+export function resolvePricing(overrides: PricingTable = {}): PricingTable {
+  return { ...DEFAULT_PRICING, ...overrides };
+}
+
+/**
+ * Look up the price for a provider/model: exact `provider/model` first,
+ * then the bare model (e.g. a LiteLLM-proxied `gemini/...`), then `provider/*`.
+ */
+export function lookupPrice(pricing: PricingTable, provider: string, model: string): ModelPrice | null {
+  return pricing[`${provider}/${model}`] ?? pricing[model] ?? pricing[`${provider}/*`] ?? null;
+}
+
+export function computeCostUsd(price: ModelPrice | null, promptTokens: number, completionTokens: number): number {
+  if (!price) return 0;
+  return (promptTokens * price.promptPerMTok + completionTokens * price.completionPerMTok) / 1_000_000;
+}
+
+export function isPaid(pricing: PricingTable, config: LlmProviderConfig): boolean {
+  const price = lookupPrice(pricing, config.provider, config.model);
+  return price !== null && (price.promptPerMTok > 0 || price.completionPerMTok > 0);
+}
+
+/** Sum of `total_cost_usd` over history snapshots taken on the same UTC day as `nowMs` */
+export function dailySpendUsd(history: LeukoHistory | null, nowMs: number = Date.now()): number {
+  const today = new Date(nowMs).toISOString().slice(0, 10);
+  let total = 0;
+  for (const s of history?.snapshots ?? []) {
+    if (s.timestamp.slice(0, 10) === today) total += s.metrics["total_cost_usd"] ?? 0;
+  }
+  return total;
+}
+
+// ============================================================
+// Cost tracking (one per L2 run)
+// ============================================================
+
+/** Spend is chain-wide: every provider's completions count toward it */
+export interface CostTracker {
+  pricing: PricingTable;
+  /** Spent so far in this run, across all providers */
+  runSpentUsd: number;
+  /** Spent today before this run started, across all providers */
+  priorDailyUsd: number;
+}
+
+export function createCostTracker(opts: Omit<CostTracker, "runSpentUsd">): CostTracker {
+  return { ...opts, runSpentUsd: 0 };
+}
+
+/**
+ * Why further calls to `provider` are refused, or null while within budget.
+ * Its `maxCostUsd` / `maxDailyCostUsd` cap the chain-wide spend: a paid
+ * fallback is not called once the run or day has spent that much in total.
+ */
+export function budgetExceeded(tracker: CostTracker, provider: LlmProviderConfig): string | null {
+  const { maxCostUsd: maxRunUsd, maxDailyCostUsd: maxDailyUsd } = provider;
+  if (maxRunUsd !== undefined && tracker.runSpentUsd >= maxRunUsd) {
+    return `run budget $${maxRunUsd.toFixed(4)} exhausted`;
+  }
+  const daily = tracker.priorDailyUsd + tracker.runSpentUsd;
+  if (maxDailyUsd !== undefined && daily >= maxDailyUsd) {
+    return `daily budget $${maxDailyUsd.toFixed(4)} exhausted`;
+  }
+  return null;
+}
+
+/** Price a completed call and add it to the tracker. Unpriced models count as $0. */
+export function recordUsage(
+  tracker: CostTracker,
+  config: LlmProviderConfig,
+  promptTokens: number,
+  completionTokens: number,
+  logger?: PluginLogger,
+): number {
+  const price = lookupPrice(tracker.pricing, config.provider, config.model);
+  if (!price) logger?.debug(`[leuko] No pricing for ${config.provider}/${config.model} — cost counted as $0`);
+  const cost = computeCostUsd(price, promptTokens, completionTokens);
+  tracker.runSpentUsd += cost;
+  return cost;
+}
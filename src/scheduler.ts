@@ -0,0 +1,132 @@
+import type { PluginLogger } from "./types.js";
+
+/** Grace period after plugin start before the first scheduled run. */
+export const STARTUP_DELAY_MS = 60_000;
+
+export interface SchedulerOpts<T> {
+  /** Time between scheduled runs; <= 0 disables scheduled runs (manual only) */
+  intervalMs: number;
+  /** Hard deadline for a single run; the run's AbortSignal fires when exceeded */
+  timeoutMs: number;
+  /** Delay before the first scheduled run (default: intervalMs) */
+  initialDelayMs?: number;
+  /** The work to perform; must stop side effects once the signal is aborted */
+  run(signal: AbortSignal): Promise<T>;
+  logger: PluginLogger;
+}
+
+export type RunOutcome<T> =
+  | { status: "completed"; value: T }
+  | { status: "timeout" }
+  | { status: "busy" }
+  | { status: "failed"; error: string };
+
+export interface Scheduler<T> {
+  /** Start the timer loop (idempotent) */
+  start(): void;
+  /** Stop the timer loop and abort an in-flight run */
+  stop(): void;
+  /** Run immediately unless a run is already in flight */
+  trigger(): Promise<RunOutcome<T>>;
+  /**
+   * Change the interval and/or deadline. A pending timer is re-armed with the
+   * new interval; a run in flight keeps the deadline it started with.
+   */
+  reconfigure(update: { intervalMs?: number; timeoutMs?: number }): void;
+  isRunning(): boolean;
+}
+
+/**
+ * Compute the delay before the first scheduled run, so a gateway restart
+ * doesn't re-run L2 checks that completed recently.
+ */
+export function computeInitialDelay(lastRun: string | undefined, intervalMs: number, nowMs: number = Date.now()): number {
+  const lastMs = lastRun ? new Date(lastRun).getTime() : NaN;
+  if (isNaN(lastMs)) return STARTUP_DELAY_MS;
+  return Math.max(STARTUP_DELAY_MS, lastMs + intervalMs - nowMs);
+}
+
+/**
+ * Creates a single-flight scheduler: runs never overlap, each run is bounded
+ * by timeoutMs, and stop() abandons whatever is in flight.
+ */
+export function createScheduler<T>(opts: SchedulerOpts<T>): Scheduler<T> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let started = false;
+  let inFlight: Promise<RunOutcome<T>> | null = null;
+  let controller: AbortController | null = null;
+  let intervalMs = opts.intervalMs;
+  let timeoutMs = opts.timeoutMs;
+  let ticking = false;
+
+  function schedule(delayMs: number): void {
+    if (!started || intervalMs <= 0) return;
+    timer = setTimeout(() => void tick(), delayMs);
+    timer.unref();
+  }
+
+  async function tick(): Promise<void> {
+    timer = null;
+    ticking = true;
+    const outcome = await trigger();
+    ticking = false;
+    if (outcome.status === "busy") opts.logger.debug("[leuko] Scheduled L2 run skipped — previous run still in flight");
+    if (outcome.status === "failed") opts.logger.error(`[leuko] Scheduled L2 run failed: ${outcome.error}`);
+    schedule(intervalMs);
+  }
+
+  function withDeadline(run: Promise<RunOutcome<T>>, ctrl: AbortController, limitMs: number): Promise<RunOutcome<T>> {
+    let deadline: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<RunOutcome<T>>((resolve) => {
+      deadline = setTimeout(() => {
+        ctrl.abort();
+        opts.logger.warn(`[leuko] L2 run exceeded ${Math.round(limitMs / 1000)}s deadline — abandoned`);
+        resolve({ status: "timeout" });
+      }, limitMs);
+      deadline.unref();
+    });
+    return Promise.race([run, expired]).finally(() => clearTimeout(deadline));
+  }
+
+  function trigger(): Promise<RunOutcome<T>> {
+    if (inFlight) return Promise.resolve({ status: "busy" });
+    const ctrl = new AbortController();
+    controller = ctrl;
+    const run = opts.run(ctrl.signal).then(
+      (value): RunOutcome<T> => ({ status: "completed", value }),
+      (e: unknown): RunOutcome<T> => ({ status: "failed", error: e instanceof Error ? e.message : String(e) }),
+    );
+    // inFlight clears only when the underlying run settles — an abandoned run still blocks overlap
+    inFlight = run.finally(() => {
+      inFlight = null;
+      if (controller === ctrl) controller = null;
+    });
+    return withDeadline(run, ctrl, timeoutMs);
+  }
+
+  return {
+    start() {
+      if (started) return;
+      started = true;
+      schedule(opts.initialDelayMs ?? opts.intervalMs);
+    },
+    stop() {
+      started = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      controller?.abort();
+    },
+    trigger,
+    reconfigure(update) {
+      if (update.timeoutMs !== undefined) timeoutMs = update.timeoutMs;
+      if (update.intervalMs === undefined || update.intervalMs === intervalMs) return;
+      intervalMs = update.intervalMs;
+      if (!started) return;
+      // A scheduled run in flight re-arms itself with the new interval when it finishes
+      if (timer) clearTimeout(timer);
+      timer = null;
+      if (!ticking) schedule(intervalMs);
+    },
+    isRunning: () => inFlight !== null,
+  };
+}
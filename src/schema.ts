@@ -0,0 +1,157 @@
+// ============================================================
+// Minimal JSON Schema validator
+// ============================================================
+//
+// Covers the subset the plugin config schema uses: type, properties,
+// required, additionalProperties, items, enum, minimum/maximum,
+// exclusiveMinimum, minLength, pattern and anyOf. Schemas stay plain JSON
+// so the same object can be published in openclaw.plugin.json.
+
+export type SchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: SchemaType | SchemaType[];
+  description?: string;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false = unknown keys are reported; a schema validates every unlisted key */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+}
+
+export interface SchemaIssue {
+  /** Dot path to the offending value, e.g. `checks.thread_health.staleDays` or `metrics[0].type` */
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, type: SchemaType | SchemaType[] | undefined): boolean {
+  if (type === undefined) return true;
+  const actual = typeOf(value);
+  const types = Array.isArray(type) ? type : [type];
+  return types.includes(actual) || (actual === "integer" && types.includes("number"));
+}
+
+function show(value: unknown): string {
+  const s = JSON.stringify(value) ?? String(value);
+  return s.length > 40 ? `${s.slice(0, 37)}...` : s;
+}
+
+function child(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path === "" ? key : `${path}.${key}`;
+}
+
+function validateAnyOf(branches: JsonSchema[], value: unknown, path: string): SchemaIssue[] {
+  let best: SchemaIssue[] | null = null;
+  for (const branch of branches) {
+    if (!matchesType(value, branch.type)) continue;
+    const issues = validateSchema(branch, value, path);
+    if (issues.length === 0) return [];
+    if (best === null || issues.length < best.length) best = issues;
+  }
+  if (best !== null) return best;
+  const expected = branches.map((b) => b.enum ? b.enum.map(show).join(" | ") : [b.type ?? "any"].flat().join(" | "));
+  return [{ path, message: `expected ${expected.join(" | ")}, got ${show(value)}` }];
+}
+
+function validateObject(schema: JsonSchema, value: Record<string, unknown>, path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) issues.push({ path: child(path, key), message: "required" });
+  }
+  for (const [key, v] of Object.entries(value)) {
+    const prop = schema.properties?.[key];
+    if (prop) {
+      issues.push(...validateSchema(prop, v, child(path, key)));
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: child(path, key), message: "unknown field" });
+    } else if (typeof schema.additionalProperties === "object") {
+      issues.push(...validateSchema(schema.additionalProperties, v, child(path, key)));
+    }
+  }
+  return issues;
+}
+
+/** Validate `value` against `schema`; every problem is reported with its path. */
+export function validateSchema(schema: JsonSchema, value: unknown, path = ""): SchemaIssue[] {
+  if (schema.anyOf) return validateAnyOf(schema.anyOf, value, path);
+  if (!matchesType(value, schema.type)) {
+    return [{ path, message: `expected ${[schema.type].flat().join(" or ")}, got ${typeOf(value)} ${show(value)}` }];
+  }
+  if (schema.enum && !schema.enum.some((e) => e === value)) {
+    return [{ path, message: `must be one of ${schema.enum.map(show).join(", ")}, got ${show(value)}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path, message: `must be >= ${schema.minimum}, got ${value}` });
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path, message: `must be <= ${schema.maximum}, got ${value}` });
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `must be > ${schema.exclusiveMinimum}, got ${value}` });
+    }
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}, got ${show(value)}` });
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => issues.push(...validateSchema(schema.items!, item, child(path, i))));
+  }
+  if (typeOf(value) === "object" && (schema.properties || schema.additionalProperties !== undefined || schema.required)) {
+    issues.push(...validateObject(schema, value as Record<string, unknown>, path));
+  }
+  return issues;
+}
+
+/**
+ * Copy of `value` without the parts `schema` rejects: invalid object fields are
+ * removed and invalid array items dropped, so a resolver reading the result
+ * falls back to its defaults exactly where `validateSchema` reports an issue.
+ * Returns undefined when `value` itself is invalid.
+ */
+export function pruneInvalid(schema: JsonSchema, value: unknown): unknown {
+  if (schema.anyOf || !matchesType(value, schema.type)) {
+    return validateSchema(schema, value).length === 0 ? value : undefined;
+  }
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value
+      .map((item) => pruneInvalid(items, item))
+      .filter((item) => item !== undefined && validateSchema(items, item).length === 0);
+  }
+  if (typeOf(value) === "object" && (schema.properties || schema.additionalProperties !== undefined)) {
+    const kept: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      const prop = schema.properties?.[key]
+        ?? (typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined);
+      const pruned = prop ? pruneInvalid(prop, v) : schema.additionalProperties === false ? undefined : v;
+      if (pruned !== undefined) kept[key] = pruned;
+    }
+    return kept;
+  }
+  return validateSchema(schema, value).length === 0 ? value : undefined;
+}
+
+export function formatIssue(issue: SchemaIssue): string {
+  return `${issue.path || "(root)"}: ${issue.message}`;
+}
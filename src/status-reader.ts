@@ -131,6 +131,11 @@ export function readHistoryFile(path: string, logger?: PluginLogger): LeukoHisto
                   ),
                 )
               : {},
+            severities: isRecord(s["severities"])
+              ? Object.fromEntries(
+                  Object.entries(s["severities"]).map(([k, v]) => [k, parseSeverity(v)]),
+                )
+              : undefined,
           }))
       : [];
     return { snapshots };
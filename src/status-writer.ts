@@ -6,7 +6,8 @@ import type {
   SitrepCollectorResult,
   PluginLogger,
 } from "./types.js";
-import { isRecord } from "./check-utils.js";
+import { isRecord, parseSeverityString, worstSeverity } from "./check-utils.js";
+import { withFileLockAsync } from "./file-lock.js";
 
 export interface WritePayload {
   cognitive_checks: CognitiveCheckResult[];
@@ -14,53 +15,74 @@ export interface WritePayload {
   sitrep_collectors?: SitrepCollectorResult[];
 }
 
+function readExisting(statusPath: string, logger?: PluginLogger): Record<string, unknown> {
+  if (!existsSync(statusPath)) return {};
+  try {
+    const content = readFileSync(statusPath, "utf-8");
+    const parsed: unknown = JSON.parse(content);
+    if (isRecord(parsed)) return parsed;
+  } catch {
+    logger?.warn("[leuko] Could not read existing status file — will overwrite cognitive fields only");
+  }
+  return {};
+}
+
+export interface WriteOpts {
+  /** How long to wait for the shared status-file lock (default 5000ms) */
+  lockTimeoutMs?: number;
+}
+
 /**
  * Atomic write of cognitive check results to leuko-status.json.
  *
- * Preserves daemon_checks and auto_heal_history (L1 fields).
- * Uses write-to-tmp-then-rename for atomicity.
+ * Preserves daemon_checks and auto_heal_history (L1 fields) and
+ * recomputes overall_severity across both tiers.
+ * The read-modify-write runs under the advisory lock shared with the L1 daemon;
+ * uses write-to-tmp-then-rename for atomicity.
  */
-export function writeCognitiveResults(
+export async function writeCognitiveResults(
   statusPath: string,
   payload: WritePayload,
   logger?: PluginLogger,
-): boolean {
+  opts: WriteOpts = {},
+): Promise<boolean> {
   try {
-    // Read existing status to preserve daemon fields
-    let existing: Record<string, unknown> = {};
-    if (existsSync(statusPath)) {
-      try {
-        const content = readFileSync(statusPath, "utf-8");
-        const parsed: unknown = JSON.parse(content);
-        if (isRecord(parsed)) {
-          existing = parsed;
-        }
-      } catch {
-        logger?.warn("[leuko] Could not read existing status file — will overwrite cognitive fields only");
-      }
-    }
-
-    // Merge: preserve daemon fields, replace cognitive fields
-    const merged: Record<string, unknown> = {
-      ...existing,
-      cognitive_checks: payload.cognitive_checks,
-      cognitive_meta: payload.cognitive_meta,
-    };
-
-    if (payload.sitrep_collectors) {
-      merged["sitrep_collectors"] = payload.sitrep_collectors;
-    }
-
-    // Atomic write via temp file
-    const tmpPath = statusPath + ".l2tmp";
     const dir = dirname(statusPath);
     if (!existsSync(dir)) {
       logger?.warn(`[leuko] Status directory does not exist: ${dir}`);
       return false;
     }
 
-    writeFileSync(tmpPath, JSON.stringify(merged, null, 2) + "\n", "utf-8");
-    renameSync(tmpPath, statusPath);
+    const lockOpts = { timeoutMs: opts.lockTimeoutMs, onWarn: (msg: string) => logger?.warn(`[leuko] ${msg}`) };
+    await withFileLockAsync(statusPath, lockOpts, () => {
+      // Read existing status to preserve daemon fields
+      const existing = readExisting(statusPath, logger);
+
+      // Merge: preserve daemon fields, replace cognitive fields
+      const merged: Record<string, unknown> = {
+        ...existing,
+        cognitive_checks: payload.cognitive_checks,
+        cognitive_meta: payload.cognitive_meta,
+      };
+
+      if (payload.sitrep_collectors) {
+        merged["sitrep_collectors"] = payload.sitrep_collectors;
+      }
+
+      // Overall severity spans both tiers (L1 daemon + L2 cognitive and collectors)
+      const daemonChecks = Array.isArray(existing["daemon_checks"]) ? (existing["daemon_checks"] as unknown[]) : [];
+      const collectors = Array.isArray(merged["sitrep_collectors"]) ? (merged["sitrep_collectors"] as unknown[]) : [];
+      merged["overall_severity"] = worstSeverity(
+        ...daemonChecks.map((c) => parseSeverityString(isRecord(c) ? c["severity"] : undefined)),
+        ...payload.cognitive_checks.map((c) => c.severity),
+        ...collectors.map((c) => parseSeverityString(isRecord(c) ? c["status"] : undefined)),
+      );
+
+      // Atomic write via per-process temp file
+      const tmpPath = `${statusPath}.${process.pid}.l2tmp`;
+      writeFileSync(tmpPath, JSON.stringify(merged, null, 2) + "\n", "utf-8");
+      renameSync(tmpPath, statusPath);
+    });
 
     logger?.info(`[leuko] Wrote ${payload.cognitive_checks.length} cognitive checks to ${statusPath}`);
     return true;
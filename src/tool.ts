@@ -118,7 +118,7 @@ export function formatToolResponse(status: LeukoStatus | null, params: ToolParam
   return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
 }
 
-export function registerLeukoTool(api: PluginApi, config: LeukoConfig): void {
+export function registerLeukoTool(api: PluginApi, getConfig: () => LeukoConfig): void {
   api.registerTool({
     name: "leuko_status",
     description: "Get current system health status from Leuko (L1 heuristic + L2 cognitive checks)",
@@ -138,7 +138,7 @@ export function registerLeukoTool(api: PluginApi, config: LeukoConfig): void {
       },
     },
     execute: async (_toolCallId: string, params: Record<string, unknown>) => {
-      const status = readStatusFile(config.statusPath, api.logger);
+      const status = readStatusFile(getConfig().statusPath, api.logger);
       return formatToolResponse(status, {
         section: typeof params["section"] === "string" ? params["section"] : undefined,
         severity_filter: typeof params["severity_filter"] === "string" ? params["severity_filter"] : undefined,
@@ -14,6 +14,7 @@ export interface PluginApi {
   logger: PluginLogger;
   registerTool(tool: ToolDefinition): void;
   registerCommand(command: PluginCommand): void;
+  registerService?(service: PluginService): void;
   on(
     hookName: string,
     handler: (...args: unknown[]) => unknown | Promise<unknown>,
@@ -39,6 +40,12 @@ export interface ToolResult {
   content: Array<{ type: string; text: string }>;
 }
 
+export interface PluginService {
+  id: string;
+  start(): void | Promise<void>;
+  stop?(): void | Promise<void>;
+}
+
 export interface PluginCommand {
   name: string;
   description: string;
@@ -72,6 +79,7 @@ export interface CognitiveCheckResult {
   timestamp: string;
   model_used?: string;
   tokens_used?: number;
+  cost_usd?: number;
   duration_ms: number;
 }
 
@@ -91,6 +99,25 @@ export interface CorrelationEntry {
   output: string;
   output_value: number;
   diagnosis: string;
+  /** NATS consumer the diagnosis refers to, for per-consumer diagnoses */
+  consumer?: string;
+  /** Severity set by a configured rule; built-in diagnoses derive theirs in CK-03 */
+  severity?: Severity;
+  /** Business-hours window the diagnosis was evaluated against */
+  window?: BusinessHoursWindow;
+}
+
+/** Result of evaluating business hours at one instant */
+export interface BusinessHoursWindow {
+  in_business_hours: boolean;
+  /** IANA timezone actually used (UTC if the configured one is invalid) */
+  tz: string;
+  /** Local wall-clock time, e.g. "2026-03-02T08:30" */
+  local_time: string;
+  weekday: Weekday;
+  /** Today's open hours, e.g. "08:00-22:00"; null when closed all day */
+  hours: string | null;
+  holiday: boolean;
 }
 
 export interface AnomalyEntry {
@@ -99,6 +126,10 @@ export interface AnomalyEntry {
   baseline: number;
   deviation: string;
   severity: Severity;
+  /** Statistical mode: signed anomaly score (z-score, robust z-score or EWMA z-score) */
+  score?: number;
+  /** Statistical mode: [low, high] range the current value was expected in */
+  expected_range?: [number, number];
 }
 
 export interface Recommendation {
@@ -160,6 +191,8 @@ export interface SitrepCollectorResult {
   status: Severity;
   items: ReadonlyArray<Record<string, unknown>>;
   summary: string;
+  /** Numeric reading (custom collector value, error match count), when the collector has one */
+  value?: number;
   duration_ms: number;
   timestamp: string;
 }
@@ -172,14 +205,57 @@ export interface LlmProviderConfig {
   provider: string;
   model: string;
   baseUrl: string;
+  /** Per-request timeout, unless the caller of `generate()` passes its own */
   timeoutSec: number;
   apiKey?: string;
+  /** Per-run budget: no further calls to this provider once the run has spent this much in total (all providers) */
   maxCostUsd?: number;
+  /** Per-day (UTC) budget on the total spend across runs and providers, from leuko-history.json */
+  maxDailyCostUsd?: number;
+}
+
+/** USD per 1M tokens */
+export interface ModelPrice {
+  promptPerMTok: number;
+  completionPerMTok: number;
+}
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before a provider is skipped */
+  failureThreshold: number;
+  /** Seconds a provider is skipped before a single probe call */
+  cooldownSec: number;
+}
+
+/** Retries for transient errors (HTTP 429 / 5xx), with exponential backoff */
+export interface LlmRetryConfig {
+  maxRetries: number;
+  /** Delay before the first retry; doubled for each further one */
+  backoffMs: number;
 }
 
 export interface LlmConfig {
-  primary: LlmProviderConfig;
-  fallback: LlmProviderConfig;
+  /** Tried in order until one returns a completion */
+  providers: LlmProviderConfig[];
+  circuitBreaker: CircuitBreakerConfig;
+  retry: LlmRetryConfig;
+  /** Overrides / additions to the built-in pricing table */
+  pricing: Record<string, ModelPrice>;
+}
+
+// ============================================================
+// NATS Monitoring Config
+// ============================================================
+
+export interface NatsConfig {
+  /** Base URL of the NATS HTTP monitoring endpoint (serves /jsz) */
+  monitorUrl: string;
+  timeoutMs: number;
+  /** Basic auth (e.g. when the endpoint sits behind a proxy) */
+  user?: string;
+  password?: string;
+  /** Bearer token; takes precedence over user/password */
+  token?: string;
 }
 
 // ============================================================
@@ -190,6 +266,10 @@ export interface GoalQualityCheckConfig {
   enabled: boolean;
   inputPath: string;
   usesLlm: boolean;
+  /** Approximate prompt budget per LLM call; more goals are split across calls */
+  maxChunkTokens: number;
+  /** LLM calls per run; goals beyond this many chunks are not reviewed */
+  maxChunks: number;
 }
 
 export interface ThreadHealthCheckConfig {
@@ -197,6 +277,10 @@ export interface ThreadHealthCheckConfig {
   inputPath: string;
   usesLlm: boolean;
   staleDays: number;
+  /** Approximate prompt budget per LLM call; more threads are split across calls */
+  maxChunkTokens: number;
+  /** LLM calls per run; threads beyond this many chunks are not reviewed */
+  maxChunks: number;
 }
 
 export interface PipelineCorrelationCheckConfig {
@@ -204,13 +288,101 @@ export interface PipelineCorrelationCheckConfig {
   usesLlm: boolean;
   natsStream: string;
   correlationWindowHours: number;
-  businessHours: { start: number; end: number; tz: string };
+  businessHours: BusinessHoursConfig;
+  /** User-defined correlations, evaluated after the built-in ones */
+  rules: CorrelationRule[];
+}
+
+export type ComparisonOp = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+/** One side of a correlation rule: a signal compared against a value */
+export interface SignalCondition {
+  /** Signal reference `<provider>:<argument>`, e.g. `file_age_hours:~/clawd/memory/threads.json` */
+  signal: string;
+  op: ComparisonOp;
+  /** Defaults to the rule's windowHours */
+  value?: number;
+}
+
+/** Fires when both the input and the output condition hold ("input active, output stale") */
+export interface CorrelationRule {
+  diagnosis: string;
+  severity: "warn" | "critical";
+  input: SignalCondition;
+  output: SignalCondition;
+  /** Default comparison value for conditions without one (default: correlationWindowHours) */
+  windowHours?: number;
+  /** Only evaluate during business hours */
+  businessHoursOnly?: boolean;
+}
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+/** Hours are local to `tz`, start inclusive, end exclusive; start > end spans midnight */
+export interface DailyHours {
+  start: number;
+  end: number;
+}
+
+export interface BusinessHoursConfig extends DailyHours {
+  /** IANA timezone, e.g. "Europe/Berlin" */
+  tz: string;
+  /** Per-weekday overrides of start/end; null = closed that day */
+  weekdays?: Partial<Record<Weekday, DailyHours | null>>;
+  /** Local dates (YYYY-MM-DD) treated as closed */
+  holidays?: string[];
+}
+
+export interface MonitoredDir {
+  path: string;
+  label: string;
+  /** Glob patterns relative to `path` that are not counted (e.g. `*.tmp`, `cache/**`) */
+  exclude?: string[];
+  /** Directory levels to descend below `path` (default 32) */
+  maxDepth?: number;
+}
+
+export type AnomalyMethod = "zscore" | "mad" | "ewma";
+export type AnomalySeasonality = "none" | "hour_of_day" | "day_of_week";
+export type AnomalySensitivity = "low" | "medium" | "high";
+
+/** Statistical anomaly detection for one history metric */
+export interface StatisticalMetricConfig {
+  /** History metric name, e.g. `memory_dir_mb` or `fact_count` */
+  metric: string;
+  /** zscore = mean/stddev, mad = median/MAD (robust), ewma = exponentially weighted mean/variance */
+  method: AnomalyMethod;
+  /** Compare only against snapshots from the same UTC hour / weekday */
+  seasonality: AnomalySeasonality;
+  sensitivity: AnomalySensitivity;
+  /** Most recent snapshots used as the baseline */
+  window: number;
+  /** Fewer baseline samples than this (after seasonal filtering) skip the metric */
+  minSamples: number;
 }
 
 export interface AnomalyDetectionCheckConfig {
   enabled: boolean;
   usesLlm: boolean;
-  monitoredDirs: ReadonlyArray<{ path: string; label: string }>;
+  monitoredDirs: ReadonlyArray<MonitoredDir>;
+  /** Time budget for sizing all monitored dirs in one run; dirs not finished in time get no baseline */
+  scanBudgetMs: number;
+  /** Metrics scored statistically, in addition to the fixed growth/trend rules */
+  statistical: StatisticalMetricConfig[];
+  /** Consecutive-change rules over history metrics */
+  trends: TrendRule[];
+}
+
+export type TrendDirection = "decreasing" | "increasing";
+
+/** Alert when a metric moved in `direction` for at least `minRun` consecutive snapshots */
+export interface TrendRule {
+  metric: string;
+  direction: TrendDirection;
+  minRun: number;
+  severity: "warn" | "critical";
+  /** Run length from which the rule escalates to critical */
+  criticalRun?: number;
 }
 
 export interface BootstrapIntegrityCheckConfig {
@@ -242,6 +414,16 @@ export interface ErrorsCollectorConfig {
   enabled: boolean;
   patternsPath: string;
   recentHours: number;
+  /** Log files scanned for pattern matches */
+  logPaths: string[];
+}
+
+/** One entry of the errors collector patterns file */
+export interface ErrorPattern {
+  label: string;
+  regex: string;
+  severity: Severity;
+  flags?: string;
 }
 
 export interface CustomCollectorEntry {
@@ -249,6 +431,8 @@ export interface CustomCollectorEntry {
   command: string;
   warnThreshold?: number;
   criticalThreshold?: number;
+  /** Kill the command after this many seconds (default 10) */
+  timeoutSec?: number;
 }
 
 export interface AdoptedCollectorsConfig {
@@ -266,6 +450,44 @@ export interface HealthInjectionConfig {
   maxLength: number;
 }
 
+// ============================================================
+// History Config
+// ============================================================
+
+export interface HistoryConfig {
+  /** Hard cap on stored snapshots (newest kept) */
+  maxSnapshots: number;
+  /** Snapshots older than this are dropped */
+  maxAgeDays: number;
+  /** Snapshots older than this are thinned to one per UTC day */
+  downsampleAfterDays: number;
+  /** Optional facts file whose entry count is tracked as fact_count ("" = disabled) */
+  factsPath: string;
+}
+
+// ============================================================
+// Metric Sources
+// ============================================================
+
+export type MetricSourceType = "json_count" | "line_count" | "sqlite" | "command";
+
+/** Extracts one numeric metric per L2 run into `HistorySnapshot.metrics` */
+export interface MetricSource {
+  /** Metric name in history, e.g. `fact_count` */
+  name: string;
+  type: MetricSourceType;
+  /** json_count / line_count / sqlite: file to read (`~` expanded) */
+  path?: string;
+  /** json_count: dot path to the array or object to count ("" = document root) */
+  jsonPath?: string;
+  /** sqlite: query whose first column of the first row is the value */
+  query?: string;
+  /** command: executed without a shell; output parsed like a custom collector */
+  command?: string;
+  /** sqlite / command: kill after this many seconds (default 10) */
+  timeoutSec?: number;
+}
+
 // ============================================================
 // Full Plugin Config
 // ============================================================
@@ -276,6 +498,14 @@ export interface LeukoConfig {
   historyPath: string;
   intervalMinutes: number;
   runTimeoutSec: number;
+  /** Max wait for the status/history file lock shared with the L1 daemon */
+  lockTimeoutMs: number;
+  /** Max cognitive checks running at once (protects a local LLM) */
+  maxConcurrency: number;
+  nats: NatsConfig;
+  history: HistoryConfig;
+  /** Extra history metrics (beyond goal/thread/fact counts and check baselines) */
+  metrics: MetricSource[];
   llm: LlmConfig;
   checks: ChecksConfig;
   adoptedCollectors: AdoptedCollectorsConfig;
@@ -287,10 +517,11 @@ export interface LeukoConfig {
 // ============================================================
 
 export interface LlmClient {
+  /** `timeoutMs` overrides the per-provider `timeoutSec` */
   generate(
     systemPrompt: string,
     userPrompt: string,
-    timeoutMs: number,
+    timeoutMs?: number,
   ): Promise<LlmResponse>;
 }
 
@@ -298,6 +529,9 @@ export interface LlmResponse {
   content: string | null;
   model: string;
   tokens: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  costUsd?: number;
   durationMs: number;
   error?: string;
 }
@@ -345,6 +579,8 @@ export interface ThreadsFile {
 export interface HistorySnapshot {
   timestamp: string;
   metrics: Record<string, number>;
+  /** Per-check severity at snapshot time, keyed by check_name */
+  severities?: Record<string, Severity>;
 }
 
 export interface LeukoHistory {
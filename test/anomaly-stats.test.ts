@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { ewma, estimate, mad, mean, median, scoreValue, seasonalSamples, stddev } from "../src/anomaly-stats.js";
+
+describe("anomaly statistics", () => {
+  it("computes mean, stddev, median and MAD", () => {
+    const values = [2, 4, 4, 4, 5, 5, 7, 9];
+    expect(mean(values)).toBe(5);
+    expect(stddev(values)).toBeCloseTo(2.138, 3);
+    expect(median(values)).toBe(4.5);
+    expect(median([3, 1, 2])).toBe(2);
+    expect(mad([1, 1, 2, 2, 4, 6, 9])).toBe(1);
+  });
+
+  it("tracks recent values with EWMA", () => {
+    const e = ewma([10, 10, 10, 20, 20, 20]);
+    expect(e.mean).toBeGreaterThan(15);
+    expect(e.mean).toBeLessThan(20);
+    expect(e.stddev).toBeGreaterThan(0);
+    expect(ewma([5, 5, 5])).toEqual({ mean: 5, stddev: 0 });
+  });
+
+  it("is robust to outliers in the MAD estimate", () => {
+    const withOutlier = [10, 11, 10, 12, 11, 10, 1000];
+    expect(estimate(withOutlier, "mad").center).toBe(11);
+    expect(estimate(withOutlier, "zscore").center).toBeGreaterThan(100);
+  });
+});
+
+describe("scoreValue", () => {
+  const baseline = [100, 102, 98, 101, 99, 100, 103, 97];
+
+  it("flags spikes and drops by sensitivity", () => {
+    const spike = scoreValue(130, baseline, "zscore", "medium");
+    expect(spike.severity).toBe("critical");
+    expect(spike.score).toBeGreaterThan(4.5);
+
+    const drop = scoreValue(94, baseline, "zscore", "medium");
+    expect(drop.score).toBeLessThan(0);
+    expect(drop.severity).toBe("warn");
+    expect(scoreValue(94, baseline, "zscore", "low").severity).toBe("ok");
+  });
+
+  it("reports the expected range around the center", () => {
+    const r = scoreValue(100, baseline, "zscore", "high");
+    expect(r.severity).toBe("ok");
+    expect(r.center).toBe(100);
+    expect(r.expected[0]).toBeLessThan(100);
+    expect(r.expected[1]).toBeGreaterThan(100);
+    expect(r.expected[1] - 100).toBeCloseTo(100 - r.expected[0], 5);
+  });
+
+  it("floors the spread of flat series at 1% of the center", () => {
+    const flat = [50, 50, 50, 50, 50];
+    expect(scoreValue(50, flat, "mad", "medium")).toMatchObject({ score: 0, severity: "ok" });
+    expect(scoreValue(51, flat, "mad", "medium")).toMatchObject({ score: 2, severity: "ok" });
+    expect(scoreValue(60, flat, "mad", "medium").severity).toBe("critical");
+  });
+});
+
+describe("seasonalSamples", () => {
+  const at = Date.parse("2026-07-01T09:30:00Z"); // Wednesday
+  const samples = [
+    { ts: Date.parse("2026-06-30T09:10:00Z"), value: 1 }, // Tue 09h
+    { ts: Date.parse("2026-06-30T15:00:00Z"), value: 2 }, // Tue 15h
+    { ts: Date.parse("2026-06-24T20:00:00Z"), value: 3 }, // Wed 20h
+  ];
+
+  it("filters by UTC hour of day or weekday", () => {
+    expect(seasonalSamples(samples, at, "none")).toHaveLength(3);
+    expect(seasonalSamples(samples, at, "hour_of_day").map((s) => s.value)).toEqual([1]);
+    expect(seasonalSamples(samples, at, "day_of_week").map((s) => s.value)).toEqual([3]);
+  });
+
+  it("buckets by wall-clock time in the given timezone, across DST", () => {
+    const local = Date.parse("2026-07-01T07:30:00Z"); // 09:30 CEST
+    const hours = [
+      { ts: Date.parse("2026-03-20T08:10:00Z"), value: 1 }, // 09:10 CET
+      { ts: Date.parse("2026-06-30T07:10:00Z"), value: 2 }, // 09:10 CEST
+      { ts: Date.parse("2026-06-30T09:10:00Z"), value: 3 }, // 11:10 CEST
+    ];
+    expect(seasonalSamples(hours, local, "hour_of_day", "Europe/Berlin").map((s) => s.value)).toEqual([1, 2]);
+    expect(seasonalSamples(hours, local, "hour_of_day").map((s) => s.value)).toEqual([2]);
+
+    const lateWed = Date.parse("2026-07-01T22:30:00Z"); // Thu 00:30 in Berlin
+    const days = [
+      { ts: Date.parse("2026-06-24T22:30:00Z"), value: 1 }, // Wed UTC, Thu Berlin
+      { ts: Date.parse("2026-06-25T10:00:00Z"), value: 2 }, // Thu
+      { ts: Date.parse("2026-06-24T10:00:00Z"), value: 3 }, // Wed
+    ];
+    expect(seasonalSamples(days, lateWed, "day_of_week", "Europe/Berlin").map((s) => s.value)).toEqual([1, 2]);
+    expect(seasonalSamples(days, lateWed, "day_of_week", "Not/AZone").map((s) => s.value)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { evaluateBusinessHours, isValidTimeZone } from "../src/business-hours.js";
+import type { BusinessHoursConfig } from "../src/types.js";
+
+const berlin: BusinessHoursConfig = { start: 8, end: 22, tz: "Europe/Berlin" };
+
+describe("evaluateBusinessHours", () => {
+  it("uses the configured timezone in winter (CET)", () => {
+    // 07:30Z = 08:30 CET
+    const w = evaluateBusinessHours(berlin, new Date("2026-01-14T07:30:00Z"));
+    expect(w).toMatchObject({ in_business_hours: true, tz: "Europe/Berlin", local_time: "2026-01-14T08:30", weekday: "wed", hours: "08:00-22:00" });
+  });
+
+  it("follows DST in summer (CEST)", () => {
+    // 06:30Z = 08:30 CEST — a fixed UTC+1 offset would say 07:30 (closed)
+    expect(evaluateBusinessHours(berlin, new Date("2026-07-01T06:30:00Z")).in_business_hours).toBe(true);
+    // 20:30Z = 22:30 CEST — closed
+    expect(evaluateBusinessHours(berlin, new Date("2026-07-01T20:30:00Z")).in_business_hours).toBe(false);
+  });
+
+  it("works for timezones far from CET", () => {
+    const ny: BusinessHoursConfig = { start: 9, end: 17, tz: "America/New_York" };
+    expect(evaluateBusinessHours(ny, new Date("2026-03-02T14:00:00Z")).local_time).toBe("2026-03-02T09:00");
+    expect(evaluateBusinessHours(ny, new Date("2026-03-02T14:00:00Z")).in_business_hours).toBe(true);
+    expect(evaluateBusinessHours(ny, new Date("2026-03-02T12:00:00Z")).in_business_hours).toBe(false);
+  });
+
+  it("applies per-weekday schedules", () => {
+    const cfg: BusinessHoursConfig = { ...berlin, weekdays: { sat: { start: 10, end: 14.5 }, sun: null } };
+    const sat = evaluateBusinessHours(cfg, new Date("2026-03-07T13:00:00Z")); // Sat 14:00 CET
+    expect(sat).toMatchObject({ weekday: "sat", hours: "10:00-14:30", in_business_hours: true });
+    expect(evaluateBusinessHours(cfg, new Date("2026-03-07T13:45:00Z")).in_business_hours).toBe(false);
+    expect(evaluateBusinessHours(cfg, new Date("2026-03-08T12:00:00Z"))).toMatchObject({ weekday: "sun", hours: null, in_business_hours: false });
+  });
+
+  it("treats holidays (local date) as closed", () => {
+    const cfg: BusinessHoursConfig = { ...berlin, holidays: ["2026-12-25"] };
+    // 23:30Z on the 24th is already the 25th in Berlin
+    const w = evaluateBusinessHours(cfg, new Date("2026-12-24T23:30:00Z"));
+    expect(w).toMatchObject({ holiday: true, in_business_hours: false, hours: null });
+  });
+
+  it("supports windows spanning midnight", () => {
+    const night: BusinessHoursConfig = { start: 22, end: 6, tz: "UTC" };
+    expect(evaluateBusinessHours(night, new Date("2026-03-02T23:00:00Z")).in_business_hours).toBe(true);
+    expect(evaluateBusinessHours(night, new Date("2026-03-02T05:59:00Z")).in_business_hours).toBe(true);
+    expect(evaluateBusinessHours(night, new Date("2026-03-02T12:00:00Z")).in_business_hours).toBe(false);
+  });
+
+  it("falls back to UTC for an invalid timezone", () => {
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+    const w = evaluateBusinessHours({ ...berlin, tz: "Mars/Olympus" }, new Date("2026-01-14T07:30:00Z"));
+    expect(w.tz).toBe("UTC");
+    expect(w.in_business_hours).toBe(false);
+  });
+});
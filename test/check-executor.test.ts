@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { executeTasks, type ExecutorTask } from "../src/check-executor.js";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+describe("executeTasks", () => {
+  it("returns results in task order regardless of completion order", async () => {
+    const tasks: ExecutorTask<string>[] = [
+      { id: "slow", run: async () => { await delay(30); return "slow"; } },
+      { id: "fast", run: async () => "fast" },
+    ];
+    const results = await executeTasks(tasks, 2);
+    expect(results.map((r) => (r.status === "fulfilled" ? r.value : null))).toEqual(["slow", "fast"]);
+  });
+
+  it("never exceeds maxConcurrency", async () => {
+    let running = 0;
+    let peak = 0;
+    const tasks: ExecutorTask<number>[] = Array.from({ length: 6 }, (_, i) => ({
+      id: `t${i}`,
+      run: async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await delay(10);
+        running--;
+        return i;
+      },
+    }));
+    await executeTasks(tasks, 2);
+    expect(peak).toBe(2);
+  });
+
+  it("runs independent tasks in parallel", async () => {
+    const start = Date.now();
+    await executeTasks([1, 2, 3].map((i) => ({ id: `t${i}`, run: async () => { await delay(50); return i; } })), 3);
+    expect(Date.now() - start).toBeLessThan(140);
+  });
+
+  it("starts dependents after dependencies settle and passes fulfilled values", async () => {
+    const order: string[] = [];
+    const results = await executeTasks<string>([
+      { id: "a", run: async () => { await delay(20); order.push("a"); return "A"; } },
+      { id: "b", run: async () => { order.push("b"); throw new Error("boom"); } },
+      { id: "c", dependsOn: ["a", "b"], run: async (deps) => { order.push("c"); return deps.join("+"); } },
+    ], 4);
+    expect(order).toEqual(["b", "a", "c"]);
+    expect(results[1]?.status).toBe("rejected");
+    expect(results[2]).toEqual({ status: "fulfilled", value: "A" });
+  });
+
+  it("resolves empty task lists", async () => {
+    expect(await executeTasks([], 2)).toEqual([]);
+  });
+
+  it("rejects unknown dependencies and cycles", () => {
+    const run = async (): Promise<number> => 1;
+    expect(() => executeTasks([{ id: "a", dependsOn: ["x"], run }], 1)).toThrow(/unknown task x/);
+    expect(() => executeTasks([
+      { id: "a", dependsOn: ["b"], run },
+      { id: "b", dependsOn: ["a"], run },
+    ], 1)).toThrow(/cycle/);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { chunkByTokens, crossChunkDuplicates, mergeFindingsResponses, titleSimilarity } from "../src/check-runner.js";
+
+describe("chunkByTokens", () => {
+  it("groups consecutive items within the budget", () => {
+    const items = ["a".repeat(40), "b".repeat(40), "c".repeat(40), "d".repeat(4)];
+    expect(chunkByTokens(items, 25)).toEqual([[0, 1], [2, 3]]);
+  });
+
+  it("gives an oversized item its own chunk", () => {
+    expect(chunkByTokens(["x", "y".repeat(400), "z"], 10)).toEqual([[0], [1], [2]]);
+    expect(chunkByTokens([], 10)).toEqual([]);
+  });
+});
+
+describe("crossChunkDuplicates", () => {
+  const title = (s: string): string => s;
+
+  it("pairs similar titles from different chunks only", () => {
+    const chunks = [["Fix auth failures", "Fix auth failures"], ["fix AUTH failures.", "Write docs"]];
+    expect(crossChunkDuplicates(chunks, title)).toEqual([["Fix auth failures", "fix AUTH failures."]]);
+  });
+
+  it("ignores titles below the threshold", () => {
+    expect(titleSimilarity("Fix auth failures", "Fix disk failures")).toBe(0.5);
+    expect(crossChunkDuplicates([["Fix auth failures"], ["Fix disk failures"]], title)).toEqual([]);
+  });
+});
+
+describe("mergeFindingsResponses", () => {
+  const key = (f: { id: string }): string => f.id;
+
+  it("takes the worst severity and deduplicates findings", () => {
+    const merged = mergeFindingsResponses([
+      { severity: "ok", detail: "Fine", findings: [{ id: "a" }] },
+      { severity: "critical", detail: "Bad", findings: [{ id: "a" }, { id: "b" }] },
+    ], key);
+    expect(merged).toEqual({ severity: "critical", detail: "Fine | Bad", findings: [{ id: "a" }, { id: "b" }] });
+  });
+
+  it("raises the severity for extra findings", () => {
+    const merged = mergeFindingsResponses([{ severity: "ok", detail: "Fine", findings: [] }], key, [{ id: "dup" }]);
+    expect(merged).toEqual({ severity: "warn", detail: "Fine | 1 cross-chunk duplicate(s)", findings: [{ id: "dup" }] });
+  });
+});
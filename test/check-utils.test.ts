@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { parseLlmJson } from "../src/check-utils.js";
+
+describe("parseLlmJson", () => {
+  it("parses a bare object", () => {
+    expect(parseLlmJson('{"severity":"ok"}')).toEqual({ severity: "ok" });
+  });
+
+  it("strips reasoning blocks and code fences", () => {
+    expect(parseLlmJson('<think>\n{"draft": true}\n</think>\n{"severity":"warn"}')).toEqual({ severity: "warn" });
+    expect(parseLlmJson('```json\n{"severity":"ok"}\n```')).toEqual({ severity: "ok" });
+  });
+
+  it("extracts the first parseable object from surrounding prose", () => {
+    const raw = 'Sure! {not json} Here you go: {"detail":"uses } and \\" in a string","n":{"x":1}} Hope this helps.';
+    expect(parseLlmJson(raw)).toEqual({ detail: 'uses } and " in a string', n: { x: 1 } });
+  });
+
+  it("returns null without an object", () => {
+    expect(parseLlmJson("not json at all")).toBeNull();
+    expect(parseLlmJson("[1, 2]")).toBeNull();
+    expect(parseLlmJson('{"unterminated": ')).toBeNull();
+  });
+});
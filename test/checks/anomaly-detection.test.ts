@@ -29,6 +29,11 @@ const defaultConfig: AnomalyDetectionCheckConfig = {
     { path: "/test/memory", label: "memory" },
     { path: "/test/membrane", label: "membrane" },
   ],
+  scanBudgetMs: 10_000,
+  statistical: [],
+  trends: ["fact_count", "goal_count", "thread_count"].map((metric) => ({
+    metric, direction: "decreasing" as const, minRun: 3, severity: "warn" as const, criticalRun: 5,
+  })),
 };
 
 function makeHistory(snapshots: Array<{ timestamp: string; metrics: Record<string, number> }>): LeukoHistory {
@@ -57,6 +62,21 @@ describe("CK-04: Anomaly Detection", () => {
 
     const result = runAnomalyDetectionCheck(defaultConfig, null, mockLogger());
     expect(result.baselines?.["memory_dir_mb"]).toBeGreaterThan(0);
+    expect(result.baselines?.["memory_file_count"]).toBe(1);
+  });
+
+  it("skips baselines of dirs not sized within scanBudgetMs", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReaddirSync.mockReturnValue([
+      { name: "file1.json", isFile: () => true, isDirectory: () => false } as ReturnType<typeof readdirSync>[number],
+    ] as ReturnType<typeof readdirSync>);
+    mockedStatSync.mockReturnValue({ size: 1024 } as ReturnType<typeof statSync>);
+    const logger = mockLogger();
+
+    const result = runAnomalyDetectionCheck({ ...defaultConfig, scanBudgetMs: -1 }, null, logger);
+    expect(result.baselines).toEqual({});
+    expect(result.detail).toContain("sizing incomplete: memory, membrane");
+    expect(logger.warn).toHaveBeenCalled();
   });
 
   it("detects 5x directory growth as critical", () => {
@@ -94,6 +114,22 @@ describe("CK-04: Anomaly Detection", () => {
     expect(result.severity).toBe("warn");
   });
 
+  it("compares against the most recent snapshot older than 7 days", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReaddirSync.mockReturnValue([
+      { name: "file1.json", isFile: () => true, isDirectory: () => false } as ReturnType<typeof readdirSync>[number],
+    ] as ReturnType<typeof readdirSync>);
+    mockedStatSync.mockReturnValue({ size: 150 * 1024 * 1024 } as ReturnType<typeof statSync>);
+
+    const history = makeHistory([
+      { timestamp: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString(), metrics: { memory_dir_mb: 10 } },
+      { timestamp: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(), metrics: { memory_dir_mb: 140 } },
+    ]);
+
+    const result = runAnomalyDetectionCheck(defaultConfig, history, mockLogger());
+    expect(result.severity).toBe("ok");
+  });
+
   it("detects consecutive shrinking trend (5+) as critical", () => {
     mockedExistsSync.mockReturnValue(false); // Skip dir checks
 
@@ -140,6 +176,85 @@ describe("CK-04: Anomaly Detection", () => {
     expect(result.severity).toBe("ok");
   });
 
+  it("scores configured metrics statistically against history", () => {
+    mockedExistsSync.mockReturnValue(false);
+    const now = Date.now();
+    const history = makeHistory(
+      [500, 505, 498, 502, 501, 499, 503, 500, 420].map((v, i) => ({
+        timestamp: new Date(now - (9 - i) * 60 * 60 * 1000).toISOString(),
+        metrics: { fact_count: v },
+      })),
+    );
+    const config: AnomalyDetectionCheckConfig = {
+      ...defaultConfig,
+      statistical: [{ metric: "fact_count", method: "mad", seasonality: "none", sensitivity: "medium", window: 50, minSamples: 8 }],
+    };
+
+    const result = runAnomalyDetectionCheck(config, history, mockLogger());
+    const entry = result.anomalies?.find((a) => a.metric === "fact_count");
+    expect(entry).toMatchObject({ current: 420, baseline: 500.5, severity: "critical" });
+    expect(entry?.score).toBeLessThan(-4.5);
+    expect(entry?.expected_range?.[0]).toBeGreaterThan(420);
+    expect(entry?.deviation).toContain("drop: mad score");
+  });
+
+  it("scores this run's dir baseline and skips metrics with too few samples", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReaddirSync.mockReturnValue([
+      { name: "file1.json", isFile: () => true, isDirectory: () => false } as ReturnType<typeof readdirSync>[number],
+    ] as ReturnType<typeof readdirSync>);
+    mockedStatSync.mockReturnValue({ size: 80 * 1024 * 1024 } as ReturnType<typeof statSync>);
+    const now = Date.now();
+    const history = makeHistory(
+      [20, 21, 20, 22, 21].map((v, i) => ({
+        timestamp: new Date(now - (5 - i) * 60 * 60 * 1000).toISOString(),
+        metrics: { memory_dir_mb: v },
+      })),
+    );
+    const stat = { method: "zscore", seasonality: "none", sensitivity: "high", window: 50 } as const;
+    const logger = mockLogger();
+
+    const scored = runAnomalyDetectionCheck({ ...defaultConfig, statistical: [{ ...stat, metric: "memory_dir_mb", minSamples: 5 }] }, history, logger);
+    expect(scored.anomalies?.find((a) => a.score !== undefined)).toMatchObject({ metric: "memory_dir_mb", current: 80, severity: "critical" });
+
+    const skipped = runAnomalyDetectionCheck({ ...defaultConfig, statistical: [{ ...stat, metric: "memory_dir_mb", minSamples: 6 }] }, history, logger);
+    expect(skipped.anomalies?.some((a) => a.score !== undefined)).toBe(false);
+    expect(logger.debug).toHaveBeenCalledWith(expect.stringContaining("5/6 baseline samples"));
+  });
+
+  it("evaluates configured trend rules including this run's metric values", () => {
+    mockedExistsSync.mockReturnValue(false);
+    const now = Date.now();
+    const history = makeHistory(
+      [10, 12, 15].map((v, i) => ({
+        timestamp: new Date(now - (3 - i) * 60 * 60 * 1000).toISOString(),
+        metrics: { error_lines: v },
+      })),
+    );
+    const config: AnomalyDetectionCheckConfig = {
+      ...defaultConfig,
+      trends: [{ metric: "error_lines", direction: "increasing", minRun: 3, severity: "critical" }],
+    };
+
+    // History alone has two increases; this run's value makes it three
+    expect(runAnomalyDetectionCheck(config, history, mockLogger()).severity).toBe("ok");
+    const result = runAnomalyDetectionCheck(config, history, mockLogger(), { error_lines: 20 });
+    expect(result.severity).toBe("critical");
+    expect(result.anomalies).toContainEqual(expect.objectContaining({ metric: "error_lines", current: 3, deviation: "3 consecutive increases" }));
+  });
+
+  it("only counts the trailing run of changes", () => {
+    mockedExistsSync.mockReturnValue(false);
+    const now = Date.now();
+    const history = makeHistory(
+      [100, 90, 80, 85, 84].map((v, i) => ({
+        timestamp: new Date(now - (5 - i) * 60 * 60 * 1000).toISOString(),
+        metrics: { fact_count: v },
+      })),
+    );
+    expect(runAnomalyDetectionCheck(defaultConfig, history, mockLogger()).severity).toBe("ok");
+  });
+
   it("handles empty history gracefully", () => {
     mockedExistsSync.mockReturnValue(false);
     const result = runAnomalyDetectionCheck(defaultConfig, makeHistory([]), mockLogger());
@@ -36,6 +36,8 @@ const defaultConfig: GoalQualityCheckConfig = {
   enabled: true,
   inputPath: "/test/goals.json",
   usesLlm: true,
+  maxChunkTokens: 1500,
+  maxChunks: 8,
 };
 
 describe("CK-01: Goal Quality Assessment", () => {
@@ -128,6 +130,39 @@ describe("CK-01: Goal Quality Assessment", () => {
     expect(result.detail).toContain("parsing failed");
   });
 
+  it("extracts JSON wrapped in a reasoning block and code fence", async () => {
+    mockedReadJsonInput.mockReturnValue({ goals: [{ id: "g1", title: "Some goal" }] });
+    const content = '<think>The goal looks vague.</think>\nHere is my answer:\n```json\n{"severity":"warn","detail":"Vague goal","findings":[]}\n```';
+    const llm = mockLlm({ content });
+    const result = await runGoalQualityCheck(defaultConfig, llm, mockLogger());
+    expect(result.severity).toBe("warn");
+    expect(result.detail).toBe("Vague goal");
+    expect(llm.generate).toHaveBeenCalledOnce();
+  });
+
+  it("re-prompts once with the validation errors", async () => {
+    mockedReadJsonInput.mockReturnValue({ goals: [{ id: "g1", title: "Some goal" }] });
+    const llm: LlmClient = {
+      generate: vi.fn()
+        .mockResolvedValueOnce({ content: '{"severity":"bad","findings":[{"detail":"x"}]}', model: "test/model", tokens: 100, costUsd: 0.01, durationMs: 1 })
+        .mockResolvedValueOnce({ content: '{"severity":"warn","detail":"Fixed","findings":[]}', model: "test/model", tokens: 80, costUsd: 0.01, durationMs: 1 }),
+    };
+    const result = await runGoalQualityCheck(defaultConfig, llm, mockLogger());
+    expect(result).toMatchObject({ severity: "warn", detail: "Fixed", tokens_used: 180, cost_usd: 0.02 });
+    const retryPrompt = vi.mocked(llm.generate).mock.calls[1]![1];
+    expect(retryPrompt).toContain("severity: must be one of");
+    expect(retryPrompt).toContain("findings[0].issue: required");
+  });
+
+  it("fails open when the re-prompted response is still invalid", async () => {
+    mockedReadJsonInput.mockReturnValue({ goals: [{ id: "g1", title: "Some goal" }] });
+    const llm = mockLlm({ content: '{"detail":"no severity"}' });
+    const result = await runGoalQualityCheck(defaultConfig, llm, mockLogger());
+    expect(llm.generate).toHaveBeenCalledTimes(2);
+    expect(result.severity).toBe("ok");
+    expect(result.detail).toContain("LLM response failed validation (severity: required)");
+  });
+
   it("deduplicates pre-filter and LLM findings by item_id", async () => {
     const pastDate = new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString();
     mockedReadJsonInput.mockReturnValue({
@@ -166,4 +201,95 @@ describe("CK-01: Goal Quality Assessment", () => {
     expect(result.duration_ms).toBeGreaterThanOrEqual(0);
     expect(result.timestamp).toBeTruthy();
   });
+
+  it("records the LLM call's cost on the result", async () => {
+    mockedReadJsonInput.mockReturnValue({ goals: [{ id: "g1", title: "Fix auth bug", status: "approved" }] });
+    const result = await runGoalQualityCheck(defaultConfig, mockLlm({ costUsd: 0.0012 }), mockLogger());
+    expect(result.cost_usd).toBe(0.0012);
+  });
+
+  it("splits many goals into chunks and merges their findings", async () => {
+    const goals = Array.from({ length: 40 }, (_, i) => ({
+      id: `g${i}`,
+      title: `Ship feature ${i} of the roadmap`,
+      proposed_action: "x".repeat(1000),
+      status: "approved",
+    }));
+    mockedReadJsonInput.mockReturnValue({ goals });
+    const llm: LlmClient = {
+      generate: vi.fn(async (_system: string, user: string) => {
+        const first = /"id":"(g\d+)"/.exec(user)![1];
+        const severity = first === "g0" ? "warn" : "ok";
+        return { content: JSON.stringify({ severity, detail: `chunk ${first}`, findings: [{ item_id: first, issue: "vague_title" }] }), model: "test/model", tokens: 10, durationMs: 1 };
+      }),
+    };
+    const result = await runGoalQualityCheck({ ...defaultConfig, maxChunkTokens: 500 }, llm, mockLogger());
+
+    const prompts = vi.mocked(llm.generate).mock.calls.map((c) => c[1]);
+    expect(prompts.length).toBeGreaterThan(1);
+    expect(prompts[0]).toContain(`part 1 of ${prompts.length}`);
+    expect(prompts.join("\n")).toContain('"id":"g39"');
+    expect(prompts[0]).not.toContain("x".repeat(300));
+    expect(result.severity).toBe("warn");
+    expect(result.findings).toHaveLength(prompts.length);
+    expect(result.tokens_used).toBe(10 * prompts.length);
+  });
+
+  it("flags near-duplicate goals that land in different chunks", async () => {
+    const filler = "y".repeat(180);
+    mockedReadJsonInput.mockReturnValue({
+      goals: [
+        { id: "g1", title: "Fix recurring auth failures", proposed_action: filler },
+        { id: "g2", title: "Document the backup process", proposed_action: filler },
+        { id: "g3", title: "Fix recurring auth failures!", proposed_action: filler },
+      ],
+    });
+    const result = await runGoalQualityCheck({ ...defaultConfig, maxChunkTokens: 60 }, mockLlm(), mockLogger());
+    expect(result.severity).toBe("warn");
+    expect(result.findings).toEqual([expect.objectContaining({ item_id: "g3", issue: "duplicate" })]);
+  });
+
+  it("tolerates untitled goals spread across chunks", async () => {
+    const filler = "y".repeat(180);
+    mockedReadJsonInput.mockReturnValue({
+      goals: [
+        { id: "g1", proposed_action: filler },
+        { id: "g2", title: "Document the backup process", proposed_action: filler },
+        { id: "g3", proposed_action: filler },
+      ],
+    });
+    const llm = mockLlm();
+    const result = await runGoalQualityCheck({ ...defaultConfig, maxChunkTokens: 60 }, llm, mockLogger());
+    expect(llm.generate).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({ severity: "ok", findings: [] });
+  });
+
+  it("reviews at most maxChunks chunks and reports the skipped goals", async () => {
+    const filler = "y".repeat(180);
+    mockedReadJsonInput.mockReturnValue({
+      goals: ["Alpha", "Beta", "Gamma"].map((title, i) => ({ id: `g${i}`, title, proposed_action: filler })),
+    });
+    const llm = mockLlm();
+    const logger = mockLogger();
+    const result = await runGoalQualityCheck({ ...defaultConfig, maxChunkTokens: 60, maxChunks: 2 }, llm, logger);
+    expect(llm.generate).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(llm.generate).mock.calls.map((c) => c[1]).join("\n")).not.toContain('"id":"g2"');
+    expect(result.findings).toEqual([expect.objectContaining({ issue: "truncated", detail: expect.stringMatching(/^1 of 3 items not reviewed/) })]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("1 of 3 items over maxChunks (2)"));
+  });
+
+  it("uses the remaining chunks when one fails", async () => {
+    mockedReadJsonInput.mockReturnValue({
+      goals: [{ id: "g1", title: "Alpha", proposed_action: "a".repeat(200) }, { id: "g2", title: "Beta", proposed_action: "b".repeat(200) }],
+    });
+    const llm: LlmClient = {
+      generate: vi.fn(async (_system: string, user: string) => user.includes('"g1"')
+        ? { content: null, model: "none", tokens: 0, durationMs: 1, error: "timeout" }
+        : { content: JSON.stringify({ severity: "warn", detail: "Beta is vague", findings: [] }), model: "test/model", tokens: 10, durationMs: 1 }),
+    };
+    const logger = mockLogger();
+    const result = await runGoalQualityCheck({ ...defaultConfig, maxChunkTokens: 60 }, llm, logger);
+    expect(result).toMatchObject({ severity: "warn", detail: "Beta is vague", model_used: "test/model" });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("1 of 2 chunks failed"));
+  });
 });
@@ -36,6 +36,8 @@ const defaultConfig: ThreadHealthCheckConfig = {
   inputPath: "/test/threads.json",
   usesLlm: true,
   staleDays: 5,
+  maxChunkTokens: 1500,
+  maxChunks: 8,
 };
 
 describe("CK-02: Thread Health Assessment", () => {
@@ -167,4 +169,34 @@ describe("CK-02: Thread Health Assessment", () => {
     expect(result.model_used).toBe("test/model");
     expect(result.tokens_used).toBe(250);
   });
+
+  it("sends compact thread projections with open counts", async () => {
+    mockedReadJsonInput.mockReturnValue({
+      threads: [
+        { id: "t1", title: "Open", status: "open", description: "d".repeat(1000), decisions: ["a", "b"] },
+        { id: "t2", title: "Closed", status: "closed" },
+      ],
+    });
+    const llm = mockLlm();
+    await runThreadHealthCheck(defaultConfig, llm, mockLogger());
+    const prompt = vi.mocked(llm.generate).mock.calls[0]![1];
+    expect(prompt).toContain("Threads (2 total, 1 open)");
+    expect(prompt).toContain('"decisions":2');
+    expect(prompt).not.toContain("d".repeat(300));
+  });
+
+  it("flags duplicate threads across chunks", async () => {
+    const summary = "s".repeat(190);
+    mockedReadJsonInput.mockReturnValue({
+      threads: [
+        { id: "t1", title: "Memory pipeline migration", status: "open", summary },
+        { id: "t2", title: "Memory Pipeline Migration", status: "open", summary },
+      ],
+    });
+    const llm = mockLlm();
+    const result = await runThreadHealthCheck({ ...defaultConfig, maxChunkTokens: 60 }, llm, mockLogger());
+    expect(llm.generate).toHaveBeenCalledTimes(2);
+    expect(result.severity).toBe("warn");
+    expect(result.findings).toEqual([expect.objectContaining({ thread_id: "t2", issue: "duplicate" })]);
+  });
 });
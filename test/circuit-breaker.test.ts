@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  breakerPhase,
+  createBreakerRegistry,
+  recordFailure,
+  recordSuccess,
+  releaseProbe,
+  tryAcquire,
+} from "../src/circuit-breaker.js";
+
+const cfg = { failureThreshold: 3, cooldownSec: 60 };
+
+describe("circuit breaker", () => {
+  it("opens after the failure threshold and stays open during the cooldown", () => {
+    const reg = createBreakerRegistry();
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    recordFailure(reg, "p", cfg, 0);
+    recordFailure(reg, "p", cfg, 0);
+    expect(tryAcquire(reg, "p", cfg, 0)).toBe(true);
+    recordFailure(reg, "p", cfg, 1000, logger);
+    expect(breakerPhase(reg, "p", cfg, 1000)).toBe("open");
+    expect(tryAcquire(reg, "p", cfg, 60_999)).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Circuit open for p after 3 failure(s)"));
+  });
+
+  it("lets a single probe through once half-open", () => {
+    const reg = createBreakerRegistry();
+    for (let i = 0; i < 3; i++) recordFailure(reg, "p", cfg, 0);
+    expect(breakerPhase(reg, "p", cfg, 60_000)).toBe("half_open");
+    expect(tryAcquire(reg, "p", cfg, 60_000)).toBe(true);
+    expect(tryAcquire(reg, "p", cfg, 60_000)).toBe(false);
+
+    recordFailure(reg, "p", cfg, 70_000);
+    expect(breakerPhase(reg, "p", cfg, 100_000)).toBe("open");
+    expect(tryAcquire(reg, "p", cfg, 130_000)).toBe(true);
+    recordSuccess(reg, "p");
+    expect(breakerPhase(reg, "p", cfg, 130_000)).toBe("closed");
+    expect(reg.size).toBe(0);
+  });
+
+  it("frees an abandoned probe", () => {
+    const reg = createBreakerRegistry();
+    for (let i = 0; i < 3; i++) recordFailure(reg, "p", cfg, 0);
+    expect(tryAcquire(reg, "p", cfg, 60_000)).toBe(true);
+    releaseProbe(reg, "p");
+    expect(tryAcquire(reg, "p", cfg, 60_000)).toBe(true);
+  });
+
+  it("resets the failure count on success", () => {
+    const reg = createBreakerRegistry();
+    recordFailure(reg, "p", cfg, 0);
+    recordFailure(reg, "p", cfg, 0);
+    recordSuccess(reg, "p");
+    recordFailure(reg, "p", cfg, 0);
+    expect(breakerPhase(reg, "p", cfg, 0)).toBe("closed");
+  });
+});
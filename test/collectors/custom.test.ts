@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  splitCommand,
+  parseCollectorOutput,
+  thresholdSeverity,
+  runCustomCollector,
+} from "../../src/collectors/custom.js";
+import type { PluginLogger } from "../../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+/** Build a command that prints `out` via node — quoted for splitCommand */
+function nodePrint(out: string): string {
+  return `"${process.execPath}" -e 'process.stdout.write(${JSON.stringify(out)})'`;
+}
+
+describe("splitCommand", () => {
+  it("splits on whitespace and honours quotes and escapes", () => {
+    expect(splitCommand(`wc  -l "/var/log/my app.log"`)).toEqual(["wc", "-l", "/var/log/my app.log"]);
+    expect(splitCommand(`echo 'a "b" $HOME' c\\ d ""`)).toEqual(["echo", 'a "b" $HOME', "c d", ""]);
+    expect(splitCommand(`echo "say \\"hi\\""`)).toEqual(["echo", 'say "hi"']);
+  });
+
+  it("does not interpret shell operators", () => {
+    expect(splitCommand("echo 1; rm -rf / | cat")).toEqual(["echo", "1;", "rm", "-rf", "/", "|", "cat"]);
+  });
+
+  it("throws on unterminated quotes", () => {
+    expect(() => splitCommand(`echo "oops`)).toThrow(/Unterminated/);
+  });
+});
+
+describe("parseCollectorOutput", () => {
+  it("parses bare numbers and JSON shapes", () => {
+    expect(parseCollectorOutput(" 42\n")).toEqual({ value: 42, items: [] });
+    expect(parseCollectorOutput('{"value": 3, "summary": "3 queued"}')).toEqual({ value: 3, items: [], summary: "3 queued" });
+    expect(parseCollectorOutput('{"items": [{"id": 1}, "x"]}')).toEqual({ value: 2, items: [{ id: 1 }, { value: "x" }] });
+    expect(parseCollectorOutput("[1, 2, 3]")?.value).toBe(3);
+    expect(parseCollectorOutput('{"summary": "fine"}')).toEqual({ value: null, items: [], summary: "fine" });
+  });
+
+  it("returns null for unparseable output", () => {
+    expect(parseCollectorOutput("")).toBeNull();
+    expect(parseCollectorOutput("all good")).toBeNull();
+    expect(parseCollectorOutput('"text"')).toBeNull();
+  });
+});
+
+describe("thresholdSeverity", () => {
+  it("applies inclusive thresholds", () => {
+    expect(thresholdSeverity(5, 10, 20)).toBe("ok");
+    expect(thresholdSeverity(10, 10, 20)).toBe("warn");
+    expect(thresholdSeverity(25, 10, 20)).toBe("critical");
+    expect(thresholdSeverity(25)).toBe("ok");
+  });
+
+  it("treats lower values as worse when critical < warn", () => {
+    expect(thresholdSeverity(50, 20, 10)).toBe("ok");
+    expect(thresholdSeverity(15, 20, 10)).toBe("warn");
+    expect(thresholdSeverity(5, 20, 10)).toBe("critical");
+  });
+});
+
+describe("runCustomCollector", () => {
+  it("executes the command and maps its value to a severity", async () => {
+    const result = await runCustomCollector(
+      { name: "queue", command: nodePrint("150"), warnThreshold: 100, criticalThreshold: 500 },
+      mockLogger(),
+    );
+    expect(result.collector_name).toBe("custom:queue");
+    expect(result.status).toBe("warn");
+    expect(result.summary).toBe("queue = 150");
+  });
+
+  it("passes JSON items and summary through", async () => {
+    const out = JSON.stringify({ value: 1, summary: "1 stuck job", items: [{ id: "j1" }] });
+    const result = await runCustomCollector({ name: "jobs", command: nodePrint(out), warnThreshold: 1 }, mockLogger());
+    expect(result).toMatchObject({ status: "warn", summary: "1 stuck job", items: [{ id: "j1" }] });
+  });
+
+  it("reports failing, unparseable and invalid commands as warn", async () => {
+    const logger = mockLogger();
+    expect((await runCustomCollector({ name: "missing", command: "/nonexistent/probe" }, logger)).summary).toMatch(/^Command failed/);
+    expect(logger.warn).toHaveBeenCalled();
+    expect((await runCustomCollector({ name: "text", command: nodePrint("hello") }, logger)).status).toBe("warn");
+    expect((await runCustomCollector({ name: "bad", command: `echo "x` }, logger)).summary).toMatch(/^Invalid command/);
+  });
+
+  it("kills commands that exceed their timeout", async () => {
+    const cmd = `"${process.execPath}" -e 'setTimeout(() => {}, 10000)'`;
+    const result = await runCustomCollector({ name: "slow", command: cmd, timeoutSec: 0.2 }, mockLogger());
+    expect(result.status).toBe("warn");
+    expect(result.summary).toContain("timed out");
+  });
+
+  it("caps output size", async () => {
+    const cmd = `"${process.execPath}" -e 'process.stdout.write("9".repeat(200000))'`;
+    expect((await runCustomCollector({ name: "big", command: cmd }, mockLogger())).summary).toContain("output exceeded");
+  });
+
+  it("kills the command when the run is aborted", async () => {
+    const cmd = `"${process.execPath}" -e 'setTimeout(() => {}, 10000)'`;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const startMs = Date.now();
+    const result = await runCustomCollector({ name: "slow", command: cmd }, mockLogger(), controller.signal);
+    expect(result.summary).toBe("Command failed: aborted");
+    expect(Date.now() - startMs).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, writeFileSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { runErrorsCollector, loadErrorPatterns } from "../../src/collectors/errors.js";
+import type { ErrorsCollectorConfig, PluginLogger } from "../../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+function setup(patterns: unknown, logs: Record<string, string>): { dir: string; config: ErrorsCollectorConfig } {
+  const dir = mkdtempSync(join(tmpdir(), "leuko-errors-"));
+  writeFileSync(join(dir, "patterns.json"), JSON.stringify(patterns));
+  for (const [name, content] of Object.entries(logs)) writeFileSync(join(dir, name), content);
+  return {
+    dir,
+    config: {
+      enabled: true,
+      patternsPath: join(dir, "patterns.json"),
+      recentHours: 24,
+      logPaths: Object.keys(logs).map((n) => join(dir, n)),
+    },
+  };
+}
+
+function iso(hoursAgo: number): string {
+  return new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
+}
+
+describe("loadErrorPatterns", () => {
+  it("accepts { patterns: [...] }, defaults severity to warn and skips invalid regexes", () => {
+    const { config } = setup({
+      patterns: [
+        { label: "oom", regex: "out of memory", severity: "critical" },
+        { regex: "timeout" },
+        { label: "broken", regex: "([" },
+      ],
+    }, {});
+    const logger = mockLogger();
+    const patterns = loadErrorPatterns(config.patternsPath, logger);
+    expect(patterns?.map((p) => [p.label, p.severity])).toEqual([["oom", "critical"], ["timeout", "warn"]]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("broken"));
+  });
+
+  it("returns null when the file is missing", () => {
+    expect(loadErrorPatterns("/nonexistent/patterns.json", mockLogger())).toBeNull();
+  });
+});
+
+describe("runErrorsCollector", () => {
+  it("aggregates matches per pattern within recentHours", () => {
+    const { config } = setup(
+      [
+        { label: "oom", regex: "out of memory", severity: "critical" },
+        { label: "timeout", regex: "timed? ?out", flags: "i", severity: "warn" },
+        { label: "never", regex: "no-such-line" },
+      ],
+      {
+        "a.log": [
+          `${iso(48)} ERROR out of memory`,
+          `${iso(2)} ERROR out of memory`,
+          `${iso(1)} WARN request Timed out`,
+        ].join("\n"),
+        "b.log": `${iso(1)} WARN timeout talking to nats\n`,
+      },
+    );
+
+    const result = runErrorsCollector(config, mockLogger());
+    expect(result.collector_name).toBe("errors");
+    expect(result.status).toBe("critical");
+    expect(result.items).toHaveLength(2);
+    expect(result.items[0]).toMatchObject({ label: "timeout", count: 2, severity: "warn" });
+    expect((result.items[0] as { files: string[] }).files).toHaveLength(2);
+    expect(result.items[1]).toMatchObject({ label: "oom", count: 1, severity: "critical" });
+    expect(result.summary).toContain("3 error(s) matching 2 pattern(s)");
+  });
+
+  it("attributes continuation lines to the preceding timestamp", () => {
+    const { config } = setup([{ label: "trace", regex: "at Object\\." }], {
+      "a.log": [`${iso(30)} ERROR boom`, "    at Object.<anonymous>", `${iso(1)} INFO ok`].join("\n"),
+    });
+    expect(runErrorsCollector(config, mockLogger()).items).toHaveLength(0);
+  });
+
+  it("ignores log files not modified within the window", () => {
+    const { dir, config } = setup([{ label: "err", regex: "ERROR" }], { "old.log": "ERROR without timestamp\n" });
+    const old = new Date(Date.now() - 48 * 60 * 60 * 1000);
+    utimesSync(join(dir, "old.log"), old, old);
+    const result = runErrorsCollector(config, mockLogger());
+    expect(result.status).toBe("ok");
+    expect(result.summary).toBe("No errors in last 24h");
+  });
+
+  it("skips gracefully when patterns or logs are missing", () => {
+    const logger = mockLogger();
+    const base: ErrorsCollectorConfig = { enabled: true, patternsPath: "", recentHours: 24, logPaths: [] };
+    expect(runErrorsCollector(base, logger).summary).toContain("No patterns file");
+    expect(runErrorsCollector({ ...base, patternsPath: "/nonexistent.json" }, logger).status).toBe("ok");
+
+    const { config } = setup([{ label: "err", regex: "ERROR" }], {});
+    expect(runErrorsCollector(config, logger).summary).toContain("No log files");
+    const missing = runErrorsCollector({ ...config, logPaths: ["/nonexistent/app.log"] }, logger);
+    expect(missing.status).toBe("ok");
+    expect(missing.items).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, readFileSync, readdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { loadConfig, DEFAULTS } from "../src/config.js";
+import { validateConfig } from "../src/config-schema.js";
+import { CONFIG_VERSION, addMissingDefaults, migrateConfig, type ConfigMigration } from "../src/config-migrations.js";
+import type { PluginLogger } from "../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+const defaults = DEFAULTS as unknown as Record<string, unknown>;
+
+describe("addMissingDefaults", () => {
+  it("adds missing keys recursively without touching existing values or arrays", () => {
+    const raw: Record<string, unknown> = { a: 1, nested: { x: 1 }, list: [1] };
+    const changes = addMissingDefaults(raw, { a: 2, b: 3, nested: { x: 2, y: 3 }, list: [9, 9] });
+    expect(raw).toEqual({ a: 1, b: 3, nested: { x: 1, y: 3 }, list: [1] });
+    expect(changes).toEqual(["added b", "added nested.y"]);
+  });
+});
+
+describe("migrateConfig", () => {
+  it("upgrades an unversioned file with current defaults", () => {
+    const input = { intervalMinutes: 60, checks: { thread_health: { staleDays: 9 } } };
+    const result = migrateConfig(input, defaults);
+    expect(result.fromVersion).toBe(1);
+    expect(result.toVersion).toBe(CONFIG_VERSION);
+    expect(result.raw["intervalMinutes"]).toBe(60);
+    expect(result.raw["configVersion"]).toBe(CONFIG_VERSION);
+    expect((result.raw["checks"] as Record<string, Record<string, unknown>>)["thread_health"]!["staleDays"]).toBe(9);
+    expect(result.changes).toContain("added checks.anomaly_detection");
+    expect(result.changes.at(-1)).toBe(`configVersion 1 → ${CONFIG_VERSION}`);
+    expect(input).toEqual({ intervalMinutes: 60, checks: { thread_health: { staleDays: 9 } } });
+    expect(validateConfig(result.raw)).toEqual([]);
+  });
+
+  it("adds maxChunkTokens to configured goal_quality / thread_health checks (v3 → v4)", () => {
+    const result = migrateConfig({ configVersion: 3, checks: { goal_quality: { enabled: false } } }, defaults);
+    expect(result.changes.slice(0, 2)).toEqual(["added checks.goal_quality.maxChunkTokens", "added checks.goal_quality.maxChunks"]);
+    expect(result.raw["checks"]).toMatchObject({ goal_quality: { enabled: false, maxChunkTokens: 1500 } });
+  });
+
+  it("adds maxChunks to configured goal_quality / thread_health checks (v4 → v5)", () => {
+    const result = migrateConfig({ configVersion: 4, checks: { thread_health: { staleDays: 9 } } }, defaults);
+    expect(result.changes).toContain("added checks.thread_health.maxChunks");
+    expect(result.raw["checks"]).toMatchObject({ thread_health: { staleDays: 9, maxChunks: 8 }, goal_quality: { maxChunks: 8 } });
+  });
+
+  it("moves llm.primary / llm.fallback into llm.providers (v2 → v3)", () => {
+    const result = migrateConfig({
+      configVersion: 2,
+      llm: { primary: { model: "qwen3:32b" }, fallback: { provider: "openai", model: "gpt-4o-mini", baseUrl: "https://api.openai.com" } },
+    }, defaults);
+    const llm = result.raw["llm"] as Record<string, unknown>;
+    expect(llm["primary"]).toBeUndefined();
+    expect(llm["providers"]).toEqual([
+      { provider: "ollama", model: "qwen3:32b", baseUrl: "http://localhost:11434", timeoutSec: 30 },
+      { provider: "openai", model: "gpt-4o-mini", baseUrl: "https://api.openai.com", timeoutSec: 30, maxCostUsd: 0.05, maxDailyCostUsd: 0.5 },
+    ]);
+    expect(result.changes).toContain("moved llm.primary, llm.fallback → llm.providers");
+    expect(result.changes).toContain("added llm.circuitBreaker");
+    expect(validateConfig(result.raw)).toEqual([]);
+  });
+
+  it("leaves current and newer files unchanged", () => {
+    expect(migrateConfig({ configVersion: CONFIG_VERSION }, defaults).changes).toEqual([]);
+    expect(migrateConfig({ configVersion: CONFIG_VERSION + 1 }, defaults).changes).toEqual([]);
+  });
+
+  it("runs steps in order", () => {
+    const steps: ConfigMigration[] = [
+      {
+        from: 2,
+        description: "rename",
+        migrate: (raw) => {
+          raw["intervalMinutes"] = raw["interval"];
+          delete raw["interval"];
+          return ["moved interval → intervalMinutes"];
+        },
+      },
+      { from: 1, description: "add", migrate: (raw, d) => addMissingDefaults(raw, d) },
+    ];
+    const result = migrateConfig({ interval: 30 }, { enabled: true }, steps, 3);
+    expect(result.raw).toEqual({ enabled: true, intervalMinutes: 30, configVersion: 3 });
+    expect(result.changes).toEqual(["added enabled", "moved interval → intervalMinutes", "configVersion 1 → 3"]);
+  });
+
+  it("throws when a step is missing", () => {
+    expect(() => migrateConfig({}, {}, [], 2)).toThrow("No config migration from version 1");
+  });
+});
+
+describe("loadConfig migrations", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "leuko-migrate-"));
+    path = join(dir, "config.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("backs up and rewrites an older file, reporting the changes", () => {
+    const original = JSON.stringify({ intervalMinutes: 60 });
+    writeFileSync(path, original);
+    const logger = mockLogger();
+    const result = loadConfig({ configPath: path }, logger);
+
+    expect(result.config.intervalMinutes).toBe(60);
+    expect(result.migration?.fromVersion).toBe(1);
+    expect(result.issues).toEqual([]);
+    expect(readFileSync(`${path}.v1.bak`, "utf-8")).toBe(original);
+    const written = JSON.parse(readFileSync(path, "utf-8")) as Record<string, unknown>;
+    expect(written["configVersion"]).toBe(CONFIG_VERSION);
+    expect(written["lockTimeoutMs"]).toBe(DEFAULTS.lockTimeoutMs);
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining(`from v1 to v${CONFIG_VERSION}`));
+    expect(logger.info).toHaveBeenCalledWith("[leuko]   added lockTimeoutMs");
+  });
+
+  it("does not touch a current file", () => {
+    writeFileSync(path, JSON.stringify({ configVersion: CONFIG_VERSION, intervalMinutes: 60 }));
+    const result = loadConfig({ configPath: path }, mockLogger());
+    expect(result.migration).toBeUndefined();
+    expect(readdirSync(dir)).toEqual(["config.json"]);
+  });
+
+  it("bootstraps new files at the current version", () => {
+    const result = loadConfig({ configPath: path }, mockLogger());
+    expect(result.migration).toBeUndefined();
+    expect(JSON.parse(readFileSync(path, "utf-8"))["configVersion"]).toBe(CONFIG_VERSION);
+    expect(existsSync(`${path}.v1.bak`)).toBe(false);
+  });
+});
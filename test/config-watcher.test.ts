@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, readFileSync, rmSync, renameSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { loadConfig } from "../src/config.js";
+import { CONFIG_VERSION } from "../src/config-migrations.js";
+import { createConfigHolder, diffConfig, reloadConfig, watchConfigFile } from "../src/config-watcher.js";
+import type { PluginLogger } from "../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+describe("diffConfig", () => {
+  it("lists changed leaves by path, masking secrets", () => {
+    const prev = { intervalMinutes: 120, checks: { thread_health: { staleDays: 5 } }, llm: { primary: { apiKey: "a" } }, metrics: [] };
+    const next = { intervalMinutes: 60, checks: { thread_health: { staleDays: 5 } }, llm: { primary: { apiKey: "b" } }, metrics: [{ name: "m" }] };
+    expect(diffConfig(prev, next)).toEqual([
+      "intervalMinutes: 120 → 60",
+      "llm.primary.apiKey: *** → ***",
+      "metrics: [] → [{\"name\":\"m\"}]",
+    ]);
+    expect(diffConfig(prev, prev)).toEqual([]);
+    expect(diffConfig({ a: 1 }, {})).toEqual(["a: 1 → (unset)"]);
+  });
+});
+
+describe("config reload", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "leuko-reload-"));
+    path = join(dir, "config.json");
+    writeFileSync(path, JSON.stringify({ intervalMinutes: 120, checks: { thread_health: { staleDays: 5 } } }));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function setup() {
+    const logger = mockLogger();
+    const holder = createConfigHolder(loadConfig({ configPath: path }, logger));
+    const listener = vi.fn();
+    holder.onChange(listener);
+    return { logger, holder, listener };
+  }
+
+  it("swaps in a valid file and logs the diff", () => {
+    const { logger, holder, listener } = setup();
+    writeFileSync(path, JSON.stringify({ intervalMinutes: 30, checks: { thread_health: { staleDays: 7 } } }));
+    expect(reloadConfig(path, holder, { logger })).toBe(true);
+    expect(holder.current().checks.thread_health.staleDays).toBe(7);
+    expect(listener).toHaveBeenCalledWith(holder.current(), expect.objectContaining({ intervalMinutes: 120 }));
+    expect(logger.info).toHaveBeenCalledWith(`[leuko] Config reloaded from ${path} (2 change(s))`);
+    expect(logger.info).toHaveBeenCalledWith("[leuko]   checks.thread_health.staleDays: 5 → 7");
+  });
+
+  it("keeps the current config when the new file has schema issues", () => {
+    const { logger, holder, listener } = setup();
+    writeFileSync(path, JSON.stringify({ checks: { thread_health: { staleDays: "7" } } }));
+    expect(reloadConfig(path, holder, { logger })).toBe(false);
+    expect(holder.current().checks.thread_health.staleDays).toBe(5);
+    expect(listener).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Config reload rejected — 1 issue(s)"));
+  });
+
+  it("migrates an older file on reload without rewriting it", () => {
+    const { logger, holder } = setup();
+    const v2 = JSON.stringify({ configVersion: 2, intervalMinutes: 120, llm: { primary: { model: "qwen3:32b" } } });
+    writeFileSync(path, v2);
+    expect(reloadConfig(path, holder, { logger })).toBe(true);
+    expect(holder.current().llm.providers[0]?.model).toBe("qwen3:32b");
+    expect(holder.loaded().migration?.fromVersion).toBe(2);
+    expect(readFileSync(path, "utf-8")).toBe(v2);
+
+    writeFileSync(path, JSON.stringify({ configVersion: CONFIG_VERSION, intervalMinutes: 60 }));
+    expect(reloadConfig(path, holder, { logger })).toBe(true);
+    expect(holder.loaded().migration).toBeUndefined();
+  });
+
+  it("keeps the current config when the new file is not valid JSON", () => {
+    const { logger, holder, listener } = setup();
+    writeFileSync(path, "{ \"intervalMinutes\": ");
+    expect(reloadConfig(path, holder, { logger })).toBe(false);
+    expect(holder.current().intervalMinutes).toBe(120);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("reloads once after a burst of writes, including rename-replace", async () => {
+    const { logger, holder, listener } = setup();
+    const watcher = watchConfigFile(path, holder, { logger, debounceMs: 50 });
+    try {
+      writeFileSync(path, JSON.stringify({ intervalMinutes: 90 }));
+      const tmp = join(dir, "config.json.tmp");
+      writeFileSync(tmp, JSON.stringify({ intervalMinutes: 45 }));
+      renameSync(tmp, path);
+      await vi.waitFor(() => expect(holder.current().intervalMinutes).toBe(45), { timeout: 3000, interval: 25 });
+      await new Promise((r) => setTimeout(r, 150));
+      expect(listener).toHaveBeenCalledTimes(1);
+    } finally {
+      watcher.close();
+    }
+  });
+});
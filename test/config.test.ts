@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
 import { resolveConfig, loadConfig, DEFAULTS } from "../src/config.js";
+import { CONFIG_SCHEMA, validateConfig } from "../src/config-schema.js";
+import { formatIssue } from "../src/schema.js";
 import type { PluginLogger } from "../src/types.js";
 
 function mockLogger(): PluginLogger {
@@ -17,16 +21,19 @@ describe("resolveConfig", () => {
     expect(config.enabled).toBe(true);
     expect(config.intervalMinutes).toBe(120);
     expect(config.runTimeoutSec).toBe(120);
-    expect(config.llm.primary.model).toBe("qwen3:14b");
+    expect(config.maxConcurrency).toBe(2);
+    expect(config.llm.providers[0]!.model).toBe("qwen3:14b");
     expect(config.checks.goal_quality.enabled).toBe(true);
     expect(config.checks.pipeline_correlation.usesLlm).toBe(false);
     expect(config.checks.anomaly_detection.usesLlm).toBe(false);
+    expect(config.history.maxSnapshots).toBe(500);
+    expect(config.history.downsampleAfterDays).toBe(7);
   });
 
   it("returns defaults when called with empty object", () => {
     const config = resolveConfig({});
     expect(config.enabled).toBe(true);
-    expect(config.llm.primary.provider).toBe("ollama");
+    expect(config.llm.providers[0]!.provider).toBe("ollama");
   });
 
   it("overrides top-level fields", () => {
@@ -34,22 +41,98 @@ describe("resolveConfig", () => {
       enabled: false,
       intervalMinutes: 60,
       runTimeoutSec: 30,
+      maxConcurrency: 1,
     });
     expect(config.enabled).toBe(false);
     expect(config.intervalMinutes).toBe(60);
     expect(config.runTimeoutSec).toBe(30);
+    expect(config.maxConcurrency).toBe(1);
   });
 
   it("overrides LLM config", () => {
     const config = resolveConfig({
       llm: {
-        primary: { provider: "openai", model: "gpt-4o", baseUrl: "https://api.openai.com", timeoutSec: 60 },
-        fallback: { provider: "ollama", model: "llama3:8b", baseUrl: "http://localhost:11434", timeoutSec: 15 },
+        providers: [
+          { provider: "openai", model: "gpt-4o", baseUrl: "https://api.openai.com", timeoutSec: 60 },
+          { provider: "anthropic", model: "claude-haiku" },
+          { provider: "ollama", model: "llama3:8b", baseUrl: "http://localhost:11434" },
+        ],
+        circuitBreaker: { failureThreshold: 5 },
+        retry: { maxRetries: 0 },
+      },
+    });
+    expect(config.llm.providers.map((p) => `${p.provider}/${p.model}`)).toEqual(["openai/gpt-4o", "ollama/llama3:8b"]);
+    expect(config.llm.providers[1]!.timeoutSec).toBe(30);
+    expect(config.llm.circuitBreaker).toEqual({ failureThreshold: 5, cooldownSec: 600 });
+    expect(config.llm.retry).toEqual({ maxRetries: 0, backoffMs: 1000 });
+  });
+
+  it("still accepts the inline primary/fallback pair", () => {
+    const config = resolveConfig({
+      llm: { primary: { provider: "openai", model: "gpt-4o", baseUrl: "https://api.openai.com" } },
+    });
+    expect(config.llm.providers.map((p) => `${p.provider}/${p.model}`)).toEqual(["openai/gpt-4o", "litellm/gemini/gemini-2.0-flash-lite"]);
+  });
+
+  it("resolves business-hours schedules and holidays", () => {
+    const config = resolveConfig({
+      checks: {
+        pipeline_correlation: {
+          businessHours: {
+            start: 9, end: 17.5, tz: "America/New_York",
+            weekdays: { sat: { start: 10 }, sun: null, fun: { start: 1 } },
+            holidays: ["2026-12-25", "christmas", 7],
+          },
+        },
       },
     });
-    expect(config.llm.primary.provider).toBe("openai");
-    expect(config.llm.primary.model).toBe("gpt-4o");
-    expect(config.llm.fallback.model).toBe("llama3:8b");
+    expect(config.checks.pipeline_correlation.businessHours).toEqual({
+      start: 9, end: 17.5, tz: "America/New_York",
+      weekdays: { sat: { start: 10, end: 17.5 }, sun: null },
+      holidays: ["2026-12-25"],
+    });
+  });
+
+  it("resolves correlation rules and drops invalid ones", () => {
+    expect(resolveConfig({}).checks.pipeline_correlation.rules).toEqual([]);
+    const config = resolveConfig({
+      checks: {
+        pipeline_correlation: {
+          rules: [
+            {
+              diagnosis: "digest_stale",
+              severity: "critical",
+              input: { signal: "daemon_check:cron_health:digest", op: "==", value: 0 },
+              output: { signal: "file_age_hours:~/digest.md", op: ">" },
+              windowHours: 6,
+            },
+            { diagnosis: "bad_op", severity: "warn", input: { signal: "nats_messages:", op: "~", value: 1 }, output: { signal: "nats_messages:", op: ">" } },
+            { diagnosis: "bad_signal", severity: "warn", input: { signal: "weather:berlin", op: ">" }, output: { signal: "nats_messages:", op: ">" } },
+            { diagnosis: "bad_severity", severity: "info", input: { signal: "nats_messages:", op: ">" }, output: { signal: "nats_messages:", op: ">" } },
+          ],
+        },
+      },
+    });
+    expect(config.checks.pipeline_correlation.rules).toEqual([{
+      diagnosis: "digest_stale",
+      severity: "critical",
+      input: { signal: "daemon_check:cron_health:digest", op: "==", value: 0 },
+      output: { signal: "file_age_hours:~/digest.md", op: ">" },
+      windowHours: 6,
+      businessHoursOnly: false,
+    }]);
+  });
+
+  it("resolves budgets and pricing overrides", () => {
+    expect(resolveConfig({}).llm.providers[1]!.maxDailyCostUsd).toBe(0.5);
+    const config = resolveConfig({
+      llm: {
+        providers: [{ provider: "litellm", model: "gpt-4o-mini", baseUrl: "http://localhost:4000", maxCostUsd: 0.01, maxDailyCostUsd: 0.1 }],
+        pricing: { "acme/model": { promptPerMTok: 1, completionPerMTok: 2 }, broken: { promptPerMTok: "x" } },
+      },
+    });
+    expect(config.llm.providers[0]).toMatchObject({ maxCostUsd: 0.01, maxDailyCostUsd: 0.1 });
+    expect(config.llm.pricing).toEqual({ "acme/model": { promptPerMTok: 1, completionPerMTok: 2 } });
   });
 
   it("overrides individual check configs", () => {
@@ -78,6 +161,71 @@ describe("resolveConfig", () => {
     expect(config.checks.anomaly_detection.monitoredDirs[0]?.path).toBe("/data");
   });
 
+  it("resolves statistical anomaly metrics with defaults", () => {
+    const config = resolveConfig({
+      checks: {
+        anomaly_detection: {
+          statistical: [
+            { metric: "fact_count" },
+            { metric: "memory_dir_mb", method: "ewma", seasonality: "day_of_week", sensitivity: "high", window: 20, minSamples: 4 },
+            { metric: "x", method: "magic", sensitivity: "extreme" },
+            { method: "mad" },
+          ],
+        },
+      },
+    });
+    expect(config.checks.anomaly_detection.statistical).toEqual([
+      { metric: "fact_count", method: "mad", seasonality: "none", sensitivity: "medium", window: 50, minSamples: 8 },
+      { metric: "memory_dir_mb", method: "ewma", seasonality: "day_of_week", sensitivity: "high", window: 20, minSamples: 4 },
+      { metric: "x", method: "mad", seasonality: "none", sensitivity: "medium", window: 50, minSamples: 8 },
+    ]);
+  });
+
+  it("resolves trend rules with data-loss defaults", () => {
+    expect(resolveConfig({}).checks.anomaly_detection.trends).toContainEqual({
+      metric: "fact_count", direction: "decreasing", minRun: 3, severity: "warn", criticalRun: 5,
+    });
+    const config = resolveConfig({
+      checks: { anomaly_detection: { trends: [{ metric: "queue", direction: "increasing", minRun: 4, severity: "critical" }, { direction: "up" }] } },
+    });
+    expect(config.checks.anomaly_detection.trends).toEqual([
+      { metric: "queue", direction: "increasing", minRun: 4, severity: "critical" },
+    ]);
+  });
+
+  it("resolves metric sources and drops incomplete ones", () => {
+    expect(resolveConfig({}).metrics).toEqual([]);
+    const config = resolveConfig({
+      metrics: [
+        { name: "facts", type: "json_count", path: "~/facts.json", jsonPath: "facts" },
+        { name: "rows", type: "sqlite", path: "/db.sqlite", query: "SELECT COUNT(*) FROM t", timeoutSec: 5 },
+        { name: "no_query", type: "sqlite", path: "/db.sqlite" },
+        { name: "no_path", type: "line_count" },
+        { name: "weird", type: "xml_count", path: "/x" },
+      ],
+    });
+    expect(config.metrics).toEqual([
+      { name: "facts", type: "json_count", path: "~/facts.json", jsonPath: "facts" },
+      { name: "rows", type: "sqlite", path: "/db.sqlite", query: "SELECT COUNT(*) FROM t", timeoutSec: 5 },
+    ]);
+  });
+
+  it("resolves monitored dir excludes, depth and scan budget", () => {
+    expect(resolveConfig({}).checks.anomaly_detection.scanBudgetMs).toBe(10_000);
+    const config = resolveConfig({
+      checks: {
+        anomaly_detection: {
+          scanBudgetMs: 2000,
+          monitoredDirs: [{ path: "/data", label: "data", exclude: ["*.tmp", 3, "cache/**"], maxDepth: 4 }],
+        },
+      },
+    });
+    expect(config.checks.anomaly_detection.scanBudgetMs).toBe(2000);
+    expect(config.checks.anomaly_detection.monitoredDirs[0]).toEqual({
+      path: "/data", label: "data", exclude: ["*.tmp", "cache/**"], maxDepth: 4,
+    });
+  });
+
   it("handles invalid monitored dirs gracefully", () => {
     const config = resolveConfig({
       checks: {
@@ -92,14 +240,16 @@ describe("resolveConfig", () => {
   it("overrides adopted collectors config", () => {
     const config = resolveConfig({
       adoptedCollectors: {
-        errors: { enabled: true, patternsPath: "/errors.json", recentHours: 48 },
-        custom: [{ name: "disk", command: "df -h", warnThreshold: 80 }],
+        errors: { enabled: true, patternsPath: "/errors.json", recentHours: 48, logPaths: ["/var/log/a.log", "", 3] },
+        custom: [{ name: "disk", command: "df -h", warnThreshold: 80, timeoutSec: 5 }],
       },
     });
     expect(config.adoptedCollectors.errors.enabled).toBe(true);
     expect(config.adoptedCollectors.errors.recentHours).toBe(48);
+    expect(config.adoptedCollectors.errors.logPaths).toEqual(["/var/log/a.log"]);
     expect(config.adoptedCollectors.custom).toHaveLength(1);
     expect(config.adoptedCollectors.custom[0]?.name).toBe("disk");
+    expect(config.adoptedCollectors.custom[0]?.timeoutSec).toBe(5);
   });
 
   it("filters out custom collectors without command", () => {
@@ -131,6 +281,24 @@ describe("resolveConfig", () => {
     expect(config.enabled).toBe(true); // fallback to default
     expect(config.intervalMinutes).toBe(120); // fallback to default
   });
+
+  it("uses the default for every number the schema rejects", () => {
+    const config = resolveConfig({
+      intervalMinutes: -5,
+      maxConcurrency: 0,
+      history: { maxAgeDays: 0, maxSnapshots: 50 },
+      checks: { thread_health: { staleDays: 2.5 }, goal_quality: { maxChunkTokens: -1 } },
+      llm: { providers: [{ provider: "ollama", model: "m", baseUrl: "http://localhost:11434", timeoutSec: -1 }] },
+    });
+    expect(config.intervalMinutes).toBe(DEFAULTS.intervalMinutes);
+    expect(config.maxConcurrency).toBe(DEFAULTS.maxConcurrency);
+    expect(config.history.maxAgeDays).toBe(DEFAULTS.history.maxAgeDays);
+    expect(config.history.maxSnapshots).toBe(50);
+    expect(config.checks.thread_health.staleDays).toBe(DEFAULTS.checks.thread_health.staleDays);
+    expect(config.checks.goal_quality.maxChunkTokens).toBe(DEFAULTS.checks.goal_quality.maxChunkTokens);
+    expect(config.llm.providers[0]!.model).toBe("m");
+    expect(config.llm.providers[0]!.timeoutSec).toBe(DEFAULTS.llm.providers[0]!.timeoutSec);
+  });
 });
 
 describe("loadConfig", () => {
@@ -157,3 +325,51 @@ describe("loadConfig", () => {
     expect(result.config.enabled).toBe(true);
   });
 });
+
+describe("config schema", () => {
+  it("accepts the defaults", () => {
+    expect(validateConfig(JSON.parse(JSON.stringify(DEFAULTS)))).toEqual([]);
+  });
+
+  it("reports wrong types, bad values and unknown keys with their path", () => {
+    const issues = validateConfig({
+      intervalMinutes: -1,
+      staleDays: 5,
+      checks: {
+        thread_health: { staleDays: "5" },
+        pipeline_correlation: {
+          businessHours: { weekdays: { sun: true, sat: null }, holidays: ["24.12.2026"] },
+          rules: [{ diagnosis: "x", severity: "warn", input: { signal: "bogus:1", op: ">" } }],
+        },
+      },
+      metrics: [{ name: "m", type: "xml" }],
+      llm: { pricing: { "ollama/qwen": { promptPerMTok: 0 } } },
+    }).map(formatIssue);
+    expect(issues).toEqual([
+      "intervalMinutes: must be >= 0, got -1",
+      "staleDays: unknown field",
+      "checks.thread_health.staleDays: expected integer, got string \"5\"",
+      "checks.pipeline_correlation.businessHours.weekdays.sun: must be one of false, got true",
+      "checks.pipeline_correlation.businessHours.holidays[0]: must match ^\\d{4}-\\d{2}-\\d{2}$, got \"24.12.2026\"",
+      "checks.pipeline_correlation.rules[0].output: required",
+      expect.stringMatching(/^checks\.pipeline_correlation\.rules\[0\]\.input\.signal: must match/),
+      "metrics[0].type: must be one of \"json_count\", \"line_count\", \"sqlite\", \"command\", got \"xml\"",
+      "llm.pricing.ollama/qwen.completionPerMTok: required",
+    ]);
+  });
+
+  it("is logged by loadConfig and returned with the result", () => {
+    const logger = mockLogger();
+    const result = loadConfig({ statusPath: "/custom", checks: { thread_health: { staleDays: "5" } } }, logger);
+    expect(result.config.checks.thread_health.staleDays).toBe(5);
+    expect(result.issues).toHaveLength(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "[leuko] Config checks.thread_health.staleDays: expected integer, got string \"5\"",
+    );
+  });
+
+  it("is published unchanged in openclaw.plugin.json", () => {
+    const manifest = JSON.parse(readFileSync(join(__dirname, "..", "openclaw.plugin.json"), "utf-8"));
+    expect(manifest.configSchema).toEqual(JSON.parse(JSON.stringify(CONFIG_SCHEMA)));
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, utimesSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { compare, evaluateCorrelationRules, resolveSignal, type SignalContext } from "../src/correlation-rules.js";
+import type { BusinessHoursWindow, CorrelationRule, DaemonCheck, PluginLogger } from "../src/types.js";
+import type { NatsStreamInfo } from "../src/nats-client.js";
+
+const NOW = Date.parse("2026-07-01T12:00:00Z");
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+function check(check_name: string, severity: DaemonCheck["severity"]): DaemonCheck {
+  return { check_name, severity, detail: "", auto_healed: false, timestamp: "" };
+}
+
+const stream: NatsStreamInfo = {
+  name: "memory-events", messages: 250, bytes: 1000, first_seq: 1, last_seq: 250,
+  last_ts: new Date(NOW - 3 * 60 * 60 * 1000).toISOString(), max_msgs: -1, max_bytes: -1,
+  consumers: [{
+    name: "extractor", num_pending: 7, num_ack_pending: 3, num_redelivered: 0, num_waiting: 0,
+    delivered_stream_seq: 240, ack_floor_stream_seq: 237, last_active: null, lag: 10,
+  }],
+};
+
+function ctx(overrides: Partial<SignalContext> = {}): SignalContext {
+  return {
+    daemonChecks: [check("cron_health:digest", "ok"), check("output_freshness:a", "warn"), check("output_freshness:b", "critical")],
+    collectors: [
+      { collector_name: "custom:queue", status: "ok", items: [], summary: "", value: 42, duration_ms: 0, timestamp: "" },
+      { collector_name: "errors", status: "warn", items: [{}, {}], summary: "", duration_ms: 0, timestamp: "" },
+    ],
+    stream,
+    nowMs: NOW,
+    ...overrides,
+  };
+}
+
+const openWindow: BusinessHoursWindow = { in_business_hours: true, tz: "UTC", local_time: "2026-07-01T12:00", weekday: "wed", hours: "08:00-22:00", holiday: false };
+const closedWindow: BusinessHoursWindow = { ...openWindow, in_business_hours: false };
+
+describe("resolveSignal", () => {
+  let dir: string | undefined;
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("reads file ages", () => {
+    dir = mkdtempSync(join(tmpdir(), "leuko-rules-"));
+    const file = join(dir, "out.json");
+    writeFileSync(file, "{}");
+    const mtime = new Date(NOW - 5 * 60 * 60 * 1000);
+    utimesSync(file, mtime, mtime);
+    expect(resolveSignal(`file_age_hours:${file}`, ctx())).toBeCloseTo(5, 5);
+    expect(resolveSignal(`file_age_hours:${join(dir, "missing")}`, ctx())).toBeNull();
+  });
+
+  it("reads daemon check states by name or prefix", () => {
+    expect(resolveSignal("daemon_check:cron_health:digest", ctx())).toBe(0);
+    expect(resolveSignal("daemon_check:output_freshness:*", ctx())).toBe(2);
+    expect(resolveSignal("daemon_checks_failing:output_freshness:*", ctx())).toBe(2);
+    expect(resolveSignal("daemon_check:unknown", ctx())).toBeNull();
+  });
+
+  it("reads NATS stream and consumer values", () => {
+    expect(resolveSignal("nats_messages:", ctx())).toBe(250);
+    expect(resolveSignal("nats_last_message_age_hours:", ctx())).toBeCloseTo(3, 5);
+    expect(resolveSignal("nats_consumer_lag:extractor", ctx())).toBe(10);
+    expect(resolveSignal("nats_consumer_lag:other", ctx())).toBeNull();
+    expect(resolveSignal("nats_messages:", ctx({ stream: null }))).toBeNull();
+  });
+
+  it("reads collector values, falling back to the item count", () => {
+    expect(resolveSignal("collector:custom:queue", ctx())).toBe(42);
+    expect(resolveSignal("collector:errors", ctx())).toBe(2);
+    expect(resolveSignal("collector:missing", ctx())).toBeNull();
+  });
+
+  it("returns null for unknown providers", () => {
+    expect(resolveSignal("weather:berlin", ctx())).toBeNull();
+    expect(resolveSignal("toString:x", ctx())).toBeNull();
+  });
+});
+
+describe("compare", () => {
+  it("supports all operators", () => {
+    expect(compare(3, ">", 2)).toBe(true);
+    expect(compare(2, ">=", 2)).toBe(true);
+    expect(compare(1, "<", 2)).toBe(true);
+    expect(compare(3, "<=", 2)).toBe(false);
+    expect(compare(2, "==", 2)).toBe(true);
+    expect(compare(2, "!=", 2)).toBe(false);
+  });
+});
+
+describe("evaluateCorrelationRules", () => {
+  const rule: CorrelationRule = {
+    diagnosis: "extractor_behind",
+    severity: "warn",
+    input: { signal: "nats_messages:", op: ">", value: 0 },
+    output: { signal: "nats_consumer_lag:extractor", op: ">=" },
+  };
+
+  it("fires when both conditions hold, using windowHours as the default value", () => {
+    const fired = evaluateCorrelationRules([{ ...rule, windowHours: 10 }], ctx(), openWindow, 2, mockLogger());
+    expect(fired).toEqual([{
+      input: "nats_messages:", input_value: 250,
+      output: "nats_consumer_lag:extractor", output_value: 10,
+      diagnosis: "extractor_behind", severity: "warn",
+    }]);
+    expect(evaluateCorrelationRules([{ ...rule, windowHours: 11 }], ctx(), openWindow, 2, mockLogger())).toEqual([]);
+    // Falls back to the check's correlationWindowHours
+    expect(evaluateCorrelationRules([rule], ctx(), openWindow, 2, mockLogger())).toHaveLength(1);
+  });
+
+  it("skips rules whose signals are unavailable", () => {
+    const logger = mockLogger();
+    expect(evaluateCorrelationRules([rule], ctx({ stream: null }), openWindow, 2, logger)).toEqual([]);
+    expect(logger.debug).toHaveBeenCalledWith(expect.stringContaining("signal nats_messages: unavailable"));
+  });
+
+  it("honours businessHoursOnly and attaches the window", () => {
+    const bhRule = { ...rule, businessHoursOnly: true };
+    expect(evaluateCorrelationRules([bhRule], ctx(), closedWindow, 2, mockLogger())).toEqual([]);
+    const [entry] = evaluateCorrelationRules([bhRule], ctx(), openWindow, 2, mockLogger());
+    expect(entry?.window).toEqual(openWindow);
+  });
+});
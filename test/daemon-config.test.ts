@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { readDaemonConfig, validateDaemonConfig, validateConfigCli } from "../src/daemon/config.js";
+import { main } from "../src/daemon/index.js";
+
+const HOME = process.env["HOME"] ?? "/tmp";
+
+function writeConfig(raw: unknown): string {
+  const p = join(mkdtempSync(join(tmpdir(), "leuko-dcfg-")), "daemon.json");
+  writeFileSync(p, typeof raw === "string" ? raw : JSON.stringify(raw));
+  return p;
+}
+
+function errorsFor(raw: unknown): string[] {
+  return validateDaemonConfig(raw, {}).errors;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  process.exitCode = undefined;
+});
+
+describe("validateDaemonConfig()", () => {
+  it("accepts a complete config without errors", () => {
+    const { config, errors } = validateDaemonConfig({
+      statusPath: "~/.openclaw/s.json", workspace: "~/clawd", watchIntervalMin: 5, lockTimeoutMs: 1000,
+      checks: {
+        file_freshness: { enabled: true, targets: [{ name: "boot", path: "~/clawd/BOOTSTRAP.md", warnHours: 4, critHours: 8 }] },
+        service_health: { endpoints: [
+          { name: "nats", type: "tcp", host: "localhost", port: 4222 },
+          { name: "ollama", type: "http", url: "http://localhost:11434/api/tags", timeoutMs: 2000 },
+        ] },
+        disk_usage: { warnPercent: 80, critPercent: 90, mounts: ["~"] },
+        gateway_alive: { enabled: false },
+        plugin_loading: { enabled: true },
+      },
+      heal: { enabled: true, actions: [{ check: "disk_usage:*", type: "prune", path: "~/logs" }] },
+    }, {});
+    expect(errors).toEqual([]);
+    expect(config.statusPath).toBe(`${HOME}/.openclaw/s.json`);
+    expect(config.workspace).toBe(`${HOME}/clawd`);
+    expect(config.checks.file_freshness.targets[0]?.path).toBe(`${HOME}/clawd/BOOTSTRAP.md`);
+    expect(config.checks.service_health.endpoints[0]).toMatchObject({ type: "tcp", timeoutMs: 3000 });
+    expect(config.checks.gateway_alive.enabled).toBe(false);
+    expect(config.checks.disk_usage).toMatchObject({ warnPercent: 80, critPercent: 90, mounts: [{ path: HOME }] });
+  });
+
+  it("rejects a non-object document", () => {
+    expect(errorsFor([1, 2])).toEqual(["config: expected an object, got [1,2]"]);
+  });
+
+  it("reports unknown fields at every level", () => {
+    expect(errorsFor({ statusPth: "/x", checks: { disk: {}, gateway_alive: { enabld: true } } })).toEqual([
+      "statusPth: unknown field",
+      "checks.disk: unknown field",
+      "checks.gateway_alive.enabld: unknown field",
+    ]);
+  });
+
+  it("rejects wrongly typed and out-of-range scalars, keeping defaults", () => {
+    const { config, errors } = validateDaemonConfig({
+      statusPath: 42, workspace: "", watchIntervalMin: 0, lockTimeoutMs: -1,
+      checks: { plugin_loading: { enabled: "yes" }, disk_usage: { critPercent: 150 } },
+    }, {});
+    expect(errors).toEqual([
+      "statusPath: expected a non-empty string, got 42",
+      "workspace: expected a non-empty string, got \"\"",
+      "watchIntervalMin: must be between 1 and 1440, got 0",
+      "lockTimeoutMs: must be >= 0, got -1",
+      "checks.plugin_loading.enabled: expected true or false, got \"yes\"",
+      "checks.disk_usage.critPercent: must be between 0 and 100, got 150",
+    ]);
+    expect(config).toMatchObject({ watchIntervalMin: 15, lockTimeoutMs: 5000 });
+    expect(config.checks.plugin_loading.enabled).toBe(true);
+    expect(config.checks.disk_usage.critPercent).toBe(95);
+  });
+
+  it("drops malformed freshness targets", () => {
+    const { config, errors } = validateDaemonConfig({ checks: { file_freshness: { targets: [
+      { name: "ok", path: "/tmp/x", warnHours: 1, critHours: 2 },
+      { name: "no-path", warnHours: 1, critHours: 2 },
+      { name: "inverted", path: "/tmp/y", warnHours: 8, critHours: 2 },
+      "BOOTSTRAP.md",
+    ] } } }, {});
+    expect(config.checks.file_freshness.targets.map(t => t.name)).toEqual(["ok"]);
+    expect(errors).toEqual([
+      "checks.file_freshness.targets[1].path: required",
+      "checks.file_freshness.targets[2].critHours: must be >= warnHours (8), got 2",
+      "checks.file_freshness.targets[3]: expected an object, got \"BOOTSTRAP.md\"",
+    ]);
+  });
+
+  it("drops malformed service endpoints", () => {
+    const { config, errors } = validateDaemonConfig({ checks: { service_health: { endpoints: [
+      { name: "a", type: "udp" },
+      { name: "b", type: "http", url: "file:///etc/passwd" },
+      { name: "c", type: "tcp", host: "local host", port: 70000 },
+      { type: "tcp", host: "localhost", port: 1 },
+    ] } } }, {});
+    expect(config.checks.service_health.endpoints).toEqual([]);
+    expect(errors).toEqual([
+      "checks.service_health.endpoints[0].type: expected \"http\" or \"tcp\", got \"udp\"",
+      "checks.service_health.endpoints[1].url: expected an http(s) URL, got \"file:///etc/passwd\"",
+      "checks.service_health.endpoints[2].host: invalid hostname \"local host\"",
+      "checks.service_health.endpoints[2].port: must be between 1 and 65535, got 70000",
+      "checks.service_health.endpoints[3].name: required",
+    ]);
+  });
+
+  it("drops heal actions missing their required fields", () => {
+    const { config, errors } = validateDaemonConfig({ heal: { cooldownMin: "5", actions: [
+      { check: "gateway_alive", type: "command" },
+      { check: "freshness:*", type: "touch", path: "/x" },
+    ] } }, {});
+    expect(config.heal.actions).toHaveLength(1);
+    expect(config.heal.cooldownMin).toBe(30);
+    expect(errors).toEqual([
+      "heal.cooldownMin: expected a number, got \"5\"",
+      "heal.actions[0].command: required",
+    ]);
+  });
+});
+
+describe("environment overrides", () => {
+  it("override file values", () => {
+    const p = writeConfig({ watchIntervalMin: 30, statusPath: "/from/file.json" });
+    const { config, errors } = readDaemonConfig(p, {
+      LEUKO_STATUS_PATH: "~/env.json", LEUKO_WATCH_INTERVAL_MIN: "5", LEUKO_DISK_CRIT_PERCENT: "99",
+      LEUKO_HEAL_ENABLED: "true", LEUKO_DISABLE_CHECKS: "gateway_alive, plugin_loading",
+    });
+    expect(errors).toEqual([]);
+    expect(config.statusPath).toBe(`${HOME}/env.json`);
+    expect(config.watchIntervalMin).toBe(5);
+    expect(config.checks.disk_usage.critPercent).toBe(99);
+    expect(config.heal.enabled).toBe(true);
+    expect(config.checks.gateway_alive.enabled).toBe(false);
+    expect(config.checks.plugin_loading.enabled).toBe(false);
+  });
+
+  it("reports invalid override values", () => {
+    const { config, errors } = readDaemonConfig(undefined, {
+      LEUKO_WATCH_INTERVAL_MIN: "soon", LEUKO_HEAL_DRY_RUN: "maybe", LEUKO_DISABLE_CHECKS: "disk",
+    });
+    expect(config.watchIntervalMin).toBe(15);
+    expect(errors).toEqual([
+      "LEUKO_WATCH_INTERVAL_MIN: expected a number, got \"soon\"",
+      "LEUKO_HEAL_DRY_RUN: expected true or false, got \"maybe\"",
+      "LEUKO_DISABLE_CHECKS: unknown check \"disk\"",
+    ]);
+  });
+});
+
+describe("readDaemonConfig()", () => {
+  it("reports a missing or unparseable file", () => {
+    expect(readDaemonConfig("/nonexistent/daemon.json", {}).errors).toEqual(["/nonexistent/daemon.json: file not found"]);
+    const p = writeConfig("{{{");
+    expect(readDaemonConfig(p, {}).errors[0]).toMatch(/invalid JSON/);
+  });
+});
+
+describe("--validate-config", () => {
+  it("prints problems and returns non-zero", () => {
+    const err = vi.spyOn(console, "error").mockImplementation(() => {});
+    const p = writeConfig({ watchIntervalMin: "x" });
+    expect(validateConfigCli(p, {})).toBe(1);
+    expect(err.mock.calls.map(c => String(c[0]))).toEqual([
+      `[leuko-daemon] 1 config problem(s) in ${p}:`,
+      "  - watchIntervalMin: expected a number, got \"x\"",
+    ]);
+  });
+
+  it("returns zero for a valid config", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    expect(validateConfigCli(writeConfig({ watchIntervalMin: 5 }), {})).toBe(0);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("Config OK"));
+  });
+
+  it("sets the exit code from main() without running checks", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const dir = mkdtempSync(join(tmpdir(), "leuko-dcfg-"));
+    const p = join(dir, "daemon.json");
+    writeFileSync(p, JSON.stringify({ statusPath: join(dir, "s.json"), lockTimeoutMs: "soon" }));
+    main(["--validate-config", "--config", p]);
+    expect(process.exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, writeFileSync, readFileSync, existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  parseDfOutput, projectDaysUntilFull, checkDiskUsage,
+  diskHistoryPath, readDiskHistory, runDiskChecks, diskMounts, pluginMonitoredDirs, type DiskSample,
+} from "../src/daemon/disk.js";
+import { defaultConfig, loadDaemonConfig } from "../src/daemon/index.js";
+import { parseDiskUsageConfig, readDaemonConfig } from "../src/daemon/config.js";
+
+const HOUR = 3600_000;
+const DAY = 24 * HOUR;
+
+describe("parseDfOutput()", () => {
+  it("parses space and inode rows, including mount points with spaces", () => {
+    const out = [
+      "Filesystem     1024-blocks      Used Available Capacity Mounted on",
+      "/dev/sda1        102400000  73728000  28672000      72% /",
+      "/dev/sdb1           204800    102400    102400      50% /mnt/My Disk",
+    ].join("\n");
+    expect(parseDfOutput(out)).toEqual([
+      { filesystem: "/dev/sda1", total: 102400000, used: 73728000, avail: 28672000, percent: 72, mount: "/" },
+      { filesystem: "/dev/sdb1", total: 204800, used: 102400, avail: 102400, percent: 50, mount: "/mnt/My Disk" },
+    ]);
+  });
+
+  it("reports a missing percentage as null", () => {
+    const out = "Filesystem Inodes IUsed IFree IUse% Mounted on\n/dev/btrfs 0 0 0 - /data\n";
+    expect(parseDfOutput(out)[0]).toMatchObject({ total: 0, percent: null, mount: "/data" });
+  });
+});
+
+describe("projectDaysUntilFull()", () => {
+  const t0 = Date.parse("2026-10-01T00:00:00Z");
+
+  it("projects linear growth", () => {
+    // 1 GB/day growth, 5 GB available
+    const points: Array<[number, number]> = [0, 1, 2].map(d => [t0 + d * DAY, 10_000_000 + d * 1_048_576]);
+    expect(projectDaysUntilFull(points, 5 * 1_048_576)).toBeCloseTo(5, 5);
+  });
+
+  it("returns null for shrinking usage, few samples or a short span", () => {
+    expect(projectDaysUntilFull([[t0, 300], [t0 + DAY, 200], [t0 + 2 * DAY, 100]], 1000)).toBeNull();
+    expect(projectDaysUntilFull([[t0, 100], [t0 + DAY, 200]], 1000)).toBeNull();
+    expect(projectDaysUntilFull([[t0, 100], [t0 + 60_000, 200], [t0 + 120_000, 300]], 1000)).toBeNull();
+  });
+});
+
+describe("checkDiskUsage() projection", () => {
+  it("escalates when the trend projects a full disk within the configured days", () => {
+    const cfg = defaultConfig().checks.disk_usage;
+    const first = checkDiskUsage(cfg, [{ path: "/" }]);
+    const root = first.sample.mounts["/"]!;
+    const nowMs = Date.now();
+    // Usage grew by half the remaining space per hour → full in about two hours
+    const history: DiskSample[] = [3, 2, 1].map(h => ({
+      timestamp: new Date(nowMs - h * HOUR).toISOString(),
+      mounts: { "/": { usedKb: root.usedKb - h * (root.availKb / 2), availKb: root.availKb + h * (root.availKb / 2) } },
+    }));
+    const { checks } = checkDiskUsage(cfg, [{ path: "/" }], history, nowMs);
+    const usage = checks.find(c => c.check_name === "disk_usage:/")!;
+    expect(usage.severity).toBe("critical");
+    expect(usage.detail).toMatch(/full in ~0\.\dd/);
+  });
+});
+
+describe("disk history", () => {
+  it("records one sample per run next to the status file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-disk-"));
+    const cfg = defaultConfig();
+    cfg.statusPath = join(dir, "leuko-status.json");
+    cfg.checks.disk_usage.mounts = [{ path: dir }];
+    runDiskChecks(cfg);
+    runDiskChecks(cfg);
+    const path = diskHistoryPath(cfg.statusPath);
+    expect(existsSync(path)).toBe(true);
+    expect(readDiskHistory(path)).toHaveLength(2);
+    expect(JSON.parse(readFileSync(path, "utf-8")).samples[0].mounts).toBeTypeOf("object");
+  });
+
+  it("drops samples outside the projection window", () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-disk-"));
+    const cfg = defaultConfig();
+    cfg.statusPath = join(dir, "leuko-status.json");
+    cfg.checks.disk_usage.mounts = [{ path: dir }];
+    const old = { timestamp: new Date(Date.now() - 100 * HOUR).toISOString(), mounts: { "/": { usedKb: 1, availKb: 1 } } };
+    writeFileSync(diskHistoryPath(cfg.statusPath), JSON.stringify({ samples: [old] }));
+    runDiskChecks(cfg);
+    expect(readDiskHistory(diskHistoryPath(cfg.statusPath))).toHaveLength(1);
+  });
+
+  it("treats an unreadable history as empty", () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-disk-"));
+    writeFileSync(join(dir, "h.json"), "{nope");
+    expect(readDiskHistory(join(dir, "h.json"))).toEqual([]);
+  });
+});
+
+describe("diskMounts()", () => {
+  it("adds the monitored dirs from the configured plugin config file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-disk-"));
+    const cfg = defaultConfig();
+    cfg.pluginConfigPath = join(dir, "config.json");
+    writeFileSync(cfg.pluginConfigPath, JSON.stringify({
+      checks: { anomaly_detection: { monitoredDirs: [{ path: "/srv/memory", label: "memory" }, { label: "no path" }] } },
+    }));
+    expect(pluginMonitoredDirs(cfg.pluginConfigPath)).toEqual(["/srv/memory"]);
+    expect(diskMounts(cfg).map(m => m.path)).toEqual([cfg.workspace, dirname(cfg.statusPath), "/srv/memory"]);
+  });
+
+  it("ignores a missing or malformed plugin config", () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-disk-"));
+    writeFileSync(join(dir, "bad.json"), "{nope");
+    expect(pluginMonitoredDirs(join(dir, "missing.json"))).toEqual([]);
+    expect(pluginMonitoredDirs(join(dir, "bad.json"))).toEqual([]);
+  });
+
+  it("takes the plugin config path from LEUKO_PLUGIN_CONFIG_PATH", () => {
+    expect(loadDaemonConfig(undefined, { LEUKO_PLUGIN_CONFIG_PATH: "/etc/leuko/plugin.json" }).pluginConfigPath).toBe("/etc/leuko/plugin.json");
+  });
+});
+
+describe("disk_usage config", () => {
+  it("parses thresholds, projection settings and mounts, dropping invalid mounts", () => {
+    const errors: string[] = [];
+    const cfg = parseDiskUsageConfig({
+      warnPercent: 70, critPercent: 90, inodeWarnPercent: 60, projectionWarnDays: 14, projectionCritDays: 0,
+      mounts: ["/", { path: "/data", critPercent: 80, warnPercent: "x" }, { nope: true }],
+    }, errors);
+    expect(cfg).toMatchObject({ enabled: true, warnPercent: 70, critPercent: 90, inodeWarnPercent: 60, inodeCritPercent: 95,
+      projectionWarnDays: 14, projectionCritDays: 0, projectionWindowHours: 72 });
+    expect(cfg.mounts).toEqual([{ path: "/" }]);
+    expect(errors).toEqual([
+      "checks.disk_usage.mounts[1].warnPercent: expected a number, got \"x\"",
+      "checks.disk_usage.mounts[2].nope: unknown field",
+      "checks.disk_usage.mounts[2].path: required",
+    ]);
+  });
+
+  it("rejects a crit threshold below its warn threshold", () => {
+    const errors: string[] = [];
+    const cfg = parseDiskUsageConfig({
+      warnPercent: 90, critPercent: 80, inodeWarnPercent: 50, inodeCritPercent: 60,
+      mounts: [{ path: "/data", inodeWarnPercent: 70, inodeCritPercent: 40 }],
+    }, errors);
+    expect(cfg).toMatchObject({ warnPercent: 85, critPercent: 95, inodeWarnPercent: 50, inodeCritPercent: 60 });
+    expect(cfg.mounts).toEqual([]);
+    expect(errors).toEqual([
+      "checks.disk_usage.critPercent: must be >= warnPercent (90), got 80",
+      "checks.disk_usage.mounts[0].inodeCritPercent: must be >= inodeWarnPercent (70), got 40",
+    ]);
+  });
+
+  it("ignores LEUKO_DISK_* overrides with crit below warn", () => {
+    const result = readDaemonConfig(undefined, { LEUKO_DISK_WARN_PERCENT: "90", LEUKO_DISK_CRIT_PERCENT: "80" });
+    expect(result.config.checks.disk_usage).toMatchObject({ warnPercent: 85, critPercent: 95 });
+    expect(result.errors).toEqual(["LEUKO_DISK_CRIT_PERCENT / LEUKO_DISK_WARN_PERCENT: crit (80) must be >= warn (90)"]);
+  });
+
+  it("is honored by loadDaemonConfig", () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-disk-"));
+    const path = join(dir, "daemon.json");
+    writeFileSync(path, JSON.stringify({ checks: { disk_usage: { enabled: false, warnPercent: 60, critPercent: 80 } } }));
+    expect(loadDaemonConfig(path).checks.disk_usage).toMatchObject({ enabled: false, warnPercent: 60, critPercent: 80 });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, writeFileSync, mkdirSync, statSync, utimesSync, existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import { applyHealing, defaultHealConfig } from "../src/daemon/heal.js";
+import { parseHealConfig } from "../src/daemon/config.js";
+import { check, loadDaemonConfig, type HealConfig, type HealRecord } from "../src/daemon/index.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "warn").mockImplementation(() => {});
+
+function makeTmpDir(): string {
+  return mkdtempSync(join(tmpdir(), "leuko-heal-"));
+}
+
+function healCfg(overrides: Partial<HealConfig> = {}): HealConfig {
+  return { ...defaultHealConfig(), enabled: true, ...overrides };
+}
+
+const T0 = Date.parse("2026-03-01T12:00:00Z");
+
+describe("parseHealConfig()", () => {
+  it("returns disabled defaults for missing config", () => {
+    expect(parseHealConfig({})).toEqual(defaultHealConfig());
+    expect(defaultHealConfig().enabled).toBe(false);
+  });
+
+  it("keeps valid actions and drops invalid ones", () => {
+    const cfg = parseHealConfig({
+      enabled: true, dryRun: true, cooldownMin: 5,
+      actions: [
+        { check: "gateway_alive", type: "command", command: "systemctl --user restart openclaw" },
+        { check: "disk_usage", type: "format" },
+        { type: "touch" },
+      ],
+    });
+    expect(cfg).toMatchObject({ enabled: true, dryRun: true, cooldownMin: 5, maxAttempts: 3 });
+    expect(cfg.actions).toHaveLength(1);
+  });
+
+  it("is read by loadDaemonConfig", () => {
+    const p = join(makeTmpDir(), "cfg.json");
+    writeFileSync(p, JSON.stringify({ heal: { enabled: true, actions: [{ check: "freshness:*", type: "touch", path: "/x" }] } }));
+    expect(loadDaemonConfig(p).heal.actions[0]?.check).toBe("freshness:*");
+  });
+});
+
+describe("applyHealing()", () => {
+  it("touches a stale file matched by prefix and marks the check", () => {
+    const file = join(makeTmpDir(), "goals.json");
+    writeFileSync(file, "{}");
+    const old = new Date(T0 - 72 * 3600_000);
+    utimesSync(file, old, old);
+
+    const checks = [check("freshness:goals", "critical", "stale"), check("disk_usage", "ok", "fine")];
+    const history = applyHealing(checks, healCfg({ actions: [{ check: "freshness:*", type: "touch", path: file }] }), [], T0);
+
+    expect(statSync(file).mtimeMs).toBeGreaterThan(old.getTime());
+    expect(checks[0]).toMatchObject({ auto_healed: true, heal_key: "touch:freshness:goals" });
+    expect(checks[1]?.auto_healed).toBe(false);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ check_name: "freshness:goals", success: true, dry_run: false, next_check_passed: null });
+  });
+
+  it("runs commands without a shell and records failures", () => {
+    const checks = [check("gateway_alive", "critical", "down")];
+    const history = applyHealing(checks, healCfg({ actions: [{ check: "gateway_alive", type: "command", command: "/nonexistent/restart" }] }), [], T0);
+    expect(history[0]?.success).toBe(false);
+    expect(checks[0]?.auto_healed).toBe(false);
+    expect(checks[0]?.heal_action).toBe("command: /nonexistent/restart");
+  });
+
+  it("prunes only regular files older than the threshold", () => {
+    const dir = makeTmpDir();
+    const old = new Date(T0 - 10 * 86400_000);
+    writeFileSync(join(dir, "old.log"), "x");
+    utimesSync(join(dir, "old.log"), old, old);
+    writeFileSync(join(dir, "new.log"), "x");
+    mkdirSync(join(dir, "sub"));
+    utimesSync(join(dir, "sub"), old, old);
+
+    const history = applyHealing([check("disk_usage", "warn", "85%")],
+      healCfg({ actions: [{ check: "disk_usage", type: "prune", path: dir, olderThanDays: 7 }] }), [], T0);
+    expect(history[0]?.detail).toContain("Removed 1 file(s)");
+    expect(readdirSync(dir).sort()).toEqual(["new.log", "sub"]);
+  });
+
+  it("does nothing in dry-run mode but still records the attempt", () => {
+    const dir = makeTmpDir();
+    writeFileSync(join(dir, "old.log"), "x");
+    const old = new Date(T0 - 30 * 86400_000);
+    utimesSync(join(dir, "old.log"), old, old);
+    const checks = [check("disk_usage", "warn", "85%")];
+    const history = applyHealing(checks, healCfg({ dryRun: true, actions: [{ check: "disk_usage", type: "prune", path: dir }] }), [], T0);
+    expect(existsSync(join(dir, "old.log"))).toBe(true);
+    expect(history[0]).toMatchObject({ dry_run: true, success: true });
+    expect(history[0]?.detail).toMatch(/^Dry run/);
+    expect(checks[0]?.auto_healed).toBe(false);
+  });
+
+  it("respects cooldown and max attempts per window", () => {
+    const cfg = healCfg({ cooldownMin: 30, maxAttempts: 2, windowMin: 240, actions: [{ check: "gateway_alive", type: "command", command: "true" }] });
+    let history: HealRecord[] = [];
+    const attempt = (offsetMin: number): number => {
+      const before = history.length;
+      history = applyHealing([check("gateway_alive", "critical", "down")], cfg, history, T0 + offsetMin * 60_000);
+      return history.length - before;
+    };
+    expect(attempt(0)).toBe(1);
+    expect(attempt(10)).toBe(0); // cooldown
+    expect(attempt(31)).toBe(1);
+    expect(attempt(70)).toBe(0); // 2 attempts within 240min
+    expect(attempt(245)).toBe(1); // first attempt left the window
+  });
+
+  it("does not count dry runs toward cooldown or max attempts", () => {
+    const action = { check: "gateway_alive", type: "command" as const, command: "true" };
+    const dry = applyHealing([check("gateway_alive", "critical", "down")], healCfg({ dryRun: true, maxAttempts: 1, actions: [action] }), [], T0);
+    const again = applyHealing([check("gateway_alive", "critical", "down")], healCfg({ dryRun: true, maxAttempts: 1, actions: [action] }), dry, T0 + 60_000);
+    expect(again.filter(h => h.dry_run)).toHaveLength(2);
+    const real = applyHealing([check("gateway_alive", "critical", "down")], healCfg({ maxAttempts: 1, actions: [action] }), again, T0 + 120_000);
+    expect(real.at(-1)).toMatchObject({ dry_run: false, success: true });
+  });
+
+  it("logs a skipped heal only when the reason changes", () => {
+    const log = vi.mocked(console.log);
+    const cfg = healCfg({ cooldownMin: 30, maxAttempts: 1, windowMin: 240, actions: [{ check: "freshness:skips", type: "command", command: "true" }] });
+    let history = applyHealing([check("freshness:skips", "critical", "stale")], cfg, [], T0);
+    const skips = (): number => log.mock.calls.filter(c => String(c[0]).startsWith("[leuko-daemon] Heal skipped for freshness:skips")).length;
+    for (const offsetMin of [5, 10, 20]) {
+      history = applyHealing([check("freshness:skips", "critical", "stale")], cfg, history, T0 + offsetMin * 60_000);
+    }
+    expect(skips()).toBe(1); // cooldown
+    history = applyHealing([check("freshness:skips", "critical", "stale")], cfg, history, T0 + 40 * 60_000);
+    history = applyHealing([check("freshness:skips", "critical", "stale")], cfg, history, T0 + 50 * 60_000);
+    expect(skips()).toBe(2); // max attempts
+    history = applyHealing([check("freshness:skips", "ok", "fresh")], cfg, history, T0 + 60 * 60_000);
+    applyHealing([check("freshness:skips", "critical", "stale")], cfg, history, T0 + 70 * 60_000);
+    expect(skips()).toBe(3); // logged again after the check recovered
+  });
+
+  it("fills in next_check_passed on the following run", () => {
+    const cfg = healCfg({ dryRun: true, actions: [{ check: "gateway_alive", type: "command", command: "true" }] });
+    const first = applyHealing([check("gateway_alive", "critical", "down")], cfg, [], T0);
+    const second = applyHealing([check("gateway_alive", "ok", "up")], cfg, first, T0 + 60_000);
+    expect(second).toHaveLength(1);
+    expect(second[0]?.next_check_passed).toBe(true);
+  });
+
+  it("keeps history when disabled and caps it at historyLimit", () => {
+    const prev = Array.from({ length: 5 }, (_, i) => ({
+      timestamp: new Date(T0 - i * 60_000).toISOString(), check_name: "x", heal_key: `touch:x${i}`, action: "touch: /x",
+      dry_run: false, success: true, detail: "", next_check_passed: true,
+    }));
+    expect(applyHealing([], { ...defaultHealConfig(), historyLimit: 3 }, [...prev, "garbage"], T0)).toHaveLength(3);
+  });
+});
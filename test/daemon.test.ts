@@ -70,11 +70,35 @@ describe("checkFileFreshness()", () => {
 
 // ── Disk ────────────────────────────────────────────────────
 describe("checkDiskUsage()", () => {
-  it("returns valid check", () => {
-    const r = checkDiskUsage(85, 95);
-    expect(r.check_name).toBe("disk_usage"); expect(r.detail).toMatch(/Disk \d+%/);
+  const disk = () => defaultConfig().checks.disk_usage;
+  it("returns one check per filesystem", () => {
+    const { checks, sample } = checkDiskUsage(disk(), [{ path: "/" }, { path: "/" }]);
+    const usage = checks.filter(c => c.check_name.startsWith("disk_usage:"));
+    expect(usage).toHaveLength(1);
+    expect(usage[0]!.check_name).toBe("disk_usage:/"); expect(usage[0]!.detail).toMatch(/Disk \d+% used on \/ \(/);
+    expect(sample.mounts["/"]?.usedKb).toBeGreaterThan(0);
+  });
+  it("keeps disk_usage as the worst of the space checks", () => {
+    const { checks } = checkDiskUsage({ ...disk(), warnPercent: 0, critPercent: 0 }, [{ path: "/" }]);
+    expect(checks[0]).toMatchObject({ check_name: "disk_usage", severity: "critical" });
+    expect(checks[0]!.detail).toMatch(/^Disk \d+% used on \/ \(/);
+  });
+  it("0/0 thresholds → critical", () => {
+    const { checks } = checkDiskUsage({ ...disk(), warnPercent: 0, critPercent: 0 }, [{ path: "/" }]);
+    expect(checks.find(c => c.check_name === "disk_usage:/")?.severity).toBe("critical");
+  });
+  it("per-mount thresholds override the global ones", () => {
+    const { checks } = checkDiskUsage(disk(), [{ path: "/", warnPercent: 0, critPercent: 0, inodeWarnPercent: 0, inodeCritPercent: 0 }]);
+    expect(checks.every(c => c.severity === "critical")).toBe(true);
+  });
+  it("uses the strictest thresholds of entries on the same filesystem", () => {
+    const { checks } = checkDiskUsage(disk(), [{ path: "/", warnPercent: 99, critPercent: 100 }, { path: "/", warnPercent: 0, critPercent: 0 }]);
+    expect(checks.find(c => c.check_name === "disk_usage:/")?.severity).toBe("critical");
+  });
+  it("maps missing paths to their nearest existing ancestor", () => {
+    const { checks } = checkDiskUsage(disk(), [{ path: join(tmpdir(), "does", "not", "exist") }]);
+    expect(checks.some(c => c.check_name.startsWith("disk_usage:"))).toBe(true);
   });
-  it("0/0 thresholds → critical", () => expect(checkDiskUsage(0, 0).severity).toBe("critical"));
 });
 
 // ── Plugin Loading ──────────────────────────────────────────
@@ -168,6 +192,34 @@ describe("writeStatus()", () => {
     writeStatus(s, p);
     expect(JSON.parse(readFileSync(p, "utf-8")).overall_severity).toBe("ok");
   });
+  it("preserves L2 fields and recomputes overall severity", () => {
+    const p = join(makeTmpDir(), "s.json");
+    writeFileSync(p, JSON.stringify({
+      last_check: "old", overall_severity: "ok", daemon_checks: [],
+      cognitive_checks: [{ check_name: "cognitive:goal_quality", severity: "warn" }],
+      cognitive_meta: { last_run: "2026-03-01T00:00:00Z" },
+      sitrep_collectors: [{ collector_name: "errors" }],
+    }));
+    writeStatus({ last_check: now(), overall_severity: "ok",
+      daemon_checks: [check("disk_usage", "ok", "Disk 10% used")], auto_heal_history: [] }, p);
+    const written = JSON.parse(readFileSync(p, "utf-8"));
+    expect(written.cognitive_checks).toHaveLength(1);
+    expect(written.cognitive_meta.last_run).toBe("2026-03-01T00:00:00Z");
+    expect(written.sitrep_collectors).toHaveLength(1);
+    expect(written.daemon_checks).toHaveLength(1);
+    expect(written.overall_severity).toBe("warn");
+    expect(existsSync(`${p}.${process.pid}.l1tmp`)).toBe(false);
+    expect(existsSync(p + ".lock")).toBe(false);
+  });
+  it("replaces unreadable existing file", () => {
+    const p = join(makeTmpDir(), "s.json"); writeFileSync(p, "{{{");
+    const origErr = console.error; console.error = () => {};
+    try {
+      writeStatus({ last_check: now(), overall_severity: "critical",
+        daemon_checks: [check("gateway_alive", "critical", "down")], auto_heal_history: [] }, p);
+    } finally { console.error = origErr; }
+    expect(JSON.parse(readFileSync(p, "utf-8")).overall_severity).toBe("critical");
+  });
 });
 
 // ── runDaemon() ─────────────────────────────────────────────
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { globToRegExp, scanDir, type DirScanOptions } from "../src/dir-size.js";
+
+function opts(overrides: Partial<DirScanOptions> = {}): DirScanOptions {
+  return { maxDepth: 32, exclude: [], deadlineMs: Date.now() + 60_000, ...overrides };
+}
+
+describe("globToRegExp", () => {
+  it("matches single segments with * and ?", () => {
+    expect(globToRegExp("*.tmp").test("a.tmp")).toBe(true);
+    expect(globToRegExp("*.tmp").test("dir/a.tmp")).toBe(false);
+    expect(globToRegExp("log?.txt").test("log1.txt")).toBe(true);
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+  });
+
+  it("spans directories with **", () => {
+    expect(globToRegExp("cache/**").test("cache/x/y.bin")).toBe(true);
+    expect(globToRegExp("**/index.lock").test("index.lock")).toBe(true);
+    expect(globToRegExp("**/index.lock").test("a/b/index.lock")).toBe(true);
+  });
+});
+
+describe("scanDir", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "leuko-dirsize-"));
+    writeFileSync(join(root, "top.json"), "x".repeat(100));
+    mkdirSync(join(root, "a", "b"), { recursive: true });
+    writeFileSync(join(root, "a", "mid.bin"), "x".repeat(200));
+    writeFileSync(join(root, "a", "b", "deep.bin"), "x".repeat(300));
+    writeFileSync(join(root, "a", "b", "scratch.tmp"), "x".repeat(1000));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("sums nested files and counts them", () => {
+    expect(scanDir(root, opts())).toEqual({ bytes: 1600, files: 4, complete: true, depthLimited: 0 });
+  });
+
+  it("returns null for a missing root", () => {
+    expect(scanDir(join(root, "missing"), opts())).toBeNull();
+  });
+
+  it("applies segment and path excludes", () => {
+    expect(scanDir(root, opts({ exclude: ["*.tmp"] }))).toMatchObject({ bytes: 600, files: 3 });
+    expect(scanDir(root, opts({ exclude: ["a/b"] }))).toMatchObject({ bytes: 300, files: 2 });
+  });
+
+  it("stops descending at maxDepth", () => {
+    expect(scanDir(root, opts({ maxDepth: 0 }))).toMatchObject({ bytes: 100, files: 1, depthLimited: 1 });
+    expect(scanDir(root, opts({ maxDepth: 1 }))).toMatchObject({ bytes: 300, files: 2, depthLimited: 1 });
+  });
+
+  it("follows symlinks without looping", () => {
+    symlinkSync(root, join(root, "a", "b", "loop"));
+    symlinkSync(join(root, "top.json"), join(root, "alias.json"));
+    symlinkSync(join(root, "nowhere"), join(root, "dangling"));
+    expect(scanDir(root, opts())).toMatchObject({ bytes: 1700, files: 5, complete: true });
+  });
+
+  it("reports an incomplete scan once the deadline has passed", () => {
+    expect(scanDir(root, opts({ deadlineMs: Date.now() - 1 }))).toMatchObject({ complete: false, files: 0 });
+  });
+});
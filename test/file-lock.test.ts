@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, writeFileSync, existsSync, utimesSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir, hostname } from "node:os";
+import { withFileLock, withFileLockAsync } from "../src/file-lock.js";
+
+function makeTarget(): string {
+  return join(mkdtempSync(join(tmpdir(), "leuko-lock-")), "leuko-status.json");
+}
+
+describe("withFileLock", () => {
+  it("holds the lock while fn runs and releases it afterwards", () => {
+    const target = makeTarget();
+    const result = withFileLock(target, {}, () => {
+      expect(existsSync(target + ".lock")).toBe(true);
+      return 42;
+    });
+    expect(result).toBe(42);
+    expect(existsSync(target + ".lock")).toBe(false);
+  });
+
+  it("releases the lock when fn throws", () => {
+    const target = makeTarget();
+    expect(() => withFileLock(target, {}, () => { throw new Error("boom"); })).toThrow("boom");
+    expect(existsSync(target + ".lock")).toBe(false);
+  });
+
+  it("times out while a live process holds the lock", () => {
+    const target = makeTarget();
+    writeFileSync(target + ".lock", JSON.stringify({ pid: process.pid, host: hostname(), token: "other", acquired_at: "" }));
+    const fn = vi.fn();
+    expect(() => withFileLock(target, { timeoutMs: 100 }, fn)).toThrow(/Timed out/);
+    expect(fn).not.toHaveBeenCalled();
+    expect(existsSync(target + ".lock")).toBe(true);
+  });
+
+  it("breaks a lock whose owner process is gone and warns", () => {
+    const target = makeTarget();
+    writeFileSync(target + ".lock", JSON.stringify({ pid: 2147483646, host: hostname(), token: "dead", acquired_at: "" }));
+    const onWarn = vi.fn();
+    expect(withFileLock(target, { timeoutMs: 100, onWarn }, () => "ok")).toBe("ok");
+    expect(onWarn).toHaveBeenCalledWith(expect.stringContaining("not running"));
+  });
+
+  it("breaks a lock older than staleMs", () => {
+    const target = makeTarget();
+    writeFileSync(target + ".lock", "garbage");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(target + ".lock", old, old);
+    const onWarn = vi.fn();
+    expect(withFileLock(target, { timeoutMs: 100, staleMs: 1000, onWarn }, () => "ok")).toBe("ok");
+    expect(onWarn).toHaveBeenCalledWith(expect.stringContaining("Breaking stale lock"));
+  });
+
+  it("does not remove a lock it no longer owns", () => {
+    const target = makeTarget();
+    withFileLock(target, {}, () => {
+      writeFileSync(target + ".lock", JSON.stringify({ pid: process.pid, host: hostname(), token: "someone-else" }));
+    });
+    expect(existsSync(target + ".lock")).toBe(true);
+  });
+});
+
+describe("withFileLockAsync", () => {
+  it("waits without blocking the event loop until the lock is released", async () => {
+    const target = makeTarget();
+    writeFileSync(target + ".lock", JSON.stringify({ pid: process.pid, host: hostname(), token: "other", acquired_at: "" }));
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 10);
+    setTimeout(() => unlinkSync(target + ".lock"), 100);
+    const result = await withFileLockAsync(target, { timeoutMs: 2000 }, async () => {
+      expect(existsSync(target + ".lock")).toBe(true);
+      return "ok";
+    });
+    clearInterval(timer);
+    expect(result).toBe("ok");
+    expect(ticks).toBeGreaterThan(3);
+    expect(existsSync(target + ".lock")).toBe(false);
+  });
+
+  it("times out while a live process holds the lock", async () => {
+    const target = makeTarget();
+    writeFileSync(target + ".lock", JSON.stringify({ pid: process.pid, host: hostname(), token: "other", acquired_at: "" }));
+    const fn = vi.fn();
+    await expect(withFileLockAsync(target, { timeoutMs: 100 }, fn)).rejects.toThrow(/Timed out/);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("releases the lock when fn rejects", async () => {
+    const target = makeTarget();
+    await expect(withFileLockAsync(target, {}, async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(existsSync(target + ".lock")).toBe(false);
+  });
+});
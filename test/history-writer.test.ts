@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, writeFileSync, readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  applyRetention,
+  appendHistorySnapshot,
+  buildHistorySnapshot,
+  collectItemCounts,
+} from "../src/history-writer.js";
+import { resolveConfig } from "../src/config.js";
+import type { CognitiveMeta, HistoryConfig, HistorySnapshot, PluginLogger } from "../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+const retention: HistoryConfig = { maxSnapshots: 500, maxAgeDays: 90, downsampleAfterDays: 7, factsPath: "" };
+
+const meta: CognitiveMeta = {
+  last_run: "2026-03-01T12:00:00.000Z",
+  total_duration_ms: 4200,
+  total_tokens: 900,
+  total_cost_usd: 0,
+  model: "ollama/qwen3:14b",
+  checks_completed: 2,
+  checks_failed: 0,
+  plugin_version: "0.1.0",
+};
+
+function snap(iso: string, value = 1): HistorySnapshot {
+  return { timestamp: iso, metrics: { v: value } };
+}
+
+describe("buildHistorySnapshot", () => {
+  it("collects baselines, counts, token usage and severities", () => {
+    const s = buildHistorySnapshot(
+      [
+        { check_name: "cognitive:anomaly_detection", severity: "warn", detail: "", baselines: { memory_dir_mb: 12.5 }, timestamp: "", duration_ms: 1 },
+        { check_name: "cognitive:goal_quality", severity: "ok", detail: "", timestamp: "", duration_ms: 1 },
+      ],
+      meta,
+      { goal_count: 4 },
+    );
+    expect(s.timestamp).toBe(meta.last_run);
+    expect(s.metrics).toMatchObject({ memory_dir_mb: 12.5, goal_count: 4, total_tokens: 900 });
+    expect(s.severities).toEqual({ "cognitive:anomaly_detection": "warn", "cognitive:goal_quality": "ok" });
+  });
+});
+
+describe("applyRetention", () => {
+  const now = Date.parse("2026-03-31T12:00:00Z");
+
+  it("drops snapshots older than maxAgeDays and unparseable timestamps", () => {
+    const kept = applyRetention([snap("2025-11-01T00:00:00Z"), snap("garbage"), snap("2026-03-30T00:00:00Z")], retention, now);
+    expect(kept.map((s) => s.timestamp)).toEqual(["2026-03-30T00:00:00Z"]);
+  });
+
+  it("downsamples old snapshots to the latest per day", () => {
+    const kept = applyRetention([
+      snap("2026-03-01T02:00:00Z", 1),
+      snap("2026-03-01T14:00:00Z", 2),
+      snap("2026-03-02T02:00:00Z", 3),
+      snap("2026-03-30T02:00:00Z", 4),
+      snap("2026-03-30T04:00:00Z", 5),
+    ], retention, now);
+    expect(kept.map((s) => s.metrics["v"])).toEqual([2, 3, 4, 5]);
+  });
+
+  it("caps at maxSnapshots keeping the newest, sorted oldest first", () => {
+    const kept = applyRetention(
+      [snap("2026-03-30T03:00:00Z", 3), snap("2026-03-30T01:00:00Z", 1), snap("2026-03-30T02:00:00Z", 2)],
+      { ...retention, maxSnapshots: 2 },
+      now,
+    );
+    expect(kept.map((s) => s.metrics["v"])).toEqual([2, 3]);
+  });
+});
+
+describe("appendHistorySnapshot", () => {
+  it("creates and appends to the history file atomically", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-history-"));
+    const path = join(dir, "leuko-history.json");
+    const recent = new Date().toISOString();
+
+    expect(await appendHistorySnapshot(path, snap(recent, 1), retention, mockLogger())).toBe(true);
+    expect(await appendHistorySnapshot(path, snap(recent, 2), retention, mockLogger())).toBe(true);
+
+    const written = JSON.parse(readFileSync(path, "utf-8")) as { snapshots: HistorySnapshot[] };
+    expect(written.snapshots).toHaveLength(2);
+    expect(readdirSync(dir)).toEqual(["leuko-history.json"]); // no tmp or lock files left behind
+  });
+
+  it("returns false when the directory is missing", async () => {
+    const logger = mockLogger();
+    expect(await appendHistorySnapshot("/nonexistent/leuko/history.json", snap(new Date().toISOString()), retention, logger)).toBe(false);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
+
+describe("collectItemCounts", () => {
+  it("counts goals, threads and facts from input files", () => {
+    const dir = mkdtempSync(join(tmpdir(), "leuko-counts-"));
+    writeFileSync(join(dir, "goals.json"), JSON.stringify({ goals: [{ id: "g1" }, { id: "g2" }] }));
+    writeFileSync(join(dir, "threads.json"), JSON.stringify({ threads: [{ id: "t1" }] }));
+    writeFileSync(join(dir, "facts.json"), JSON.stringify({ facts: [1, 2, 3] }));
+
+    const config = resolveConfig({
+      history: { factsPath: join(dir, "facts.json") },
+      checks: {
+        goal_quality: { inputPath: join(dir, "goals.json") },
+        thread_health: { inputPath: join(dir, "threads.json") },
+      },
+    });
+    expect(collectItemCounts(config)).toEqual({ goal_count: 2, thread_count: 1, fact_count: 3 });
+  });
+
+  it("omits counts for missing files", () => {
+    const config = resolveConfig({
+      checks: {
+        goal_quality: { inputPath: "/nonexistent/goals.json" },
+        thread_health: { inputPath: "/nonexistent/threads.json" },
+      },
+    });
+    expect(collectItemCounts(config)).toEqual({});
+  });
+});
@@ -122,6 +122,44 @@ describe("Plugin Registration", () => {
     expect(result.text).toContain("Model");
   });
 
+  it("/leuko config validate reports schema issues", async () => {
+    const { default: plugin } = await import("../src/index.js");
+
+    const api = createMockApi({ intervalMinutes: 0, checks: { thread_health: { staleDays: "5" } } });
+    plugin.register(api);
+
+    const command = api.commands[0]!;
+    const result = await command.handler({ _: "config validate" });
+    expect(result.text).toContain("1 issue(s) in inline");
+    expect(result.text).toContain("checks.thread_health.staleDays: expected integer");
+    expect((await command.handler({ _: "config" })).text).toContain("Model");
+  });
+
+  it("stops the scheduler on gateway_stop when services are unsupported", async () => {
+    const { default: plugin } = await import("../src/index.js");
+
+    const api = createMockApi();
+    plugin.register(api);
+
+    expect(api.hooks.has("gateway_stop")).toBe(true);
+    expect(() => api.hooks.get("gateway_stop")![0]!()).not.toThrow();
+  });
+
+  it("registers the scheduler as a service when the host supports it", async () => {
+    const { default: plugin } = await import("../src/index.js");
+
+    const api = createMockApi();
+    const services: Array<{ id: string; start(): unknown; stop?(): unknown }> = [];
+    api.registerService = (svc) => { services.push(svc); };
+    plugin.register(api);
+
+    expect(services).toHaveLength(1);
+    expect(services[0]?.id).toBe("leuko-scheduler");
+    expect(api.hooks.has("gateway_stop")).toBe(false);
+    services[0]!.start();
+    services[0]!.stop?.();
+  });
+
   it("/leuko detail returns check details", async () => {
     const { default: plugin } = await import("../src/index.js");
 
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { createLlmClient } from "../src/llm-client.js";
-import type { LlmProviderConfig, PluginLogger } from "../src/types.js";
+import { createLlmClient, limitConcurrency } from "../src/llm-client.js";
+import { createCostTracker, resolvePricing } from "../src/pricing.js";
+import { createBreakerRegistry } from "../src/circuit-breaker.js";
+import type { LlmClient, LlmConfig, LlmProviderConfig, LlmResponse, PluginLogger } from "../src/types.js";
 import { createServer } from "node:http";
 import type { Server, IncomingMessage, ServerResponse } from "node:http";
 
@@ -22,6 +24,11 @@ const fallbackConfig: LlmProviderConfig = {
   timeoutSec: 5,
 };
 
+/** Provider chain without retries; the breaker only opens after many failures */
+function chain(...providers: LlmProviderConfig[]): Pick<LlmConfig, "providers" | "circuitBreaker" | "retry"> {
+  return { providers, circuitBreaker: { failureThreshold: 100, cooldownSec: 60 }, retry: { maxRetries: 0, backoffMs: 0 } };
+}
+
 function createMockServer(handler: (req: IncomingMessage, res: ServerResponse) => void): Promise<{ server: Server; port: number }> {
   return new Promise((resolve) => {
     const server = createServer(handler);
@@ -54,16 +61,17 @@ describe("LlmClient", () => {
       req.on("end", () => {
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({
-          choices: [{ message: { content: '{"severity":"ok","detail":"Fine"}' } }],
-          usage: { total_tokens: 150 },
+          message: { role: "assistant", content: '{"severity":"ok","detail":"Fine"}' },
+          prompt_eval_count: 100,
+          eval_count: 50,
+          done: true,
         }));
       });
     });
     servers.push(server);
 
     const client = createLlmClient(
-      { ...primaryConfig, baseUrl: `http://127.0.0.1:${port}` },
-      fallbackConfig,
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${port}` }, fallbackConfig),
       mockLogger(),
     );
 
@@ -98,8 +106,7 @@ describe("LlmClient", () => {
 
     const logger = mockLogger();
     const client = createLlmClient(
-      { ...primaryConfig, baseUrl: `http://127.0.0.1:${primaryPort}` },
-      { ...fallbackConfig, baseUrl: `http://127.0.0.1:${fallbackPort}` },
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${primaryPort}` }, { ...fallbackConfig, baseUrl: `http://127.0.0.1:${fallbackPort}` }),
       logger,
     );
 
@@ -124,8 +131,7 @@ describe("LlmClient", () => {
 
     const logger = mockLogger();
     const client = createLlmClient(
-      { ...primaryConfig, baseUrl: `http://127.0.0.1:${p1}` },
-      { ...fallbackConfig, baseUrl: `http://127.0.0.1:${p2}` },
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${p1}` }, { ...fallbackConfig, baseUrl: `http://127.0.0.1:${p2}` }),
       logger,
     );
 
@@ -138,8 +144,7 @@ describe("LlmClient", () => {
   it("handles connection refused gracefully", async () => {
     // Use a port that nothing is listening on
     const client = createLlmClient(
-      { ...primaryConfig, baseUrl: "http://127.0.0.1:59999" },
-      { ...fallbackConfig, baseUrl: "http://127.0.0.1:59998" },
+      chain({ ...primaryConfig, baseUrl: "http://127.0.0.1:59999" }, { ...fallbackConfig, baseUrl: "http://127.0.0.1:59998" }),
       mockLogger(),
     );
 
@@ -156,17 +161,13 @@ describe("LlmClient", () => {
       req.on("data", (chunk: Buffer) => (body += chunk.toString()));
       req.on("end", () => {
         res.writeHead(200, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({
-          choices: [{ message: { content: '{"ok":true}' } }],
-          usage: { total_tokens: 10 },
-        }));
+        res.end(JSON.stringify({ message: { role: "assistant", content: '{"ok":true}' }, done: true }));
       });
     });
     servers.push(server);
 
     const client = createLlmClient(
-      { ...primaryConfig, baseUrl: `http://127.0.0.1:${port}`, apiKey: "test-api-key-12345" },
-      fallbackConfig,
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${port}`, apiKey: "test-api-key-12345" }, fallbackConfig),
       mockLogger(),
     );
 
@@ -176,12 +177,300 @@ describe("LlmClient", () => {
 
   it("records duration across both attempts", async () => {
     const client = createLlmClient(
-      { ...primaryConfig, baseUrl: "http://127.0.0.1:59999" },
-      { ...fallbackConfig, baseUrl: "http://127.0.0.1:59998" },
+      chain({ ...primaryConfig, baseUrl: "http://127.0.0.1:59999" }, { ...fallbackConfig, baseUrl: "http://127.0.0.1:59998" }),
       mockLogger(),
     );
 
     const result = await client.generate("system", "user", 2000);
     expect(result.durationMs).toBeGreaterThan(0);
   });
+
+  it("uses each provider's timeoutSec when the caller passes no timeout", async () => {
+    const { server, port } = await createMockServer(() => { /* never responds */ });
+    servers.push(server);
+
+    const client = createLlmClient(chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${port}`, timeoutSec: 0.2 }), mockLogger());
+    const result = await client.generate("system", "user");
+    expect(result.content).toBeNull();
+    expect(result.error).toMatch(/Timeout after \d+ms/);
+  });
+
+  it("abandons in-flight requests when the signal aborts", async () => {
+    const { server, port } = await createMockServer(() => { /* never responds */ });
+    servers.push(server);
+
+    const controller = new AbortController();
+    const client = createLlmClient(
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${port}` }, { ...fallbackConfig, baseUrl: `http://127.0.0.1:${port}` }),
+      mockLogger(),
+      controller.signal,
+    );
+
+    const pending = client.generate("system", "user", 5000);
+    setTimeout(() => controller.abort(), 50);
+    const result = await pending;
+    expect(result.content).toBeNull();
+    expect(result.error).toBe("Run aborted");
+
+    const after = await client.generate("system", "user", 5000);
+    expect(after.error).toBe("Run aborted");
+    server.closeAllConnections();
+  });
+
+  it("reports token split and prices paid completions", async () => {
+    const { server: primary, port: primaryPort } = await createMockServer((req, res) => {
+      res.writeHead(500);
+      res.end("down");
+    });
+    servers.push(primary);
+    const { server: fallback, port: fallbackPort } = await createMockServer((req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({
+        choices: [{ message: { content: "{}" } }],
+        usage: { prompt_tokens: 1_000_000, completion_tokens: 100_000, total_tokens: 1_100_000 },
+      }));
+    });
+    servers.push(fallback);
+
+    const cost = createCostTracker({
+      pricing: resolvePricing({ "gemini/flash": { promptPerMTok: 0.1, completionPerMTok: 0.4 } }),
+      priorDailyUsd: 0,
+    });
+    const client = createLlmClient(
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${primaryPort}` }, { ...fallbackConfig, maxCostUsd: 0.1, baseUrl: `http://127.0.0.1:${fallbackPort}` }),
+      mockLogger(),
+      undefined,
+      cost,
+    );
+
+    const result = await client.generate("system", "user", 5000);
+    expect(result).toMatchObject({ promptTokens: 1_000_000, completionTokens: 100_000 });
+    expect(result.costUsd).toBeCloseTo(0.14);
+    expect(cost.runSpentUsd).toBeCloseTo(0.14);
+
+    // Run budget ($0.10) is now exhausted — the paid fallback is not contacted again
+    const skipped = await client.generate("system", "user", 5000);
+    expect(skipped.content).toBeNull();
+    expect(skipped.error).toContain("litellm/gemini/flash: skipped — run budget");
+  });
+
+  it("skips the paid fallback when the daily budget is spent", async () => {
+    const { server, port } = await createMockServer((req, res) => {
+      res.writeHead(500);
+      res.end("down");
+    });
+    servers.push(server);
+    let fallbackCalls = 0;
+    const { server: fb, port: fbPort } = await createMockServer((req, res) => {
+      fallbackCalls++;
+      res.writeHead(500);
+      res.end("down");
+    });
+    servers.push(fb);
+
+    const client = createLlmClient(
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${port}` }, { ...fallbackConfig, model: "gpt-4o-mini", maxDailyCostUsd: 0.5, baseUrl: `http://127.0.0.1:${fbPort}` }),
+      mockLogger(),
+      undefined,
+      createCostTracker({ pricing: resolvePricing(), priorDailyUsd: 0.5 }),
+    );
+
+    const result = await client.generate("system", "user", 5000);
+    expect(result.error).toContain("daily budget");
+    expect(fallbackCalls).toBe(0);
+  });
+});
+
+describe("LlmClient protocols", () => {
+  let servers: Server[] = [];
+
+  afterEach(async () => {
+    for (const s of servers) await closeServer(s);
+    servers = [];
+  });
+
+  interface Captured { url: string; headers: IncomingMessage["headers"]; body: Record<string, unknown> }
+
+  async function stub(status: number, response: unknown): Promise<{ port: number; captured: Captured[] }> {
+    const captured: Captured[] = [];
+    const { server, port } = await createMockServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        captured.push({ url: req.url ?? "", headers: req.headers, body: JSON.parse(body) as Record<string, unknown> });
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(typeof response === "string" ? response : JSON.stringify(response));
+      });
+    });
+    servers.push(server);
+    return { port, captured };
+  }
+
+  it("speaks Ollama's native /api/chat with JSON format", async () => {
+    const { port, captured } = await stub(200, {
+      message: { role: "assistant", content: "{}" }, prompt_eval_count: 40, eval_count: 8, done: true,
+    });
+    const client = createLlmClient(chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${port}/` }, fallbackConfig), mockLogger());
+
+    const result = await client.generate("sys", "usr", 5000);
+    expect(result).toMatchObject({ content: "{}", tokens: 48, promptTokens: 40, completionTokens: 8 });
+    expect(captured[0]!.url).toBe("/api/chat");
+    expect(captured[0]!.body).toMatchObject({
+      model: "qwen3:14b",
+      stream: false,
+      format: "json",
+      messages: [{ role: "system", content: "sys" }, { role: "user", content: "usr" }],
+    });
+  });
+
+  it("drops a trailing /v1 from an Ollama baseUrl", async () => {
+    const { port, captured } = await stub(200, { message: { role: "assistant", content: "{}" }, done: true });
+    const client = createLlmClient(chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${port}/v1/` }), mockLogger());
+
+    expect((await client.generate("sys", "usr", 5000)).content).toBe("{}");
+    expect(captured[0]!.url).toBe("/api/chat");
+  });
+
+  it("speaks the Anthropic Messages API", async () => {
+    const { port, captured } = await stub(200, {
+      content: [{ type: "text", text: '{"severity":' }, { type: "text", text: '"ok"}' }],
+      usage: { input_tokens: 30, output_tokens: 5 },
+    });
+    const client = createLlmClient(
+      chain({ provider: "anthropic", model: "claude-haiku", baseUrl: `http://127.0.0.1:${port}`, timeoutSec: 5, apiKey: "sk-ant" }, fallbackConfig),
+      mockLogger(),
+    );
+
+    const result = await client.generate("sys", "usr", 5000);
+    expect(result).toMatchObject({ content: '{"severity":"ok"}', model: "anthropic/claude-haiku", tokens: 35, promptTokens: 30 });
+    expect(captured[0]!.url).toBe("/v1/messages");
+    expect(captured[0]!.headers["x-api-key"]).toBe("sk-ant");
+    expect(captured[0]!.headers["anthropic-version"]).toBeTruthy();
+    expect(captured[0]!.headers["authorization"]).toBeUndefined();
+    expect(captured[0]!.body).toMatchObject({ model: "claude-haiku", system: "sys", messages: [{ role: "user", content: "usr" }] });
+  });
+
+  it("speaks OpenAI chat completions for other providers", async () => {
+    const { port, captured } = await stub(200, {
+      choices: [{ message: { content: "{}" } }],
+      usage: { prompt_tokens: 12, completion_tokens: 3 },
+    });
+    const client = createLlmClient(chain({ ...fallbackConfig, baseUrl: `http://127.0.0.1:${port}/v1` }, fallbackConfig), mockLogger());
+
+    const result = await client.generate("sys", "usr", 5000);
+    expect(result).toMatchObject({ content: "{}", tokens: 15 });
+    expect(captured[0]!.url).toBe("/v1/chat/completions");
+    expect(captured[0]!.body["response_format"]).toEqual({ type: "json_object" });
+  });
+
+  it("reports the provider's error message for non-2xx responses", async () => {
+    const { port: p1 } = await stub(404, { error: "model 'qwen3:14b' not found" });
+    const { port: p2 } = await stub(429, { type: "error", error: { type: "rate_limit_error", message: "Slow down" } });
+    const client = createLlmClient(
+      chain({ ...primaryConfig, baseUrl: `http://127.0.0.1:${p1}` }, { provider: "anthropic", model: "claude-haiku", baseUrl: `http://127.0.0.1:${p2}`, timeoutSec: 5 }),
+      mockLogger(),
+    );
+
+    const result = await client.generate("sys", "usr", 5000);
+    expect(result.content).toBeNull();
+    expect(result.error).toBe("All providers failed. ollama/qwen3:14b: HTTP 404: model 'qwen3:14b' not found; anthropic/claude-haiku: HTTP 429: Slow down");
+  });
+});
+
+describe("LlmClient provider chain", () => {
+  let servers: Server[] = [];
+
+  afterEach(async () => {
+    for (const s of servers) await closeServer(s);
+    servers = [];
+  });
+
+  /** OpenAI-compatible stub answering with the given statuses in turn (last one repeats) */
+  async function sequence(statuses: number[]): Promise<{ baseUrl: string; calls: () => number }> {
+    let calls = 0;
+    const { server, port } = await createMockServer((req, res) => {
+      const status = statuses[Math.min(calls++, statuses.length - 1)]!;
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(status === 200 ? JSON.stringify({ choices: [{ message: { content: "{}" } }] }) : JSON.stringify({ error: { message: `status ${status}` } }));
+    });
+    servers.push(server);
+    return { baseUrl: `http://127.0.0.1:${port}`, calls: () => calls };
+  }
+
+  const provider = (model: string, baseUrl: string): LlmProviderConfig => ({ provider: "litellm", model, baseUrl, timeoutSec: 5 });
+
+  it("tries providers in order and reports which one served", async () => {
+    const a = await sequence([500]);
+    const b = await sequence([500]);
+    const c = await sequence([200]);
+    const client = createLlmClient(chain(provider("a", a.baseUrl), provider("b", b.baseUrl), provider("c", c.baseUrl)), mockLogger());
+
+    const result = await client.generate("sys", "usr", 5000);
+    expect(result.model).toBe("litellm/c");
+    expect([a.calls(), b.calls(), c.calls()]).toEqual([1, 1, 1]);
+  });
+
+  it("retries 429 / 5xx with backoff but not other errors", async () => {
+    const flaky = await sequence([429, 503, 200]);
+    const client = createLlmClient(
+      { ...chain(provider("flaky", flaky.baseUrl)), retry: { maxRetries: 2, backoffMs: 5 } },
+      mockLogger(),
+    );
+    expect((await client.generate("sys", "usr", 5000)).content).toBe("{}");
+    expect(flaky.calls()).toBe(3);
+
+    const missing = await sequence([404]);
+    const strict = createLlmClient({ ...chain(provider("missing", missing.baseUrl)), retry: { maxRetries: 2, backoffMs: 5 } }, mockLogger());
+    expect((await strict.generate("sys", "usr", 5000)).error).toContain("HTTP 404");
+    expect(missing.calls()).toBe(1);
+  });
+
+  it("skips a provider with an open circuit across clients sharing a registry", async () => {
+    const dead = await sequence([500]);
+    const backup = await sequence([200]);
+    const breakers = createBreakerRegistry();
+    const llm = { ...chain(provider("dead", dead.baseUrl), provider("backup", backup.baseUrl)), circuitBreaker: { failureThreshold: 2, cooldownSec: 3600 } };
+
+    for (let run = 0; run < 3; run++) {
+      const client = createLlmClient(llm, mockLogger(), undefined, undefined, breakers);
+      expect((await client.generate("sys", "usr", 5000)).model).toBe("litellm/backup");
+    }
+    expect(dead.calls()).toBe(2);
+    expect(backup.calls()).toBe(3);
+  });
+
+  it("fails with model none when no provider is available", async () => {
+    const result = await createLlmClient(chain(), mockLogger()).generate("sys", "usr", 5000);
+    expect(result).toMatchObject({ content: null, model: "none", error: "No LLM providers configured" });
+  });
+});
+
+describe("limitConcurrency", () => {
+  it("keeps at most max calls in flight and serves the rest in order", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const order: string[] = [];
+    const inner: LlmClient = {
+      async generate(_system, user): Promise<LlmResponse> {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        order.push(user);
+        await new Promise((r) => setTimeout(r, 5));
+        inFlight--;
+        return { content: user, model: "test/model", tokens: 1, durationMs: 5 };
+      },
+    };
+    const limited = limitConcurrency(inner, 2);
+    const results = await Promise.all(["a", "b", "c", "d", "e"].map((u) => limited.generate("sys", u, 1000)));
+    expect(peak).toBe(2);
+    expect(order).toEqual(["a", "b", "c", "d", "e"]);
+    expect(results.map((r) => r.content)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("frees the slot when a call throws", async () => {
+    const inner: LlmClient = { generate: vi.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue({ content: "ok", model: "m", tokens: 0, durationMs: 0 }) };
+    const limited = limitConcurrency(inner, 1);
+    await expect(limited.generate("s", "u", 1000)).rejects.toThrow("boom");
+    expect((await limited.generate("s", "u", 1000)).content).toBe("ok");
+  });
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { execFileSync } from "node:child_process";
+import { collectMetricSources, countJsonNode, resolveJsonPath } from "../src/metric-sources.js";
+import type { PluginLogger } from "../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+function hasSqlite(): boolean {
+  try {
+    execFileSync("sqlite3", ["-version"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("resolveJsonPath / countJsonNode", () => {
+  const doc = { data: { items: [1, 2, 3], meta: { a: 1, b: 2 } }, list: [{ tags: ["x", "y"] }], total: 7 };
+
+  it("follows dot paths through objects and arrays", () => {
+    expect(resolveJsonPath(doc, "data.items")).toEqual([1, 2, 3]);
+    expect(resolveJsonPath(doc, "list.0.tags")).toEqual(["x", "y"]);
+    expect(resolveJsonPath(doc, "")).toBe(doc);
+    expect(resolveJsonPath(doc, "data.missing.x")).toBeUndefined();
+  });
+
+  it("counts arrays, object keys and passes numbers through", () => {
+    expect(countJsonNode([1, 2])).toBe(2);
+    expect(countJsonNode({ a: 1, b: 2, c: 3 })).toBe(3);
+    expect(countJsonNode(7)).toBe(7);
+    expect(countJsonNode("7")).toBeNull();
+  });
+});
+
+describe("collectMetricSources", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "leuko-metrics-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("extracts json counts and line counts", async () => {
+    writeFileSync(join(dir, "facts.json"), JSON.stringify({ facts: [{}, {}, {}] }));
+    writeFileSync(join(dir, "events.log"), "a\nb\n\nc\n");
+    const metrics = await collectMetricSources([
+      { name: "fact_count", type: "json_count", path: join(dir, "facts.json"), jsonPath: "facts" },
+      { name: "event_lines", type: "line_count", path: join(dir, "events.log") },
+    ], mockLogger());
+    expect(metrics).toEqual({ fact_count: 3, event_lines: 3 });
+  });
+
+  it("parses command output like a custom collector", async () => {
+    const cmd = `"${process.execPath}" -e 'process.stdout.write(JSON.stringify({ value: 12 }))'`;
+    expect(await collectMetricSources([{ name: "queue", type: "command", command: cmd }], mockLogger())).toEqual({ queue: 12 });
+  });
+
+  it.skipIf(!hasSqlite())("reads the first value of a sqlite query", async () => {
+    const db = join(dir, "store.db");
+    execFileSync("sqlite3", [db, "CREATE TABLE t(x); INSERT INTO t VALUES (1),(2),(3),(4);"]);
+    const metrics = await collectMetricSources([
+      { name: "rows", type: "sqlite", path: db, query: "SELECT COUNT(*) FROM t" },
+    ], mockLogger());
+    expect(metrics).toEqual({ rows: 4 });
+  });
+
+  it("omits failing sources with a warning", async () => {
+    const logger = mockLogger();
+    writeFileSync(join(dir, "obj.json"), JSON.stringify({ name: "x" }));
+    const metrics = await collectMetricSources([
+      { name: "missing", type: "line_count", path: join(dir, "nope.log") },
+      { name: "not_countable", type: "json_count", path: join(dir, "obj.json"), jsonPath: "name" },
+      { name: "bad_cmd", type: "command", command: "/nonexistent/binary" },
+    ], logger);
+    expect(metrics).toEqual({});
+    expect(logger.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it("kills a running command and skips the rest when aborted", async () => {
+    const logger = mockLogger();
+    const slow = `"${process.execPath}" -e 'setTimeout(() => {}, 10000)'`;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const metrics = await collectMetricSources([
+      { name: "slow", type: "command", command: slow },
+      { name: "never", type: "command", command: slow },
+    ], logger, controller.signal);
+    expect(metrics).toEqual({});
+    expect(logger.warn).toHaveBeenCalledOnce();
+    expect(logger.warn).toHaveBeenCalledWith("[leuko] Metric slow failed: aborted");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { Server, IncomingMessage, ServerResponse } from "node:http";
+import { createNatsMonitorClient, parseJsz } from "../src/nats-client.js";
+import type { NatsConfig, PluginLogger } from "../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+const JSZ = {
+  server_id: "NABC",
+  streams: 1,
+  account_details: [
+    {
+      name: "$G",
+      stream_detail: [
+        {
+          name: "memory-events",
+          config: { max_msgs: 10000, max_bytes: -1 },
+          state: { messages: 120, bytes: 4096, first_seq: 1, last_seq: 120, last_ts: "2026-03-02T09:00:00Z", consumer_count: 1 },
+          consumer_detail: [
+            {
+              name: "cortex",
+              delivered: { consumer_seq: 100, stream_seq: 110, last_active: "2026-03-02T08:59:00Z" },
+              ack_floor: { consumer_seq: 98, stream_seq: 108, last_active: "0001-01-01T00:00:00Z" },
+              num_ack_pending: 2,
+              num_redelivered: 1,
+              num_waiting: 1,
+              num_pending: 10,
+            },
+          ],
+        },
+      ],
+    },
+    { name: "empty" },
+  ],
+};
+
+function startStub(handler: (req: IncomingMessage, res: ServerResponse) => void): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = createServer(handler);
+    server.listen(0, "127.0.0.1", () => {
+      const addr = server.address();
+      const port = typeof addr === "object" && addr !== null ? addr.port : 0;
+      resolve({ server, url: `http://127.0.0.1:${port}` });
+    });
+  });
+}
+
+function config(monitorUrl: string, extra: Partial<NatsConfig> = {}): NatsConfig {
+  return { monitorUrl, timeoutMs: 2000, ...extra };
+}
+
+describe("parseJsz", () => {
+  it("extracts streams, consumers and lag", () => {
+    const [stream] = parseJsz(JSZ);
+    expect(stream).toMatchObject({ name: "memory-events", messages: 120, last_seq: 120, last_ts: "2026-03-02T09:00:00Z", max_msgs: 10000 });
+    expect(stream?.consumers[0]).toMatchObject({ name: "cortex", num_pending: 10, num_ack_pending: 2, lag: 12, delivered_stream_seq: 110, last_active: "2026-03-02T08:59:00Z" });
+  });
+
+  it("tolerates missing sections", () => {
+    expect(parseJsz({})).toEqual([]);
+    expect(parseJsz(null)).toEqual([]);
+  });
+});
+
+describe("createNatsMonitorClient", () => {
+  let servers: Server[] = [];
+
+  afterEach(async () => {
+    for (const s of servers) {
+      s.closeAllConnections();
+      await new Promise<void>((r) => s.close(() => r()));
+    }
+    servers = [];
+  });
+
+  it("queries /jsz with streams and consumers and sends credentials", async () => {
+    let seen: IncomingMessage | undefined;
+    const { server, url } = await startStub((req, res) => {
+      seen = req;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(JSZ));
+    });
+    servers.push(server);
+
+    const client = createNatsMonitorClient(config(`${url}/`, { user: "leuko", password: "s3cret" }), mockLogger());
+    const stream = await client.getStream("memory-events");
+    expect(stream?.messages).toBe(120);
+    expect(seen?.url).toMatch(/^\/jsz\?.*streams=true.*consumers=true/);
+    expect(seen?.headers.authorization).toBe(`Basic ${Buffer.from("leuko:s3cret").toString("base64")}`);
+    expect(await client.getStream("missing")).toBeNull();
+  });
+
+  it("prefers a bearer token", async () => {
+    let auth: string | undefined;
+    const { server, url } = await startStub((req, res) => {
+      auth = req.headers.authorization;
+      res.end(JSON.stringify(JSZ));
+    });
+    servers.push(server);
+    await createNatsMonitorClient(config(url, { token: "t0k", user: "ignored" }), mockLogger()).getStreams();
+    expect(auth).toBe("Bearer t0k");
+  });
+
+  it("rejects on HTTP errors, invalid JSON and timeouts", async () => {
+    const { server, url } = await startStub((req, res) => {
+      if (req.url?.startsWith("/denied")) { res.writeHead(401); res.end("no"); return; }
+      if (req.url?.startsWith("/garbage")) { res.end("<html>"); return; }
+      // never responds
+    });
+    servers.push(server);
+    await expect(createNatsMonitorClient(config(`${url}/denied`), mockLogger()).getStreams()).rejects.toThrow(/HTTP 401/);
+    await expect(createNatsMonitorClient(config(`${url}/garbage`), mockLogger()).getStreams()).rejects.toThrow(/Invalid JSON/);
+    await expect(createNatsMonitorClient(config(`${url}/slow`, { timeoutMs: 100 }), mockLogger()).getStreams()).rejects.toThrow(/Timeout/);
+  });
+
+  it("rejects when the endpoint is unreachable", async () => {
+    await expect(createNatsMonitorClient(config("http://127.0.0.1:1"), mockLogger()).getStreams()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  budgetExceeded,
+  computeCostUsd,
+  createCostTracker,
+  dailySpendUsd,
+  isPaid,
+  lookupPrice,
+  recordUsage,
+  resolvePricing,
+} from "../src/pricing.js";
+import type { LlmProviderConfig } from "../src/types.js";
+
+const litellm: LlmProviderConfig = {
+  provider: "litellm",
+  model: "gemini/gemini-2.0-flash-lite",
+  baseUrl: "http://localhost:4000",
+  timeoutSec: 30,
+};
+
+describe("lookupPrice", () => {
+  it("prefers provider/model, then bare model, then provider wildcard", () => {
+    const pricing = resolvePricing({ "litellm/gemini/gemini-2.0-flash-lite": { promptPerMTok: 1, completionPerMTok: 2 } });
+    expect(lookupPrice(pricing, "litellm", "gemini/gemini-2.0-flash-lite")?.promptPerMTok).toBe(1);
+    expect(lookupPrice(resolvePricing(), "litellm", "gemini/gemini-2.0-flash-lite")?.promptPerMTok).toBe(0.075);
+    expect(lookupPrice(pricing, "ollama", "qwen3:14b")).toEqual({ promptPerMTok: 0, completionPerMTok: 0 });
+    expect(lookupPrice(pricing, "acme", "unknown")).toBeNull();
+  });
+
+  it("treats unpriced and free models as unpaid", () => {
+    const pricing = resolvePricing();
+    expect(isPaid(pricing, litellm)).toBe(true);
+    expect(isPaid(pricing, { ...litellm, provider: "ollama", model: "qwen3:14b" })).toBe(false);
+    expect(isPaid(pricing, { ...litellm, model: "mystery" })).toBe(false);
+  });
+});
+
+describe("computeCostUsd", () => {
+  it("prices prompt and completion tokens separately", () => {
+    expect(computeCostUsd({ promptPerMTok: 1, completionPerMTok: 4 }, 500_000, 250_000)).toBeCloseTo(1.5);
+    expect(computeCostUsd(null, 1_000_000, 1_000_000)).toBe(0);
+  });
+});
+
+describe("cost tracker", () => {
+  it("refuses once the run or daily budget is reached", () => {
+    const limited = { ...litellm, maxCostUsd: 0.05, maxDailyCostUsd: 0.25 };
+    const tracker = createCostTracker({ pricing: resolvePricing(), priorDailyUsd: 0.2 });
+    expect(budgetExceeded(tracker, limited)).toBeNull();
+    recordUsage(tracker, litellm, 400_000, 0); // $0.03
+    expect(budgetExceeded(tracker, limited)).toBeNull();
+    recordUsage(tracker, litellm, 300_000, 0); // +$0.0225 → $0.0525 run, $0.2525 day
+    expect(budgetExceeded(tracker, limited)).toContain("run budget");
+    expect(budgetExceeded(tracker, litellm)).toBeNull();
+
+    const daily = createCostTracker({ pricing: resolvePricing(), priorDailyUsd: 1 });
+    expect(budgetExceeded(daily, { ...litellm, maxDailyCostUsd: 1 })).toContain("daily budget");
+  });
+
+  it("counts every provider's spend toward each provider's limit", () => {
+    const tracker = createCostTracker({ pricing: resolvePricing(), priorDailyUsd: 0 });
+    recordUsage(tracker, { ...litellm, model: "gpt-4o" }, 20_000, 0); // $0.05 on another provider
+    expect(budgetExceeded(tracker, { ...litellm, maxCostUsd: 0.05 })).toContain("run budget");
+  });
+});
+
+describe("dailySpendUsd", () => {
+  it("sums total_cost_usd of today's snapshots only", () => {
+    const now = Date.parse("2026-03-02T18:00:00Z");
+    const history = {
+      snapshots: [
+        { timestamp: "2026-03-01T23:00:00Z", metrics: { total_cost_usd: 0.5 } },
+        { timestamp: "2026-03-02T01:00:00Z", metrics: { total_cost_usd: 0.01 } },
+        { timestamp: "2026-03-02T09:00:00Z", metrics: { total_cost_usd: 0.02 } },
+        { timestamp: "2026-03-02T10:00:00Z", metrics: {} },
+      ],
+    };
+    expect(dailySpendUsd(history, now)).toBeCloseTo(0.03);
+    expect(dailySpendUsd(null, now)).toBe(0);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createScheduler, computeInitialDelay, STARTUP_DELAY_MS } from "../src/scheduler.js";
+import type { PluginLogger } from "../src/types.js";
+
+function mockLogger(): PluginLogger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+}
+
+function deferred<T>(): { promise: Promise<T>; resolve: (v: T) => void } {
+  let resolve!: (v: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("computeInitialDelay", () => {
+  it("uses startup delay when there is no previous run", () => {
+    expect(computeInitialDelay(undefined, 3600_000)).toBe(STARTUP_DELAY_MS);
+    expect(computeInitialDelay("not a date", 3600_000)).toBe(STARTUP_DELAY_MS);
+  });
+
+  it("waits out the remainder of the interval after a recent run", () => {
+    const now = Date.parse("2026-03-01T12:00:00Z");
+    const delay = computeInitialDelay("2026-03-01T11:30:00Z", 2 * 3600_000, now);
+    expect(delay).toBe(90 * 60_000);
+  });
+
+  it("never goes below the startup delay for overdue runs", () => {
+    const now = Date.parse("2026-03-01T12:00:00Z");
+    expect(computeInitialDelay("2026-02-01T00:00:00Z", 3600_000, now)).toBe(STARTUP_DELAY_MS);
+  });
+});
+
+describe("createScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs on the configured interval after start", async () => {
+    const run = vi.fn().mockResolvedValue("done");
+    const scheduler = createScheduler({ intervalMs: 1000, timeoutMs: 500, run, logger: mockLogger() });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("honors initialDelayMs for the first run", async () => {
+    const run = vi.fn().mockResolvedValue("done");
+    const scheduler = createScheduler({ intervalMs: 10_000, timeoutMs: 500, initialDelayMs: 100, run, logger: mockLogger() });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(run).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("does not schedule when interval is disabled", async () => {
+    const run = vi.fn().mockResolvedValue("done");
+    const scheduler = createScheduler({ intervalMs: 0, timeoutMs: 500, run, logger: mockLogger() });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(run).not.toHaveBeenCalled();
+
+    const outcome = await scheduler.trigger();
+    expect(outcome).toEqual({ status: "completed", value: "done" });
+  });
+
+  it("rejects overlapping runs", async () => {
+    const gate = deferred<string>();
+    const scheduler = createScheduler({ intervalMs: 0, timeoutMs: 10_000, run: () => gate.promise, logger: mockLogger() });
+
+    const first = scheduler.trigger();
+    expect(scheduler.isRunning()).toBe(true);
+    expect(await scheduler.trigger()).toEqual({ status: "busy" });
+
+    gate.resolve("ok");
+    expect(await first).toEqual({ status: "completed", value: "ok" });
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  it("aborts the run when the deadline is exceeded", async () => {
+    let seenSignal: AbortSignal | undefined;
+    const gate = deferred<string>();
+    const logger = mockLogger();
+    const scheduler = createScheduler({
+      intervalMs: 0,
+      timeoutMs: 2000,
+      run: (signal) => { seenSignal = signal; return gate.promise; },
+      logger,
+    });
+
+    const pending = scheduler.trigger();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await pending).toEqual({ status: "timeout" });
+    expect(seenSignal?.aborted).toBe(true);
+    expect(logger.warn).toHaveBeenCalled();
+
+    // Abandoned run still blocks overlap until it settles
+    expect(await scheduler.trigger()).toEqual({ status: "busy" });
+    gate.resolve("late");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  it("reports failed runs", async () => {
+    const scheduler = createScheduler({
+      intervalMs: 0,
+      timeoutMs: 1000,
+      run: () => Promise.reject(new Error("boom")),
+      logger: mockLogger(),
+    });
+    expect(await scheduler.trigger()).toEqual({ status: "failed", error: "boom" });
+  });
+
+  it("stop() cancels the timer and aborts the in-flight run", async () => {
+    let seenSignal: AbortSignal | undefined;
+    const run = vi.fn((signal: AbortSignal) => { seenSignal = signal; return new Promise<string>(() => {}); });
+    const scheduler = createScheduler({ intervalMs: 1000, timeoutMs: 60_000, run, logger: mockLogger() });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    scheduler.stop();
+    expect(seenSignal?.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("reconfigure() re-arms a pending timer with the new interval", async () => {
+    const run = vi.fn().mockResolvedValue("done");
+    const scheduler = createScheduler({ intervalMs: 10_000, timeoutMs: 500, run, logger: mockLogger() });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(5000);
+    scheduler.reconfigure({ intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(2);
+
+    scheduler.reconfigure({ intervalMs: 0 });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(run).toHaveBeenCalledTimes(2);
+
+    scheduler.reconfigure({ intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(3);
+    scheduler.stop();
+  });
+
+  it("reconfigure() applies a new deadline to later runs", async () => {
+    const gate = deferred<string>();
+    const scheduler = createScheduler({ intervalMs: 0, timeoutMs: 60_000, run: () => gate.promise, logger: mockLogger() });
+    scheduler.reconfigure({ timeoutMs: 1000 });
+    const pending = scheduler.trigger();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await pending).toEqual({ status: "timeout" });
+    gate.resolve("late");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { validateSchema, pruneInvalid, type JsonSchema } from "../src/schema.js";
+
+const schema: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["name"],
+  properties: {
+    name: { type: "string", minLength: 1 },
+    count: { type: "integer", minimum: 0, maximum: 10 },
+    ratio: { type: "number", exclusiveMinimum: 0 },
+    mode: { type: "string", enum: ["a", "b"] },
+    tags: { type: "array", items: { type: "string", pattern: "^[a-z]+$" } },
+    limits: { type: "object", additionalProperties: { type: "number" } },
+    day: { anyOf: [{ type: "object", properties: { start: { type: "number" } }, additionalProperties: false }, { type: "null" }] },
+  },
+};
+
+describe("validateSchema", () => {
+  it("accepts a valid document", () => {
+    expect(validateSchema(schema, {
+      name: "x", count: 3, ratio: 1.5, mode: "a", tags: ["ok"], limits: { a: 1 }, day: null,
+    })).toEqual([]);
+  });
+
+  it("treats integers as numbers but not the reverse", () => {
+    expect(validateSchema({ type: "number" }, 3)).toEqual([]);
+    expect(validateSchema({ type: "integer" }, 3.5)).toEqual([{ path: "", message: "expected integer, got number 3.5" }]);
+  });
+
+  it("reports every problem with its path", () => {
+    expect(validateSchema(schema, {
+      count: 11, ratio: 0, mode: "c", tags: ["ok", "NO"], limits: { a: "1" }, day: { start: "9" }, extra: 1,
+    })).toEqual([
+      { path: "name", message: "required" },
+      { path: "count", message: "must be <= 10, got 11" },
+      { path: "ratio", message: "must be > 0, got 0" },
+      { path: "mode", message: "must be one of \"a\", \"b\", got \"c\"" },
+      { path: "tags[1]", message: "must match ^[a-z]+$, got \"NO\"" },
+      { path: "limits.a", message: "expected number, got string \"1\"" },
+      { path: "day.start", message: "expected number, got string \"9\"" },
+      { path: "extra", message: "unknown field" },
+    ]);
+  });
+
+  it("reports an anyOf mismatch by the accepted types", () => {
+    expect(validateSchema(schema, { name: "x", day: 5 })).toEqual([
+      { path: "day", message: "expected object | null, got 5" },
+    ]);
+  });
+});
+
+describe("pruneInvalid", () => {
+  it("drops invalid fields and list items, keeping the rest", () => {
+    expect(pruneInvalid(schema, {
+      name: "x", count: 11, ratio: 0.5, tags: ["ok", "NO"], limits: { a: "1", b: 2 }, day: { start: "9" }, extra: 1,
+    })).toEqual({ name: "x", ratio: 0.5, tags: ["ok"], limits: { b: 2 } });
+  });
+
+  it("returns undefined for a value of the wrong type", () => {
+    expect(pruneInvalid(schema, "x")).toBeUndefined();
+    expect(pruneInvalid({ type: "integer", minimum: 1 }, 2)).toBe(2);
+  });
+});
@@ -9,12 +9,18 @@ vi.mock("node:fs", () => ({
   existsSync: vi.fn(),
 }));
 
+vi.mock("../src/file-lock.js", () => ({
+  withFileLockAsync: vi.fn(async (_path: string, _opts: unknown, fn: () => unknown) => fn()),
+}));
+
 import { readFileSync, writeFileSync, renameSync, existsSync } from "node:fs";
+import { withFileLockAsync } from "../src/file-lock.js";
 
 const mockedReadFileSync = vi.mocked(readFileSync);
 const mockedWriteFileSync = vi.mocked(writeFileSync);
 const mockedRenameSync = vi.mocked(renameSync);
 const mockedExistsSync = vi.mocked(existsSync);
+const mockedWithFileLock = vi.mocked(withFileLockAsync);
 
 function mockLogger(): PluginLogger {
   return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
@@ -49,7 +55,7 @@ describe("writeCognitiveResults", () => {
     vi.clearAllMocks();
   });
 
-  it("preserves daemon_checks from existing file", () => {
+  it("preserves daemon_checks from existing file", async () => {
     mockedExistsSync.mockReturnValue(true);
     mockedReadFileSync.mockReturnValue(JSON.stringify({
       last_check: "2026-02-23T16:45:00",
@@ -60,7 +66,7 @@ describe("writeCognitiveResults", () => {
       auto_heal_history: [{ action: "restart" }],
     }));
 
-    const result = writeCognitiveResults("/test/status.json", makePayload(), mockLogger());
+    const result = await writeCognitiveResults("/test/status.json", makePayload(), mockLogger());
     expect(result).toBe(true);
 
     const writtenContent = mockedWriteFileSync.mock.calls[0]?.[1] as string;
@@ -72,31 +78,67 @@ describe("writeCognitiveResults", () => {
     expect(parsed["cognitive_meta"]).toBeDefined();
   });
 
-  it("uses atomic write (tmp file + rename)", () => {
+  it("recomputes overall_severity across daemon and cognitive checks", async () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(JSON.stringify({
+      overall_severity: "ok",
+      daemon_checks: [{ check_name: "gateway_alive", severity: "critical", detail: "down" }],
+    }));
+
+    await writeCognitiveResults("/test/status.json", makePayload(), mockLogger());
+
+    const parsed = JSON.parse(mockedWriteFileSync.mock.calls[0]?.[1] as string) as Record<string, unknown>;
+    expect(parsed["overall_severity"]).toBe("critical");
+  });
+
+  it("uses atomic write (tmp file + rename)", async () => {
     mockedExistsSync.mockReturnValue(true);
     mockedReadFileSync.mockReturnValue("{}");
 
-    writeCognitiveResults("/test/status.json", makePayload(), mockLogger());
+    await writeCognitiveResults("/test/status.json", makePayload(), mockLogger());
 
+    const tmpPath = `/test/status.json.${process.pid}.l2tmp`;
     expect(mockedWriteFileSync).toHaveBeenCalledWith(
-      "/test/status.json.l2tmp",
+      tmpPath,
       expect.any(String),
       "utf-8",
     );
     expect(mockedRenameSync).toHaveBeenCalledWith(
-      "/test/status.json.l2tmp",
+      tmpPath,
       "/test/status.json",
     );
   });
 
-  it("handles missing existing file", () => {
+  it("performs the read-modify-write under the shared status lock", async () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue("{}");
+
+    await writeCognitiveResults("/test/status.json", makePayload(), mockLogger(), { lockTimeoutMs: 1234 });
+
+    expect(mockedWithFileLock).toHaveBeenCalledWith(
+      "/test/status.json",
+      expect.objectContaining({ timeoutMs: 1234 }),
+      expect.any(Function),
+    );
+  });
+
+  it("returns false when the lock cannot be acquired", async () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedWithFileLock.mockRejectedValueOnce(new Error("Timed out after 5000ms waiting for lock"));
+    const logger = mockLogger();
+    expect(await writeCognitiveResults("/test/status.json", makePayload(), logger)).toBe(false);
+    expect(logger.error).toHaveBeenCalled();
+    expect(mockedWriteFileSync).not.toHaveBeenCalled();
+  });
+
+  it("handles missing existing file", async () => {
     mockedExistsSync.mockImplementation((p) => {
       // File doesn't exist, but directory does
       if (String(p).endsWith("status.json")) return false;
       return true; // Directory exists
     });
 
-    const result = writeCognitiveResults("/test/status.json", makePayload(), mockLogger());
+    const result = await writeCognitiveResults("/test/status.json", makePayload(), mockLogger());
     expect(result).toBe(true);
 
     const writtenContent = mockedWriteFileSync.mock.calls[0]?.[1] as string;
@@ -104,7 +146,7 @@ describe("writeCognitiveResults", () => {
     expect(parsed["cognitive_checks"]).toBeDefined();
   });
 
-  it("includes sitrep_collectors when provided", () => {
+  it("includes sitrep_collectors when provided", async () => {
     mockedExistsSync.mockReturnValue(true);
     mockedReadFileSync.mockReturnValue("{}");
 
@@ -120,39 +162,39 @@ describe("writeCognitiveResults", () => {
       },
     ];
 
-    writeCognitiveResults("/test/status.json", payload, mockLogger());
+    await writeCognitiveResults("/test/status.json", payload, mockLogger());
 
     const writtenContent = mockedWriteFileSync.mock.calls[0]?.[1] as string;
     const parsed = JSON.parse(writtenContent) as Record<string, unknown>;
     expect(parsed["sitrep_collectors"]).toBeDefined();
   });
 
-  it("returns false when directory doesn't exist", () => {
+  it("returns false when directory doesn't exist", async () => {
     mockedExistsSync.mockReturnValue(false);
     const logger = mockLogger();
-    const result = writeCognitiveResults("/nonexistent/dir/status.json", makePayload(), logger);
+    const result = await writeCognitiveResults("/nonexistent/dir/status.json", makePayload(), logger);
     expect(result).toBe(false);
     expect(logger.warn).toHaveBeenCalled();
   });
 
-  it("returns false on write error", () => {
+  it("returns false on write error", async () => {
     mockedExistsSync.mockReturnValue(true);
     mockedReadFileSync.mockReturnValue("{}");
     mockedWriteFileSync.mockImplementation(() => {
       throw new Error("Permission denied");
     });
     const logger = mockLogger();
-    const result = writeCognitiveResults("/test/status.json", makePayload(), logger);
+    const result = await writeCognitiveResults("/test/status.json", makePayload(), logger);
     expect(result).toBe(false);
     expect(logger.error).toHaveBeenCalled();
   });
 
-  it("handles malformed existing JSON gracefully", () => {
+  it("handles malformed existing JSON gracefully", async () => {
     mockedExistsSync.mockReturnValue(true);
     mockedReadFileSync.mockReturnValue("not json {{{");
 
     const logger = mockLogger();
-    writeCognitiveResults("/test/status.json", makePayload(), logger);
+    await writeCognitiveResults("/test/status.json", makePayload(), logger);
 
     // Should still write, just without preserving old fields
     expect(mockedWriteFileSync).toHaveBeenCalled();